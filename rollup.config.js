@@ -6,39 +6,56 @@ import fs from 'fs';
 const extensions = ['.js', '.ts'];
 const pkg = JSON.parse(fs.readFileSync('./package.json'));
 
-export default {
-  input: ['./src/index.ts'],
-  // Treats all "node_modules" as externals and are not bundled
-  // delete this line to bundle them
-  external: [/node_modules/],
-  plugins: [
-    resolve({ extensions }),
-    commonjs(),
-    babelPlugin.babel({
-      babelrc: true,
-      babelHelpers: 'bundled',
-      exclude: 'node_modules/**',
-      extensions: ['.js', '.ts'],
-    }),
-  ],
-  output: [
-    {
-      file: pkg.main,
-      format: 'cjs',
-      sourcemap: true,
-      sourcemapExcludeSources: true,
-    },
-    {
-      file: pkg.exports.require,
+const plugins = [
+  resolve({ extensions }),
+  commonjs(),
+  babelPlugin.babel({
+    babelrc: true,
+    babelHelpers: 'bundled',
+    exclude: 'node_modules/**',
+    extensions: ['.js', '.ts'],
+  }),
+];
+
+export default [
+  {
+    input: ['./src/index.ts'],
+    // Treats all "node_modules" as externals and are not bundled
+    // delete this line to bundle them
+    external: [/node_modules/, /^node:/],
+    plugins,
+    output: [
+      {
+        file: pkg.main,
+        format: 'cjs',
+        sourcemap: true,
+        sourcemapExcludeSources: true,
+      },
+      {
+        file: pkg.exports.require,
+        format: 'cjs',
+        sourcemap: true,
+        sourcemapExcludeSources: true,
+      },
+      {
+        file: pkg.exports.import,
+        format: 'es',
+        sourcemap: true,
+        sourcemapExcludeSources: true,
+      },
+    ],
+  },
+  {
+    // the command-line interface, see src/cli.ts.
+    input: ['./src/bin.ts'],
+    external: [/node_modules/, /^node:/],
+    plugins,
+    output: {
+      file: pkg.bin,
       format: 'cjs',
+      banner: '#!/usr/bin/env node',
       sourcemap: true,
       sourcemapExcludeSources: true,
     },
-    {
-      file: pkg.exports.import,
-      format: 'es',
-      sourcemap: true,
-      sourcemapExcludeSources: true,
-    },
-  ],
-};
+  },
+];
@@ -0,0 +1,9 @@
+import { runCli } from './cli';
+
+try {
+  process.exitCode = runCli(process.argv.slice(2));
+} catch (error) {
+  // a failure to load the project, rather than a usage error.
+  console.error(error instanceof Error ? error.message : String(error));
+  process.exitCode = 1;
+}
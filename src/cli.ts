@@ -0,0 +1,488 @@
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+
+import { ConsoleErrorReporter } from './objects/console-error-reporter';
+import { EmberAddonPackageInfo } from './objects/ember-addon-package-info';
+import type { ErrorReporter } from './objects/error-reporter';
+import { ERRORS, ErrorSeverity, ErrorType } from './objects/errors';
+import { JsonErrorReporter } from './objects/json-error-reporter';
+import { JUnitErrorReporter } from './objects/junit-error-reporter';
+import { PackageInfo } from './objects/package-info';
+import { PackageInfoCache } from './objects/package-info-cache';
+import { SarifErrorReporter } from './objects/sarif-error-reporter';
+
+export const CLI_USAGE = `Usage: package-info-cache <command> [options]
+
+Commands:
+  check              load the project and show any errors (exits with 1 if there are some)
+  why <package>      show every chain of dependencies from the root package to a package
+  ls                 show the dependency tree of the root package
+  dupes              show the packages that are installed more than once
+  info <package>     show the package that the root package resolves a name to
+
+Options:
+  --project <dir>    load the project in a directory (the default, with the current directory)
+  --app <dir>        load the app in a directory
+  --addon <dir>      load the addon in a directory, for the project given by --project
+  --reporter <name>  (check) report the errors as console (the default), json, sarif or junit
+  --suppress <type>  (check) leave out the errors of a type (one of the ERRORS values),
+                     instead of the packageDirectoryMissing errors
+  --severity <level> (check) the least severe problems to report: error (the default)
+                     or warning
+  --depth <n>        (ls) only show dependencies down to this depth (0 for direct ones)
+  --addons-only      (ls) only show Ember addons
+  --json             print the result as JSON (for check, the same as --reporter json)
+  -h, --help         show this message`;
+
+const CLI_OPTIONS = {
+  project: { type: 'string' },
+  app: { type: 'string' },
+  addon: { type: 'string' },
+  reporter: { type: 'string' },
+  suppress: { type: 'string', multiple: true },
+  severity: { type: 'string' },
+  depth: { type: 'string' },
+  'addons-only': { type: 'boolean' },
+  json: { type: 'boolean' },
+  help: { type: 'boolean', short: 'h' },
+} as const;
+
+type CliValues = {
+  project?: string;
+  app?: string;
+  addon?: string;
+  reporter?: string;
+  suppress?: string[];
+  severity?: string;
+  depth?: string;
+  'addons-only'?: boolean;
+  json?: boolean;
+  help?: boolean;
+};
+
+// The JSON form of a package in the output of the commands.
+type PackageSummary = {
+  name: string | undefined;
+  version: string | undefined;
+  type: string;
+  path: string;
+};
+
+// The JSON form of a package in the output of 'ls'.
+type PackageTreeNode = PackageSummary & {
+  // true if the package's dependencies are shown elsewhere in the tree.
+  deduped?: boolean;
+  dependencies?: PackageTreeNode[];
+};
+
+// The reporters for 'check --reporter', by name.
+const REPORTERS: Record<string, (() => ErrorReporter) | undefined> = {
+  console: () => new ConsoleErrorReporter(),
+  json: () => new JsonErrorReporter(),
+  sarif: () => new SarifErrorReporter(),
+  junit: () => new JUnitErrorReporter(),
+};
+
+// A usage problem, reported with the usage message.
+class CliUsageError extends Error {}
+
+/**
+ * Run the package-info-cache command line: load a project into a new cache and
+ * report on it. Output is written to the console.
+ *
+ * @param args - the command line arguments, without the node and script paths.
+ * @param cwd - the directory that relative paths are resolved from.
+ * @returns the exit code: 0 for success, 1 if the check found errors or a package
+ * wasn't found, 2 for a usage error.
+ */
+export function runCli(args: string[], cwd = process.cwd()): number {
+  let values: CliValues;
+  let positionals: string[];
+
+  try {
+    ({ values, positionals } = parseArgs({
+      args,
+      options: CLI_OPTIONS,
+      allowPositionals: true,
+    }));
+  } catch (error) {
+    return usageError((error as Error).message);
+  }
+
+  const [command, ...commandArgs] = positionals;
+
+  if (values.help) {
+    console.log(CLI_USAGE);
+    return 0;
+  }
+
+  try {
+    switch (command) {
+      case 'check':
+        checkArgs(commandArgs, 0);
+        return check(loadCache(values, cwd), values);
+
+      case 'why':
+        checkArgs(commandArgs, 1);
+        return why(loadCache(values, cwd), commandArgs[0] as string, values);
+
+      case 'ls':
+        checkArgs(commandArgs, 0);
+        return ls(loadCache(values, cwd), values);
+
+      case 'dupes':
+        checkArgs(commandArgs, 0);
+        return dupes(loadCache(values, cwd), values);
+
+      case 'info':
+        checkArgs(commandArgs, 1);
+        return info(loadCache(values, cwd), commandArgs[0] as string, values);
+
+      default:
+        throw new CliUsageError(
+          command ? `Unknown command '${command}'` : 'No command given'
+        );
+    }
+  } catch (error) {
+    if (error instanceof CliUsageError) {
+      return usageError(error.message);
+    }
+
+    throw error;
+  }
+}
+
+function usageError(message: string): number {
+  console.error(`${message}\n\n${CLI_USAGE}`);
+  return 2;
+}
+
+function checkArgs(commandArgs: string[], count: number): void {
+  if (commandArgs.length !== count) {
+    throw new CliUsageError(
+      count === 0
+        ? `Unexpected argument '${commandArgs[0]}'`
+        : 'Expected a package name'
+    );
+  }
+}
+
+/**
+ * Load the cache the way the options say: --addon with loadAddon (for the project
+ * in --project, by default the current directory), --app with loadApp, otherwise
+ * --project (by default the current directory) with loadProject. A directory that
+ * does not exist is a usage error, since the missing root package would otherwise
+ * only be a suppressed error.
+ */
+function loadCache(values: CliValues, cwd: string): PackageInfoCache {
+  if (values.addon && values.app) {
+    throw new CliUsageError('Only one of --addon and --app may be given');
+  }
+
+  if (values.app && values.project) {
+    throw new CliUsageError('Only one of --app and --project may be given');
+  }
+
+  const pic = new PackageInfoCache();
+
+  const getDir = (dir: string): string => {
+    const dirPath = path.resolve(cwd, dir);
+
+    if (!pic.fileSystem.stat(dirPath)?.isDirectory) {
+      throw new CliUsageError(`No directory at '${dirPath}'`);
+    }
+
+    return dirPath;
+  };
+
+  if (values.addon) {
+    const addonDir = getDir(values.addon);
+    const projectDir = getDir(values.project ?? '.');
+    pic.loadAddon(addonDir, path.relative(addonDir, projectDir));
+  } else if (values.app) {
+    pic.loadApp(getDir(values.app));
+  } else {
+    pic.loadProject(getDir(values.project ?? '.'));
+  }
+
+  return pic;
+}
+
+function printJson(value: unknown): void {
+  console.log(JSON.stringify(value, null, 2));
+}
+
+function toSummary(packageInfo: PackageInfo): PackageSummary {
+  return {
+    name: packageInfo.name,
+    version: packageInfo.packageJson.version,
+    type: packageInfo.typeName(),
+    path: packageInfo.realPath,
+  };
+}
+
+function describePackage(packageInfo: PackageInfo): string {
+  const version = packageInfo.packageJson.version;
+  return version ? `${packageInfo.name}@${version}` : `${packageInfo.name}`;
+}
+
+function isMissing(packageInfo: PackageInfo): boolean {
+  return packageInfo.errors
+    .getErrors()
+    .some((error) => error.type === ERRORS.ERROR_PACKAGE_DIR_MISSING);
+}
+
+// the packages a package depends on, in the order of the dependency names.
+function getDependencies(packageInfo: PackageInfo): PackageInfo[] {
+  const dependencies = packageInfo
+    .getDependencyEdges()
+    .filter((edge) => edge.dependencyType !== 'peerDependencies')
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .map((edge) => edge.packageInfo);
+
+  return [...new Set(dependencies)];
+}
+
+function check(pic: PackageInfoCache, values: CliValues): number {
+  const reporterName = values.json ? 'json' : values.reporter ?? 'console';
+  const createReporter = REPORTERS[reporterName];
+
+  if (!createReporter) {
+    throw new CliUsageError(`Unknown reporter '${reporterName}'`);
+  }
+
+  const errorTypes: string[] = Object.values(ERRORS);
+  const suppress = values.suppress?.map((errorType) => {
+    if (!errorTypes.includes(errorType)) {
+      throw new CliUsageError(`Unknown error type '${errorType}'`);
+    }
+
+    return errorType as ErrorType;
+  });
+
+  const severity = values.severity ?? 'error';
+
+  if (!['error', 'warning'].includes(severity)) {
+    throw new CliUsageError(`Unknown severity '${severity}'`);
+  }
+
+  const report = pic.getErrorReport({
+    suppress,
+    severity: severity as ErrorSeverity,
+  });
+
+  if (report.entries.length === 0 && reporterName === 'console') {
+    console.log('No errors were found in the package info cache');
+  } else {
+    console.log(createReporter().format(report));
+  }
+
+  // warnings alone don't fail the check.
+  return report.entries.some(({ errors }) =>
+    errors.some((errorEntry) => errorEntry.severity === 'error')
+  )
+    ? 1
+    : 0;
+}
+
+function why(
+  pic: PackageInfoCache,
+  packageName: string,
+  values: CliValues
+): number {
+  const targets = [...pic.entries.values()]
+    .filter(
+      (entry): entry is PackageInfo =>
+        entry instanceof PackageInfo &&
+        entry.name === packageName &&
+        !isMissing(entry)
+    )
+    .sort((a, b) => a.realPath.localeCompare(b.realPath));
+
+  const results = targets.map((target) => ({
+    target,
+    chains: pic.findPathsTo(target),
+  }));
+
+  if (values.json) {
+    printJson(
+      results.map(({ target, chains }) => ({
+        ...toSummary(target),
+        chains: chains.map((chain) => chain.map(toSummary)),
+      }))
+    );
+  } else if (targets.length === 0) {
+    console.log(`'${packageName}' is not installed`);
+  } else {
+    results.forEach(({ target, chains }) => {
+      console.log(`${describePackage(target)} at '${target.realPath}':`);
+
+      if (chains.length === 0) {
+        console.log(`  not depended on by the root package`);
+      }
+
+      chains.forEach((chain) => {
+        console.log(`  ${chain.map(describePackage).join(' > ')}`);
+      });
+    });
+  }
+
+  return targets.length > 0 ? 0 : 1;
+}
+
+function ls(pic: PackageInfoCache, values: CliValues): number {
+  // a non-negative integer, if given.
+  if (values.depth !== undefined && !/^\d+$/.test(values.depth)) {
+    throw new CliUsageError(`Invalid depth '${values.depth}'`);
+  }
+
+  const depth = values.depth === undefined ? Infinity : Number(values.depth);
+
+  const rootPackage = pic.rootPackage;
+
+  if (!rootPackage) {
+    return 1;
+  }
+
+  const shown = new Set<PackageInfo>();
+
+  // build the tree, showing the dependencies of each package only once.
+  const buildNode = (
+    packageInfo: PackageInfo,
+    level: number
+  ): PackageTreeNode => {
+    const node: PackageTreeNode = toSummary(packageInfo);
+
+    if (level > depth) {
+      return node;
+    }
+
+    if (shown.has(packageInfo)) {
+      node.deduped = true;
+      return node;
+    }
+
+    shown.add(packageInfo);
+
+    node.dependencies = getDependencies(packageInfo)
+      .filter(
+        (dependency) =>
+          !values['addons-only'] || dependency instanceof EmberAddonPackageInfo
+      )
+      .map((dependency) => buildNode(dependency, level + 1));
+
+    return node;
+  };
+
+  const tree = buildNode(rootPackage, 0);
+
+  if (values.json) {
+    printJson(tree);
+    return 0;
+  }
+
+  const printNode = (node: PackageTreeNode, indent: string): void => {
+    (node.dependencies ?? []).forEach((dependency) => {
+      const version = dependency.version ? `@${dependency.version}` : '';
+      const deduped = dependency.deduped ? ' (deduped)' : '';
+
+      console.log(`${indent}${dependency.name}${version}${deduped}`);
+      printNode(dependency, `${indent}  `);
+    });
+  };
+
+  console.log(describePackage(rootPackage));
+  printNode(tree, '  ');
+
+  return 0;
+}
+
+function dupes(pic: PackageInfoCache, values: CliValues): number {
+  const duplicates = pic.findDuplicates();
+
+  if (values.json) {
+    printJson(
+      duplicates.map((duplicate) => ({
+        name: duplicate.name,
+        isEmberAddon: duplicate.isEmberAddon,
+        copies: duplicate.copies.map((copy) => ({
+          version: copy.version,
+          path: copy.realPath,
+          dependents: copy.dependents.map(toSummary),
+        })),
+      }))
+    );
+  } else if (duplicates.length === 0) {
+    console.log('No package is installed more than once');
+  } else {
+    duplicates.forEach((duplicate) => {
+      console.log(
+        `${duplicate.name}${duplicate.isEmberAddon ? ' (Ember addon)' : ''}:`
+      );
+
+      duplicate.copies.forEach((copy) => {
+        console.log(
+          `  ${copy.version ?? '(no version)'} at '${copy.realPath}'`
+        );
+        copy.dependents.forEach((dependent) => {
+          console.log(`    used by ${describePackage(dependent)}`);
+        });
+      });
+    });
+  }
+
+  return 0;
+}
+
+function info(
+  pic: PackageInfoCache,
+  packageName: string,
+  values: CliValues
+): number {
+  const rootPackage = pic.rootPackage;
+  const packageInfo =
+    rootPackage?.name === packageName
+      ? rootPackage
+      : rootPackage && pic.findPackage(packageName, rootPackage.realPath);
+
+  if (!packageInfo || isMissing(packageInfo)) {
+    if (values.json) {
+      printJson(null);
+    } else {
+      console.log(`'${packageName}' is not installed`);
+    }
+
+    return 1;
+  }
+
+  const dependencies = getDependencies(packageInfo);
+  const dependents = pic.getDependents(packageInfo);
+  const errors = packageInfo.errors
+    .getErrors()
+    .map(({ type, severity, data }) => ({ type, severity, data }));
+
+  if (values.json) {
+    printJson({
+      ...toSummary(packageInfo),
+      dependencies: dependencies.map(toSummary),
+      dependents: dependents.map(toSummary),
+      errors,
+    });
+    return 0;
+  }
+
+  console.log(describePackage(packageInfo));
+  console.log(`  type: ${packageInfo.typeName()}`);
+  console.log(`  path: ${packageInfo.realPath}`);
+  console.log(
+    `  dependencies: ${dependencies.map(describePackage).join(', ') || 'none'}`
+  );
+  console.log(
+    `  dependents: ${dependents.map(describePackage).join(', ') || 'none'}`
+  );
+  console.log(
+    `  errors: ${errors.map(({ type }) => type).join(', ') || 'none'}`
+  );
+
+  return 0;
+}
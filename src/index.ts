@@ -1,13 +1,111 @@
+export { ConsoleErrorReporter } from './objects/console-error-reporter';
+export type { DependencyRangeMismatch } from './objects/dependency-edge';
+export { DependencyEdge } from './objects/dependency-edge';
+export type { DependencyGraphOptions } from './objects/dependency-graph';
+export { DependencyGraph } from './objects/dependency-graph';
+export type {
+  DuplicatePackage,
+  DuplicatePackageCopy,
+} from './objects/duplicate-packages';
 export { EmberAddonPackageInfo } from './objects/ember-addon-package-info';
 export { EmberAppPackageInfo } from './objects/ember-app-package-info';
 export { EmberEnginePackageInfo } from './objects/ember-engine-package-info';
+export type { EmberEngineTree } from './objects/ember-engine-tree';
 export { EmberPackageInfo } from './objects/ember-package-info';
+export type { AnyErrorEntry } from './objects/error-entry';
 export { ErrorEntry } from './objects/error-entry';
 export { ErrorList } from './objects/error-list';
-export { ERRORS } from './objects/errors';
+export type {
+  ErrorReport,
+  ErrorReportEntry,
+  ErrorReporter,
+  ErrorReportOptions,
+} from './objects/error-reporter';
+export { DEFAULT_SUPPRESSED_ERRORS } from './objects/error-reporter';
+export type { ErrorData, ErrorSeverity, ErrorType } from './objects/errors';
+export { ERROR_SEVERITIES, ERRORS } from './objects/errors';
+export type {
+  FileSystem,
+  FileSystemStats,
+  FileSystemWatch,
+} from './objects/file-system';
+export type { JsonErrorReportEntry } from './objects/json-error-reporter';
+export { JsonErrorReporter } from './objects/json-error-reporter';
+export { JUnitErrorReporter } from './objects/junit-error-reporter';
+export type {
+  InstalledPackage,
+  LockedPackage,
+  Lockfile,
+  LockfileExtraneousPackage,
+  LockfileFormat,
+  LockfileMissingPackage,
+  LockfileVerification,
+  LockfileVersionMismatch,
+} from './objects/lockfile-verification';
+export type { MemoryDirectory } from './objects/memory-file-system';
+export { MemoryFileSystem } from './objects/memory-file-system';
+export { NodeFileSystem } from './objects/node-file-system';
 export { NodeModulesList } from './objects/node-modules-list';
+export type {
+  BrokenPackageTarget,
+  PackageTargetResolution,
+} from './objects/package-exports';
+export {
+  DEFAULT_CONDITIONS,
+  resolvePackageExports,
+  resolvePackageImports,
+} from './objects/package-exports';
+export type { PeerDependencyMismatch } from './objects/package-info';
 export { PackageInfo } from './objects/package-info';
+export type {
+  PackageInfoCacheEntry,
+  PackageInfoCacheOptions,
+} from './objects/package-info-cache';
 export { PackageInfoCache } from './objects/package-info-cache';
+export type {
+  PackageInfoCacheSnapshot,
+  SnapshotEntry,
+  SnapshotError,
+  SnapshotFileStamp,
+  SnapshotLoad,
+  SnapshotNodeModulesList,
+  SnapshotPackageInfo,
+} from './objects/package-info-cache-snapshot';
+export { SNAPSHOT_VERSION } from './objects/package-info-cache-snapshot';
+export type {
+  PackageInfoCacheWatcherEventName,
+  PackageInfoCacheWatcherEvents,
+  PackageInfoCacheWatcherOptions,
+} from './objects/package-info-cache-watcher';
+export { PackageInfoCacheWatcher } from './objects/package-info-cache-watcher';
+export type {
+  AnyPackageType,
+  PackageInfoClass,
+  PackageType,
+} from './objects/package-info-factory';
+export {
+  DEFAULT_PACKAGE_TYPES,
+  PackageInfoFactory,
+} from './objects/package-info-factory';
+export type {
+  PackageJsonFinding,
+  PackageJsonProblem,
+  PackageJsonRule,
+} from './objects/package-json-rules';
+export { DEFAULT_PACKAGE_JSON_RULES } from './objects/package-json-rules';
+export type {
+  PnpDependencyTarget,
+  PnpPackageInformation,
+  PnpRuntimeState,
+} from './objects/pnp-resolution-backend';
+export { PnpResolutionBackend } from './objects/pnp-resolution-backend';
+export type { ResolutionBackend } from './objects/resolution-backend';
+export {
+  RESOLUTION_REASONS,
+  ResolutionTrace,
+  ResolutionTraceEntry,
+} from './objects/resolution-trace';
+export { SarifErrorReporter } from './objects/sarif-error-reporter';
 export type { EmberAddonFields } from './types/ember-addon-fields';
 export type { EmberAddonPackageJson } from './types/ember-addon-package-json';
 export { isEmberAddonPackageJson } from './types/ember-addon-package-json';
@@ -17,6 +115,7 @@ export type { EmberEnginePackageJson } from './types/ember-engine-package-json';
 export { isEmberEnginePackageJson } from './types/ember-engine-package-json';
 export type { EmberPackageJson } from './types/ember-package-json';
 export { isEmberPackageJson } from './types/ember-package-json';
+export type { SourceLocation } from './utils';
 
 // import { PackageJson } from 'type-fest';
 // export * as PackageJsonType from 'type-fest';
@@ -0,0 +1,200 @@
+import { isString, isStringArray } from '../utils';
+import type { EmberAddonPackageInfo } from './ember-addon-package-info';
+import { ERRORS } from './errors';
+import type { PackageInfo } from './package-info';
+
+// One addon in the before/after ordering, like a vertex in ember-cli's DAGMap.
+type AddonVertex = {
+  name: string;
+  addon: EmberAddonPackageInfo | undefined;
+
+  // the vertices that must come before this one, in the order they were added.
+  predecessors: AddonVertex[];
+
+  // true if some other vertex must come after this one.
+  hasSuccessors: boolean;
+};
+
+/**
+ * Find the addons of a package the way ember-cli does: the Ember addons among
+ * the given sources (each sorted by name, later sources moving an addon that
+ * was already found to the end of the list), then ordered by the 'ember-addon'
+ * 'before' and 'after' fields of each addon. Any ordering cycle is recorded as
+ * an ERROR_EMBER_ADDON_ORDER_CYCLE error on the package, and the edge that
+ * closes the cycle is ignored, instead of throwing as ember-cli does.
+ *
+ * @param packageInfo - the app or addon whose addons are wanted.
+ * @param sources - the lists or maps of packages to look for addons in, in
+ * ember-cli's order (e.g., the package itself, devDependencies, dependencies,
+ * in-repo addons).
+ * @param isAddon - indicates if a package is an Ember addon. It's passed in
+ * (rather than this module checking for an EmberAddonPackageInfo) because
+ * EmberAddonPackageInfo itself uses this module.
+ * @returns the addons in the order ember-cli would instantiate them.
+ */
+export function discoverAddons(
+  packageInfo: PackageInfo,
+  sources: Array<PackageInfo[] | Map<string, PackageInfo> | undefined>,
+  isAddon: (pkgInfo: PackageInfo) => pkgInfo is EmberAddonPackageInfo
+): EmberAddonPackageInfo[] {
+  const addonPackageList: PackageInfo[] = [];
+
+  sources.forEach((source) => {
+    if (source) {
+      packageInfo.addPackages(
+        addonPackageList,
+        source,
+        (pkgInfo) => !isAddon(pkgInfo) || !pkgInfo.valid
+      );
+    }
+  });
+
+  // only one addon per name, as ember-cli keys its addon packages by name.
+  const addonPackages = new Map<string, EmberAddonPackageInfo>();
+
+  addonPackageList.forEach((pkgInfo) => {
+    if (pkgInfo.name && !addonPackages.has(pkgInfo.name)) {
+      addonPackages.set(pkgInfo.name, pkgInfo as EmberAddonPackageInfo);
+    }
+  });
+
+  packageInfo.errors.removeErrors([ERRORS.ERROR_EMBER_ADDON_ORDER_CYCLE]);
+
+  return orderAddons(addonPackages, (cycle) =>
+    packageInfo.addError(ERRORS.ERROR_EMBER_ADDON_ORDER_CYCLE, cycle)
+  );
+}
+
+/**
+ * Order addons by their 'ember-addon.before' and 'ember-addon.after' fields, with
+ * the same topological sort as the DAGMap that ember-cli uses: starting with each
+ * addon that nothing must come after (in the original order), output everything
+ * that must come before it, then the addon itself. Names in 'before' and 'after'
+ * that are not among the addons only affect the order of the others.
+ *
+ * @param addonPackages - the addons in their original order, keyed by name.
+ * @param onCycle - called with the names that form a cycle (e.g. ['a', 'b', 'a']
+ * when 'a' must come after 'b' and 'b' after 'a'). The edge that closes the cycle
+ * is ignored.
+ */
+function orderAddons(
+  addonPackages: Map<string, EmberAddonPackageInfo>,
+  onCycle: (cycle: string[]) => void
+): EmberAddonPackageInfo[] {
+  const vertices = new Map<string, AddonVertex>();
+
+  const getVertex = (name: string): AddonVertex => {
+    let vertex = vertices.get(name);
+
+    if (!vertex) {
+      vertex = {
+        name,
+        addon: undefined,
+        predecessors: [],
+        hasSuccessors: false,
+      };
+      vertices.set(name, vertex);
+    }
+
+    return vertex;
+  };
+
+  // add the edge 'from' -> 'to', meaning 'from' must come before 'to'.
+  const addEdge = (from: AddonVertex, to: AddonVertex): void => {
+    const cycle = findCycle(from, to);
+
+    if (cycle) {
+      onCycle(cycle);
+      return;
+    }
+
+    if (!to.predecessors.includes(from)) {
+      to.predecessors.push(from);
+      from.hasSuccessors = true;
+    }
+  };
+
+  addonPackages.forEach((addon, name) => {
+    const vertex = getVertex(name);
+    vertex.addon = addon;
+
+    getNames(addon.getAddonField('before')).forEach((before) =>
+      addEdge(vertex, getVertex(before))
+    );
+    getNames(addon.getAddonField('after')).forEach((after) =>
+      addEdge(getVertex(after), vertex)
+    );
+  });
+
+  const result: EmberAddonPackageInfo[] = [];
+  const visited = new Set<AddonVertex>();
+
+  const visit = (vertex: AddonVertex): void => {
+    if (visited.has(vertex)) {
+      return;
+    }
+
+    visited.add(vertex);
+    vertex.predecessors.forEach(visit);
+
+    if (vertex.addon) {
+      result.push(vertex.addon);
+    }
+  };
+
+  vertices.forEach((vertex) => {
+    if (!vertex.hasSuccessors) {
+      visit(vertex);
+    }
+  });
+
+  return result;
+}
+
+/**
+ * If 'to' already (indirectly) comes before 'from', adding the edge 'from' -> 'to'
+ * would create a cycle. Return the names along it in order, starting and ending
+ * with 'to'.
+ */
+function findCycle(from: AddonVertex, to: AddonVertex): string[] | undefined {
+  const visited = new Set<AddonVertex>();
+
+  // the chain goes backwards, from 'from' through its predecessors.
+  const search = (chain: AddonVertex[]): AddonVertex[] | undefined => {
+    const vertex = chain[chain.length - 1] as AddonVertex;
+
+    if (vertex === to) {
+      return chain;
+    }
+
+    if (visited.has(vertex)) {
+      return undefined;
+    }
+
+    visited.add(vertex);
+
+    for (const predecessor of vertex.predecessors) {
+      const found = search([...chain, predecessor]);
+
+      if (found) {
+        return found;
+      }
+    }
+
+    return undefined;
+  };
+
+  const chain = search([from]);
+
+  return chain
+    ? [...chain.reverse(), to].map((vertex) => vertex.name)
+    : undefined;
+}
+
+function getNames(value: unknown): string[] {
+  if (isString(value)) {
+    return [value];
+  }
+
+  return isStringArray(value) ? value : [];
+}
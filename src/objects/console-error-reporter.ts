@@ -0,0 +1,39 @@
+import { EmberAppPackageInfo } from './ember-app-package-info';
+import {
+  ErrorReport,
+  ErrorReporter,
+  getErrorMessageLines,
+} from './error-reporter';
+
+/**
+ * An ErrorReporter for people, in the format that showErrors() prints: a heading
+ * for each package.json with errors, then a line for each error, followed by any
+ * details of the error.
+ */
+export class ConsoleErrorReporter implements ErrorReporter {
+  format(report: ErrorReport): string {
+    const lines: string[] = [];
+
+    report.entries.forEach(({ entry, errors }) => {
+      const typeName = entry instanceof EmberAppPackageInfo ? 'app' : 'addon';
+
+      lines.push(
+        '',
+        `Errors for the 'package.json' file for the ${typeName} at ${entry.realPath}`
+      );
+
+      errors.forEach((errorEntry) => {
+        const [summary, ...details] = getErrorMessageLines(errorEntry);
+
+        lines.push(
+          errorEntry.severity === 'warning'
+            ? `  warning: ${summary}`
+            : `  ${summary}`,
+          ...details.map((detail) => `    ${detail}`)
+        );
+      });
+    });
+
+    return lines.join('\n');
+  }
+}
@@ -0,0 +1,94 @@
+import semver from 'semver';
+
+import { parseDependencySpecifier } from '../utils';
+import type { PackageInfo } from './package-info';
+
+/**
+ * The data recorded in an ERROR_DEPENDENCIES_OUT_OF_RANGE error for each
+ * dependency whose installed version does not satisfy the requested range.
+ */
+export type DependencyRangeMismatch = {
+  dependencyType: string;
+  name: string;
+  range: string;
+  version: string | undefined;
+};
+
+/*
+ * Small utility class to describe a single resolved dependency of a package:
+ * what was asked for in the package.json, and which package was found.
+ *
+ * @public
+ * @class DependencyEdge
+ */
+export class DependencyEdge {
+  // 'dependencies', 'devDependencies', 'optionalDependencies' or 'peerDependencies'.
+  dependencyType: string;
+
+  // the name of the dependency, as given in the package.json.
+  name: string;
+
+  // the requested range (or other specifier), as given in the package.json.
+  range: string;
+
+  // the package the dependency resolved to.
+  packageInfo: PackageInfo;
+
+  constructor(
+    dependencyType: string,
+    name: string,
+    range: string,
+    packageInfo: PackageInfo
+  ) {
+    this.dependencyType = dependencyType;
+    this.name = name;
+    this.range = range;
+    this.packageInfo = packageInfo;
+  }
+
+  // the version in the package.json, or else the one in the name of its pnpm store entry.
+  get installedVersion(): string | undefined {
+    return (
+      this.packageInfo.packageJson.version ??
+      this.packageInfo.pnpmStoreEntry?.version
+    );
+  }
+
+  /*
+   * Indicate if the installed package satisfies the requested range. For an
+   * 'npm:' alias, the installed package must also have the aliased name.
+   * Returns undefined if it can't be checked (e.g., for 'file:', 'link:' or
+   * git specifiers, dist-tags, or an installed package with no valid version).
+   *
+   * @public
+   */
+  get satisfied(): boolean | undefined {
+    const specifier = parseDependencySpecifier(this.range);
+
+    if (
+      specifier.type === 'alias' &&
+      specifier.name !== this.packageInfo.name
+    ) {
+      return false;
+    }
+
+    const version = this.installedVersion;
+
+    if (!specifier.range || !version || !semver.valid(version)) {
+      return undefined;
+    }
+
+    return semver.satisfies(version, specifier.range, {
+      includePrerelease: true,
+    });
+  }
+
+  toRangeMismatch(): DependencyRangeMismatch {
+    return {
+      dependencyType: this.dependencyType,
+      name: this.name,
+      range: this.range,
+      version: this.installedVersion,
+    };
+  }
+}
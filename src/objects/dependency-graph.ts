@@ -0,0 +1,183 @@
+import type { DependencyEdge } from './dependency-edge';
+import type { PackageInfo } from './package-info';
+
+export type DependencyGraphOptions = {
+  // follow devDependencies edges too (default true). Only the root package
+  // has its devDependencies resolved.
+  includeDev?: boolean;
+};
+
+// A reverse edge: the package that depends on another, and how.
+type DependentEdge = {
+  dependent: PackageInfo;
+  edge: DependencyEdge;
+};
+
+/**
+ * Class that holds the resolved dependency edges between the packages of a
+ * PackageInfoCache, in both directions, to answer questions like "who depends
+ * on this package?" and "why is this package here?". Edges come from each
+ * package's dependencies, optionalDependencies and devDependencies; peers are
+ * not edges, since they are provided by another package. It is only created by
+ * the PackageInfoCache, and must be created again when the cache changes.
+ */
+export class DependencyGraph {
+  #dependencies: Map<PackageInfo, DependencyEdge[]>;
+  #dependents: Map<PackageInfo, DependentEdge[]>;
+
+  constructor(packageInfos: PackageInfo[]) {
+    this.#dependencies = new Map();
+    this.#dependents = new Map();
+
+    packageInfos.forEach((packageInfo) => {
+      const edges = packageInfo
+        .getDependencyEdges()
+        .filter((edge) => edge.dependencyType !== 'peerDependencies');
+
+      this.#dependencies.set(packageInfo, edges);
+
+      edges.forEach((edge) => {
+        let dependents = this.#dependents.get(edge.packageInfo);
+
+        if (!dependents) {
+          dependents = [];
+          this.#dependents.set(edge.packageInfo, dependents);
+        }
+
+        dependents.push({ dependent: packageInfo, edge });
+      });
+    });
+  }
+
+  /**
+   * Get the packages that the given package depends on directly.
+   *
+   * @param packageInfo - the package whose dependencies are wanted.
+   * @param options - whether to include devDependencies.
+   */
+  getDependencies(
+    packageInfo: PackageInfo,
+    options: DependencyGraphOptions = {}
+  ): PackageInfo[] {
+    const includeDev = options.includeDev ?? true;
+
+    return unique(
+      (this.#dependencies.get(packageInfo) ?? [])
+        .filter((edge) => includeDev || !isDevEdge(edge))
+        .map((edge) => edge.packageInfo)
+    );
+  }
+
+  /**
+   * Get the packages that depend directly on the given package.
+   *
+   * @param packageInfo - the package whose dependents are wanted.
+   * @param options - whether to include packages that only have it as a devDependency.
+   */
+  getDependents(
+    packageInfo: PackageInfo,
+    options: DependencyGraphOptions = {}
+  ): PackageInfo[] {
+    const includeDev = options.includeDev ?? true;
+
+    return unique(
+      (this.#dependents.get(packageInfo) ?? [])
+        .filter(({ edge }) => includeDev || !isDevEdge(edge))
+        .map(({ dependent }) => dependent)
+    );
+  }
+
+  /**
+   * Get every package that the given package depends on, directly or indirectly,
+   * nearest first. The package itself is not included, even if there is a cycle.
+   *
+   * @param packageInfo - the package whose dependencies are wanted.
+   * @param options - whether to include devDependencies.
+   */
+  getTransitiveDependencies(
+    packageInfo: PackageInfo,
+    options: DependencyGraphOptions = {}
+  ): PackageInfo[] {
+    const seen = new Set<PackageInfo>([packageInfo]);
+    const result: PackageInfo[] = [];
+    const queue = [packageInfo];
+
+    while (queue.length > 0) {
+      const current = queue.shift() as PackageInfo;
+
+      this.getDependencies(current, options).forEach((dependency) => {
+        if (!seen.has(dependency)) {
+          seen.add(dependency);
+          result.push(dependency);
+          queue.push(dependency);
+        }
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * Find every chain of dependencies from one package to another, e.g. from the
+   * root package to a package that is somehow in the build. Each chain starts
+   * with 'from' and ends with 'target', and never visits a package twice. Note that
+   * in a large tree the number of chains can be very large.
+   *
+   * @param from - the package to start from.
+   * @param target - the package to find.
+   * @param options - whether to include devDependencies.
+   */
+  findPaths(
+    from: PackageInfo,
+    target: PackageInfo,
+    options: DependencyGraphOptions = {}
+  ): PackageInfo[][] {
+    // only search through packages that can actually lead to the target.
+    const leadsToTarget = new Set<PackageInfo>([target]);
+    const queue = [target];
+
+    while (queue.length > 0) {
+      const current = queue.shift() as PackageInfo;
+
+      this.getDependents(current, options).forEach((dependent) => {
+        if (!leadsToTarget.has(dependent)) {
+          leadsToTarget.add(dependent);
+          queue.push(dependent);
+        }
+      });
+    }
+
+    const paths: PackageInfo[][] = [];
+
+    if (!leadsToTarget.has(from)) {
+      return paths;
+    }
+
+    const visit = (chain: PackageInfo[]): void => {
+      const current = chain[chain.length - 1] as PackageInfo;
+
+      if (current === target) {
+        paths.push(chain);
+        return;
+      }
+
+      this.getDependencies(current, options).forEach((dependency) => {
+        if (leadsToTarget.has(dependency) && !chain.includes(dependency)) {
+          visit([...chain, dependency]);
+        }
+      });
+    };
+
+    visit([from]);
+
+    return paths;
+  }
+}
+
+function isDevEdge(edge: DependencyEdge): boolean {
+  return edge.dependencyType === 'devDependencies';
+}
+
+function unique(packageInfos: PackageInfo[]): PackageInfo[] {
+  return [...new Set(packageInfos)];
+}
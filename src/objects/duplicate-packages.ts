@@ -0,0 +1,94 @@
+import type { DependencyGraph } from './dependency-graph';
+import { EmberAddonPackageInfo } from './ember-addon-package-info';
+import { ERRORS } from './errors';
+import type { PackageInfo } from './package-info';
+
+/**
+ * One of the installed copies of a package that is installed more than once.
+ */
+export type DuplicatePackageCopy = {
+  version: string | undefined;
+  realPath: string;
+  packageInfo: PackageInfo;
+
+  // the packages whose dependencies resolve to this copy.
+  dependents: PackageInfo[];
+};
+
+/**
+ * A package name that is installed at more than one real path in the cache.
+ */
+export type DuplicatePackage = {
+  name: string;
+
+  // true if any copy is an Ember addon. Two copies of an addon in the same
+  // build usually conflict at runtime (e.g. over the same module names).
+  isEmberAddon: boolean;
+
+  // one entry per real path, sorted by path.
+  copies: DuplicatePackageCopy[];
+};
+
+/**
+ * Group the given packages by name and report the names that are installed at
+ * more than one real path. Placeholder entries for packages that are missing on
+ * disk are ignored.
+ *
+ * @param packageInfos - the packages in the cache.
+ * @param graph - the dependency graph of the cache, used to find which packages
+ * resolve to each copy.
+ * @returns the duplicates, sorted by name.
+ */
+export function findDuplicatePackages(
+  packageInfos: PackageInfo[],
+  graph: DependencyGraph
+): DuplicatePackage[] {
+  const byName = new Map<string, PackageInfo[]>();
+
+  packageInfos.forEach((packageInfo) => {
+    const name = packageInfo.name;
+
+    if (!name || isMissing(packageInfo)) {
+      return;
+    }
+
+    const copies = byName.get(name);
+
+    if (copies) {
+      copies.push(packageInfo);
+    } else {
+      byName.set(name, [packageInfo]);
+    }
+  });
+
+  const duplicates: DuplicatePackage[] = [];
+
+  byName.forEach((packages, name) => {
+    if (packages.length < 2) {
+      return;
+    }
+
+    duplicates.push({
+      name,
+      isEmberAddon: packages.some(
+        (packageInfo) => packageInfo instanceof EmberAddonPackageInfo
+      ),
+      copies: packages
+        .sort((a, b) => a.realPath.localeCompare(b.realPath))
+        .map((packageInfo) => ({
+          version: packageInfo.packageJson.version,
+          realPath: packageInfo.realPath,
+          packageInfo,
+          dependents: graph.getDependents(packageInfo),
+        })),
+    });
+  });
+
+  return duplicates.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+function isMissing(packageInfo: PackageInfo): boolean {
+  return packageInfo.errors
+    .getErrors()
+    .some((error) => error.type === ERRORS.ERROR_PACKAGE_DIR_MISSING);
+}
@@ -1,12 +1,15 @@
 import path from 'node:path';
-import { getRealFilePath } from 'resolve-package-path';
 
 import type { EmberAddonPackageJson } from '../types/ember-addon-package-json';
-import { getObjectProperty } from '../utils';
+import { getObjectProperty, isStringRecord } from '../utils';
+import { discoverAddons } from './addon-discovery';
 import { EmberPackageInfo } from './ember-package-info';
 import { ERRORS } from './errors';
 import { PackageInfoCache } from './package-info-cache';
 
+// the fields of a v2 addon's 'ember-addon' field that map strings to strings.
+const V2_ADDON_MAPS = ['app-js', 'public-assets', 'renamed-modules'];
+
 /**
  * Class that stores information about a single EmberAppPackageJson within the PackageInfoCache.
  * This corresponds in voyager-web to 'voyager-web/packages/voyager-web'.
@@ -29,6 +32,17 @@ export class EmberAddonPackageInfo extends EmberPackageInfo {
   ) {
     super(packageJson, realPath, cache, isRoot);
 
+    const version = this.getAddonField('version');
+
+    if (version !== undefined && version !== 1 && version !== 2) {
+      this.#addMetadataError('version');
+    }
+
+    if (this.addonVersion === 2) {
+      this.#checkV2Addon();
+      return;
+    }
+
     // Check that the main exists and points to a valid file.
     // Note: when we have both 'main' and ember-addon:main, the latter takes precedence
     const emberAddonMain = getObjectProperty(packageJson, 'ember-addon.main');
@@ -48,15 +62,41 @@ export class EmberAddonPackageInfo extends EmberPackageInfo {
     // console.info('Addon entry point is %o', mainFile);
     packageJson.main = mainFile;
 
-    const mainPath = path.join(realPath, mainFile);
-    const mainRealPath = getRealFilePath(mainPath);
+    this.#checkMain(mainFile);
+  }
 
-    if (mainRealPath) {
-      this.addonMainPath = mainRealPath;
-    } else {
-      this.addError(ERRORS.ERROR_EMBER_ADDON_MAIN_MISSING, mainPath);
-      this.valid = false;
-    }
+  /**
+   * The format of the addon: 2 for a v2 (Embroider) addon, whose 'ember-addon'
+   * field has 'version: 2', otherwise 1.
+   */
+  get addonVersion(): 1 | 2 {
+    return this.getAddonField('version') === 2 ? 2 : 1;
+  }
+
+  /**
+   * A v2 addon's 'ember-addon.app-js' field, which maps the paths of modules to
+   * merge into the app's tree to the files in the package that provide them, or
+   * undefined if there is none (or it is invalid).
+   */
+  get appJs(): Record<string, string> | undefined {
+    return this.#getV2AddonMap('app-js');
+  }
+
+  /**
+   * A v2 addon's 'ember-addon.public-assets' field, which maps the files in the
+   * package to the public URLs the app serves them at, or undefined.
+   */
+  get publicAssets(): Record<string, string> | undefined {
+    return this.#getV2AddonMap('public-assets');
+  }
+
+  /**
+   * A v2 addon's 'ember-addon.renamed-modules' field, which maps the module names
+   * the addon provides to the modules in the package they are renamed from, or
+   * undefined.
+   */
+  get renamedModules(): Record<string, string> | undefined {
+    return this.#getV2AddonMap('renamed-modules');
   }
 
   // This will be overridden by subclasses
@@ -78,6 +118,100 @@ export class EmberAddonPackageInfo extends EmberPackageInfo {
     this.inRepoAddons.push(inRepoAddonPkg);
   }
 
+  /**
+   * Find the Ember addons used by the addon, in the order ember-cli would
+   * instantiate them: the addon itself if it is the root package (for its dummy
+   * app), then the addons among its devDependencies, its dependencies and its
+   * in-repo addons, ordered by each addon's 'ember-addon.before' and
+   * 'ember-addon.after' fields. A cycle in those fields is recorded as an
+   * ERROR_EMBER_ADDON_ORDER_CYCLE error on the addon.
+   *
+   * Note: this is not to be called until the dependencies have been resolved.
+   */
+  discoverAddons(): EmberAddonPackageInfo[] {
+    return discoverAddons(
+      this,
+      [
+        this.isRoot ? [this] : undefined,
+        this.devDependenciesPackages,
+        this.dependenciesPackages,
+        this.inRepoAddons,
+      ],
+      (pkgInfo): pkgInfo is EmberAddonPackageInfo =>
+        pkgInfo instanceof EmberAddonPackageInfo
+    );
+  }
+
+  /**
+   * Check that the addon's main file exists, and set the addonMainPath.
+   *
+   * @param mainFile - the path of the file, relative to the package's directory.
+   */
+  #checkMain(mainFile: string): void {
+    const mainPath = path.join(this.realPath, mainFile);
+    const mainRealPath = this.cache.getRealFilePath(mainPath);
+
+    if (mainRealPath) {
+      this.addonMainPath = mainRealPath;
+    } else {
+      this.addError(ERRORS.ERROR_EMBER_ADDON_MAIN_MISSING, mainPath);
+      this.valid = false;
+    }
+  }
+
+  /**
+   * Check the 'ember-addon' field of a v2 addon. The package's own 'main' and
+   * 'exports' are what the app imports, so there is no index.js to check, but any
+   * 'ember-addon.main' (the build-time entry point, e.g. 'addon-main.cjs') and the
+   * files listed in 'app-js' and 'public-assets' must exist.
+   */
+  #checkV2Addon(): void {
+    const main = this.getAddonField('main');
+
+    if (main !== undefined) {
+      if (typeof main === 'string') {
+        this.#checkMain(main);
+      } else {
+        this.#addMetadataError('main');
+      }
+    }
+
+    V2_ADDON_MAPS.forEach((field) => {
+      const value = this.getAddonField(field);
+
+      if (value !== undefined && !isStringRecord(value)) {
+        this.#addMetadataError(field);
+      }
+    });
+
+    const missingFiles = [
+      ...Object.values(this.appJs ?? {}),
+      ...Object.keys(this.publicAssets ?? {}),
+    ].filter(
+      (filePath) =>
+        !this.cache.getRealFilePath(path.join(this.realPath, filePath))
+    );
+
+    if (missingFiles.length > 0) {
+      this.addError(ERRORS.ERROR_EMBER_ADDON_FILES_MISSING, missingFiles);
+      this.valid = false;
+    }
+  }
+
+  #addMetadataError(field: string): void {
+    this.addError(
+      ERRORS.ERROR_EMBER_ADDON_METADATA_INVALID,
+      field,
+      this.locatePackageJsonKeys(['ember-addon'], [field])
+    );
+    this.valid = false;
+  }
+
+  #getV2AddonMap(field: string): Record<string, string> | undefined {
+    const value = this.getAddonField(field);
+    return this.addonVersion === 2 && isStringRecord(value) ? value : undefined;
+  }
+
   // We MAY want to override the definition of addPackages here to limit
   // it to EmberAddonPackageInfo or EmberEnginePackageInfo or regular
   // PackageInfo. If we use this with 'regular' dependencies because they
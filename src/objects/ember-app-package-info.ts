@@ -1,5 +1,6 @@
 import type { EmberAppPackageJson } from '../types/ember-app-package-json';
 import { getObjectProperty } from '../utils';
+import { discoverAddons } from './addon-discovery';
 import { EmberAddonPackageInfo } from './ember-addon-package-info';
 import { EmberPackageInfo } from './ember-package-info';
 import { PackageInfoCache } from './package-info-cache';
@@ -45,6 +46,28 @@ export class EmberAppPackageInfo extends EmberPackageInfo {
     this.inRepoAddons.push(inRepoAddonPkg);
   }
 
+  /**
+   * Find the Ember addons used by the app, in the order ember-cli would
+   * instantiate them: the addons among its devDependencies, then its
+   * dependencies, then its in-repo addons, ordered by each addon's
+   * 'ember-addon.before' and 'ember-addon.after' fields. A cycle in those fields
+   * is recorded as an ERROR_EMBER_ADDON_ORDER_CYCLE error on the app.
+   *
+   * Note: this is not to be called until the dependencies have been resolved.
+   */
+  discoverAddons(): EmberAddonPackageInfo[] {
+    return discoverAddons(
+      this,
+      [
+        this.devDependenciesPackages,
+        this.dependenciesPackages,
+        this.inRepoAddons,
+      ],
+      (pkgInfo): pkgInfo is EmberAddonPackageInfo =>
+        pkgInfo instanceof EmberAddonPackageInfo
+    );
+  }
+
   // We MAY want to override the definition of addPackages here to limit
   // it to EmberAddonPackageInfo or EmberEnginePackageInfo or regular
   // PackageInfo. If we use this with 'regular' dependencies because they
@@ -1,7 +1,14 @@
 import type { EmberEnginePackageJson } from '../types/ember-engine-package-json';
+import { getObjectProperty } from '../utils';
 import { EmberAddonPackageInfo } from './ember-addon-package-info';
 import { PackageInfoCache } from './package-info-cache';
 
+// 'lazyLoading: true' or 'lazyLoading: { enabled: true }' in the engine's index.js.
+const LAZY_LOADING_PATTERNS = [
+  /\blazyLoading\s*:\s*(true|false)\b/,
+  /\blazyLoading\s*:\s*\{[^}]*?\benabled\s*:\s*(true|false)\b/,
+];
+
 /**
  * Class that stores information about a single EmberAppPackageJson within the PackageInfoCache.
  * This corresponds in voyager-web to 'voyager-web/packages/voyager-web'.
@@ -9,6 +16,9 @@ import { PackageInfoCache } from './package-info-cache';
 export class EmberEnginePackageInfo extends EmberAddonPackageInfo {
   // other fields that will be set as needed. For JIT we'll define them here.
 
+  // the lazyLoading setting, once it has been looked up (null if it can't be determined).
+  #lazyLoading: boolean | null | undefined;
+
   constructor(
     packageJson: EmberEnginePackageJson,
     realPath: string,
@@ -16,10 +26,60 @@ export class EmberEnginePackageInfo extends EmberAddonPackageInfo {
     isRoot = false
   ) {
     super(packageJson, realPath, cache, isRoot);
+
+    this.#lazyLoading = undefined;
   }
 
   // This will be overridden by subclasses
   typeName(): string {
     return 'ember-engine';
   }
+
+  /**
+   * Indicate if the engine is lazy-loaded, as far as can be determined without
+   * running its code: a literal 'lazyLoading: true/false' or 'lazyLoading: { enabled:
+   * true/false }' in its main file (index.js), or else an 'ember-addon.lazyLoading'
+   * field (in either form) in its package.json. Returns undefined if neither is
+   * found, e.g. when the setting is computed at build time.
+   */
+  get lazyLoading(): boolean | undefined {
+    if (this.#lazyLoading === undefined) {
+      this.#lazyLoading =
+        this.#getMainFileLazyLoading() ?? this.#getConfigLazyLoading() ?? null;
+    }
+
+    return this.#lazyLoading ?? undefined;
+  }
+
+  #getMainFileLazyLoading(): boolean | undefined {
+    if (!this.addonMainPath) {
+      return undefined;
+    }
+
+    const source = this.cache.readFile(this.addonMainPath);
+
+    if (source === undefined) {
+      return undefined;
+    }
+
+    for (const pattern of LAZY_LOADING_PATTERNS) {
+      const match = pattern.exec(source);
+
+      if (match) {
+        return match[1] === 'true';
+      }
+    }
+
+    return undefined;
+  }
+
+  #getConfigLazyLoading(): boolean | undefined {
+    const lazyLoading = this.getAddonField('lazyLoading');
+    const enabled =
+      typeof lazyLoading === 'object'
+        ? getObjectProperty(lazyLoading, 'enabled')
+        : lazyLoading;
+
+    return typeof enabled === 'boolean' ? enabled : undefined;
+  }
 }
@@ -0,0 +1,95 @@
+import { EmberAddonPackageInfo } from './ember-addon-package-info';
+import { EmberAppPackageInfo } from './ember-app-package-info';
+import { EmberEnginePackageInfo } from './ember-engine-package-info';
+import type { PackageInfo } from './package-info';
+
+/**
+ * A host (an app, an addon or an engine) and the engines it mounts.
+ */
+export type EmberEngineTree = {
+  packageInfo: PackageInfo;
+
+  // whether the engine is lazy-loaded (see EmberEnginePackageInfo.lazyLoading).
+  // Always undefined for the top-level host.
+  lazyLoading: boolean | undefined;
+
+  // the addons that belong to this host, other than engines, in ember-cli order.
+  // An engine's addons are its own, separate from those of its host.
+  addons: EmberAddonPackageInfo[];
+
+  // the engines of this host, including any that are only reached through its
+  // (non-engine) addons.
+  engines: EmberEngineTree[];
+};
+
+/**
+ * Build the tree of engines under a host, as ember-cli would find them: each
+ * engine owns the addons it discovers, and any engines among them (or among
+ * their addons) are its nested engines. An engine is only listed once along any
+ * one branch, so a cycle of dependencies between engines ends the branch.
+ *
+ * @param host - the app or addon at the top of the tree.
+ */
+export function buildEngineTree(host: PackageInfo): EmberEngineTree {
+  return buildNode(host, undefined, new Set([host]));
+}
+
+function buildNode(
+  packageInfo: PackageInfo,
+  lazyLoading: boolean | undefined,
+  ancestors: Set<PackageInfo>
+): EmberEngineTree {
+  const addons: EmberAddonPackageInfo[] = [];
+  const engines: EmberEnginePackageInfo[] = [];
+
+  collectAddons(packageInfo, addons, engines, new Set(ancestors));
+
+  return {
+    packageInfo,
+    lazyLoading,
+    addons,
+    engines: engines.map((engine) =>
+      buildNode(engine, engine.lazyLoading, new Set([...ancestors, engine]))
+    ),
+  };
+}
+
+/**
+ * Split the addons of a host into engines and other addons, looking through the
+ * other addons for the engines they bring in.
+ */
+function collectAddons(
+  packageInfo: PackageInfo,
+  addons: EmberAddonPackageInfo[],
+  engines: EmberEnginePackageInfo[],
+  seen: Set<PackageInfo>
+): void {
+  getAddons(packageInfo).forEach((addon) => {
+    if (seen.has(addon)) {
+      return;
+    }
+
+    seen.add(addon);
+
+    if (addon instanceof EmberEnginePackageInfo) {
+      engines.push(addon);
+    } else {
+      addons.push(addon);
+      collectAddons(addon, addons, engines, seen);
+    }
+  });
+}
+
+function getAddons(packageInfo: PackageInfo): EmberAddonPackageInfo[] {
+  if (
+    packageInfo instanceof EmberAppPackageInfo ||
+    packageInfo instanceof EmberAddonPackageInfo
+  ) {
+    // an addon at the root of the cache discovers itself, for its dummy app.
+    return packageInfo
+      .discoverAddons()
+      .filter((addon) => addon !== packageInfo);
+  }
+
+  return [];
+}
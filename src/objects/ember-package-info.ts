@@ -9,9 +9,6 @@ import { PackageInfoCache } from './package-info-cache';
 export class EmberPackageInfo extends PackageInfo {
   // other fields that will be set as needed. For JIT we'll define them here.
 
-  // note that we're not defining peerDependencyPackages, because they're supposed to be provided
-  // by another object. Same for 'optionalDependencies'.
-
   constructor(
     packageJson: EmberPackageJson,
     realPath: string,
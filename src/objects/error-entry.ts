@@ -1,3 +1,11 @@
+import type { SourceLocation } from '../utils';
+import {
+  ERROR_SEVERITIES,
+  ErrorData,
+  ErrorSeverity,
+  ErrorType,
+} from './errors';
+
 /*
  * Small utility class to contain data about a single error found
  * during loading of a package into the PackageInfoCache.
@@ -5,12 +13,31 @@
  * @protected
  * @class ErrorEntry
  */
-export class ErrorEntry {
-  type: string;
-  data: unknown;
+export class ErrorEntry<T extends ErrorType = ErrorType> {
+  type: T;
+  data: ErrorData[T];
+  severity: ErrorSeverity;
+
+  // the realPath of the cache entry (PackageInfo or NodeModulesList) that has the error.
+  entryPath: string;
 
-  constructor(type: string, data: unknown) {
+  // where the error is in the package.json, if known: the position of a parse
+  // error, or the key of each dependency named in the data, in the same order.
+  locations: SourceLocation[];
+
+  constructor(
+    type: T,
+    data: ErrorData[T],
+    entryPath: string,
+    locations: SourceLocation[] = []
+  ) {
     this.type = type;
     this.data = data;
+    this.severity = ERROR_SEVERITIES[type];
+    this.entryPath = entryPath;
+    this.locations = locations;
   }
 }
+
+// An ErrorEntry of any type. Checking its 'type' narrows it to the data of that type.
+export type AnyErrorEntry = { [T in ErrorType]: ErrorEntry<T> }[ErrorType];
@@ -1,4 +1,6 @@
-import { ErrorEntry } from './error-entry';
+import type { SourceLocation } from '../utils';
+import { AnyErrorEntry, ErrorEntry } from './error-entry';
+import { ErrorData, ErrorType } from './errors';
 
 /*
  * Small utility class to store a list of errors during loading of
@@ -8,31 +10,81 @@ import { ErrorEntry } from './error-entry';
  * @class ErrorList
  */
 export class ErrorList {
-  errors: ErrorEntry[];
+  errors: AnyErrorEntry[];
 
-  constructor() {
+  // the realPath of the cache entry that the errors belong to ('' for a list
+  // created without one, as before entry paths were recorded).
+  entryPath: string;
+
+  constructor(entryPath = '') {
     this.errors = [];
+    this.entryPath = entryPath;
   }
 
   /*
-   * Add an error. The errorData object is optional, and can be anything.
-   * We do this so we don't really need to create a series of error
-   * classes.
+   * Add an error, with the data for its type (see ErrorData). We do this
+   * so we don't really need to create a series of error classes.
    *
    * @public
    * @param {String} errorType one of the Errors.ERROR_* constants.
-   * @param {Object} errorData any error data relevant to the type of error
+   * @param {Object} errorData the error data for the type of error
    * being created. See showErrors().
+   * @param {SourceLocation[]} locations where the error is in the package.json, if known.
    */
-  addError(errorType: string, errorData: unknown): void {
-    this.errors.push(new ErrorEntry(errorType, errorData));
+  addError<T extends ErrorType>(
+    errorType: T,
+    errorData: ErrorData[T],
+    locations?: SourceLocation[]
+  ): void {
+    this.errors.push(
+      new ErrorEntry(
+        errorType,
+        errorData,
+        this.entryPath,
+        locations
+      ) as AnyErrorEntry
+    );
   }
 
-  getErrors(): ErrorEntry[] {
+  /*
+   * Remove all the errors of the given types.
+   *
+   * @public
+   * @param {String[]} errorTypes the Errors.ERROR_* constants to remove.
+   */
+  removeErrors(errorTypes: ErrorType[]): void {
+    this.errors = this.errors.filter(
+      (errorEntry) => !errorTypes.includes(errorEntry.type)
+    );
+  }
+
+  /*
+   * Get the entries of every severity, errors and warnings.
+   *
+   * @public
+   */
+  getErrors(): AnyErrorEntry[] {
     return this.errors;
   }
 
+  /*
+   * Get the entries whose severity is 'warning'.
+   *
+   * @public
+   */
+  getWarnings(): AnyErrorEntry[] {
+    return this.errors.filter(
+      (errorEntry) => errorEntry.severity === 'warning'
+    );
+  }
+
+  /*
+   * Indicate if there are any entries whose severity is 'error'. Warnings alone
+   * don't count.
+   *
+   * @public
+   */
   hasErrors(): boolean {
-    return this.errors.length > 0;
+    return this.errors.some((errorEntry) => errorEntry.severity === 'error');
   }
 }
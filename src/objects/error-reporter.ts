@@ -0,0 +1,244 @@
+import path from 'node:path';
+
+import type { AnyErrorEntry } from './error-entry';
+import { ERRORS, ErrorSeverity, ErrorType } from './errors';
+import { NodeModulesList } from './node-modules-list';
+import type { PackageInfoCacheEntry } from './package-info-cache';
+
+// A cache entry with the errors to report for it.
+export type ErrorReportEntry = {
+  entry: PackageInfoCacheEntry;
+
+  // the entry's errors that are not suppressed, never empty.
+  errors: AnyErrorEntry[];
+};
+
+export type ErrorReport = {
+  // the directory that reporters make paths relative to (the project's root
+  // directory, if known).
+  rootDir: string;
+
+  entries: ErrorReportEntry[];
+};
+
+export type ErrorReportOptions = {
+  // the types of errors to leave out of the report (default DEFAULT_SUPPRESSED_ERRORS).
+  suppress?: ErrorType[];
+
+  // the least severe errors to report: 'error' (the default) leaves out the
+  // warnings, and 'warning' reports them too.
+  severity?: ErrorSeverity;
+};
+
+// The errors left out of a report by default. A package whose directory is missing
+// is also reported as a missing dependency by the packages that depend on it, and
+// having both is just confusing to users.
+export const DEFAULT_SUPPRESSED_ERRORS: ErrorType[] = [
+  ERRORS.ERROR_PACKAGE_DIR_MISSING,
+];
+
+/**
+ * The interface for the formats that PackageInfoCache.reportErrors() can report
+ * errors in, e.g. ConsoleErrorReporter for people, and JsonErrorReporter,
+ * SarifErrorReporter and JUnitErrorReporter for other tools.
+ */
+export interface ErrorReporter {
+  /**
+   * Format a report of the errors in a cache.
+   *
+   * @param report - the entries with errors, in cache order.
+   * @returns the formatted report.
+   */
+  format(report: ErrorReport): string;
+}
+
+/**
+ * Get a name for a cache entry in a report: the package's name, or the path of a
+ * node_modules directory (or of a package without a name).
+ */
+export function getEntryName(entry: PackageInfoCacheEntry): string {
+  return entry instanceof NodeModulesList
+    ? entry.realPath
+    : entry.name ?? entry.realPath;
+}
+
+/**
+ * Describe an error in English, as it has always been shown by showErrors(). The
+ * first line is a summary that follows "the package.json file" (e.g. 'does not
+ * exist'), and any other lines are the details, e.g. the names of the missing
+ * dependencies.
+ */
+export function getErrorMessageLines(errorEntry: AnyErrorEntry): string[] {
+  const rootPath = errorEntry.entryPath;
+
+  const listOf = (
+    single: string,
+    some: string,
+    dependencyNames: string[]
+  ): string[] =>
+    dependencyNames.length === 1
+      ? [`${single} '${dependencyNames[0]}'`]
+      : [
+          `${some}:`,
+          ...dependencyNames.map((dependencyName) => `'${dependencyName}'`),
+        ];
+
+  switch (errorEntry.type) {
+    case ERRORS.ERROR_PACKAGE_DIR_MISSING:
+      return [`is in a directory that does not exist`];
+
+    case ERRORS.ERROR_PACKAGE_JSON_MISSING:
+      return [`does not exist`];
+
+    case ERRORS.ERROR_PACKAGE_JSON_PARSE: {
+      const [location] = errorEntry.locations;
+
+      return [
+        location
+          ? `could not be parsed (at line ${location.line}, column ${location.column})`
+          : `could not be parsed`,
+      ];
+    }
+
+    case ERRORS.ERROR_PACKAGE_JSON_RULE:
+      return [`${errorEntry.data.message} (${errorEntry.data.rule})`];
+
+    case ERRORS.ERROR_EMBER_ADDON_MAIN_MISSING:
+      return [
+        `specifies a missing ember-addon 'main' file at relative path '${path.relative(
+          rootPath,
+          errorEntry.data
+        )}'`,
+      ];
+
+    case ERRORS.ERROR_EMBER_ADDON_PATH_NOT_ADDON:
+      return [
+        `has an 'ember-addon.paths' entry '${errorEntry.data}' that is not an addon`,
+      ];
+
+    case ERRORS.ERROR_EMBER_ADDON_ORDER_CYCLE:
+      return [
+        `has addons whose 'ember-addon' before/after fields form a cycle: ${errorEntry.data.join(
+          ' -> '
+        )}`,
+      ];
+
+    case ERRORS.ERROR_EMBER_ADDON_METADATA_INVALID:
+      return [
+        errorEntry.data === 'version'
+          ? `has an 'ember-addon.version' field that is not 1 or 2`
+          : `has an 'ember-addon.${errorEntry.data}' field that is not an object of strings`,
+      ];
+
+    case ERRORS.ERROR_EMBER_ADDON_FILES_MISSING:
+      return listOf(
+        'specifies a missing v2 addon file',
+        'specifies some missing v2 addon files',
+        errorEntry.data
+      );
+
+    case ERRORS.ERROR_DEPENDENCIES_MISSING:
+      return listOf(
+        'specifies a dependency that was not loaded',
+        'specifies some dependencies that were not loaded',
+        errorEntry.data
+      );
+
+    case ERRORS.ERROR_DEVDEPENDENCIES_MISSING:
+      return listOf(
+        'specifies a devDependency that was not loaded',
+        'specifies some devDependencies that were not loaded',
+        errorEntry.data
+      );
+
+    case ERRORS.ERROR_DEPENDENCIES_OUT_OF_RANGE:
+      return [
+        `specifies some dependencies whose installed version is out of range:`,
+        ...errorEntry.data.map(
+          (mismatch) =>
+            `'${mismatch.name}' in ${mismatch.dependencyType} (wants '${mismatch.range}', found '${mismatch.version}')`
+        ),
+      ];
+
+    case ERRORS.ERROR_PEERDEPENDENCIES_MISSING:
+      return listOf(
+        'specifies a peerDependency that was not found',
+        'specifies some peerDependencies that were not found',
+        errorEntry.data
+      );
+
+    case ERRORS.ERROR_PEERDEPENDENCIES_MISMATCH:
+      return [
+        `specifies some peerDependencies whose installed version does not match:`,
+        ...errorEntry.data.map(
+          (mismatch) =>
+            `'${mismatch.name}' (wants '${mismatch.range}', found '${mismatch.version}')`
+        ),
+      ];
+
+    case ERRORS.ERROR_NODEMODULES_ENTRY_MISSING:
+      return [
+        `specifies a missing 'node_modules/${errorEntry.data}' directory`,
+      ];
+
+    case ERRORS.ERROR_EXPORTS_TARGET_INVALID:
+      return [
+        `has some 'exports' or 'imports' targets that are not valid:`,
+        ...errorEntry.data.map(
+          (broken) =>
+            `'${broken.target}' for '${broken.key}' in ${broken.field}`
+        ),
+      ];
+
+    case ERRORS.ERROR_EXPORTS_TARGET_MISSING:
+      return [
+        `has some 'exports' or 'imports' targets that do not exist:`,
+        ...errorEntry.data.map(
+          (broken) =>
+            `'${broken.target}' for '${broken.key}' in ${broken.field}`
+        ),
+      ];
+
+    case ERRORS.ERROR_LOCKFILE_PARSE:
+      return [
+        `has a lockfile that could not be parsed at '${errorEntry.data}'`,
+      ];
+
+    case ERRORS.ERROR_LOCKFILE_PACKAGES_MISSING:
+      return [
+        `has some locked packages that are not installed:`,
+        ...errorEntry.data.map(
+          (missing) =>
+            `'${missing.name}@${missing.version}'${
+              missing.path ? ` at '${missing.path}'` : ''
+            }`
+        ),
+      ];
+
+    case ERRORS.ERROR_LOCKFILE_VERSIONS_MISMATCH:
+      return [
+        `has some installed packages whose version is not the locked one:`,
+        ...errorEntry.data.map(
+          (mismatch) =>
+            `'${mismatch.name}' at '${path.relative(
+              rootPath,
+              mismatch.path
+            )}' (locked '${mismatch.lockedVersions.join("', '")}', found '${
+              mismatch.version
+            }')`
+        ),
+      ];
+
+    case ERRORS.ERROR_LOCKFILE_PACKAGES_EXTRANEOUS:
+      return [
+        `has some installed packages that are not locked:`,
+        ...errorEntry.data.map(
+          (extraneous) =>
+            `'${extraneous.name}@${extraneous.version}' at '${path.relative(
+              rootPath,
+              extraneous.path
+            )}'`
+        ),
+      ];
+  }
+}
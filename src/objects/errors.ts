@@ -1,9 +1,145 @@
+import type { DependencyRangeMismatch } from './dependency-edge';
+import type {
+  LockfileExtraneousPackage,
+  LockfileMissingPackage,
+  LockfileVersionMismatch,
+} from './lockfile-verification';
+import type { BrokenPackageTarget } from './package-exports';
+import type { PackageJsonFinding } from './package-json-rules';
+import type { PeerDependencyMismatch } from './package-info';
+
 export const ERRORS = {
   ERROR_PACKAGE_DIR_MISSING: 'packageDirectoryMissing',
   ERROR_PACKAGE_JSON_MISSING: 'packageJsonMissing',
   ERROR_PACKAGE_JSON_PARSE: 'packageJsonParse',
+  ERROR_PACKAGE_JSON_RULE: 'packageJsonRule',
   ERROR_EMBER_ADDON_MAIN_MISSING: 'emberAddonMainMissing',
+  ERROR_EMBER_ADDON_PATH_NOT_ADDON: 'emberAddonPathNotAddon',
+  ERROR_EMBER_ADDON_ORDER_CYCLE: 'emberAddonOrderCycle',
+  ERROR_EMBER_ADDON_METADATA_INVALID: 'emberAddonMetadataInvalid',
+  ERROR_EMBER_ADDON_FILES_MISSING: 'emberAddonFilesMissing',
   ERROR_DEPENDENCIES_MISSING: 'dependenciesMissing',
   ERROR_DEVDEPENDENCIES_MISSING: 'devDependenciesMissing',
+  ERROR_DEPENDENCIES_OUT_OF_RANGE: 'dependenciesOutOfRange',
+  ERROR_PEERDEPENDENCIES_MISSING: 'peerDependenciesMissing',
+  ERROR_PEERDEPENDENCIES_MISMATCH: 'peerDependenciesMismatch',
   ERROR_NODEMODULES_ENTRY_MISSING: 'modulesEntryMissing',
+  ERROR_EXPORTS_TARGET_INVALID: 'exportsTargetInvalid',
+  ERROR_EXPORTS_TARGET_MISSING: 'exportsTargetMissing',
+  ERROR_LOCKFILE_PARSE: 'lockfileParse',
+  ERROR_LOCKFILE_PACKAGES_MISSING: 'lockfilePackagesMissing',
+  ERROR_LOCKFILE_VERSIONS_MISMATCH: 'lockfileVersionsMismatch',
+  ERROR_LOCKFILE_PACKAGES_EXTRANEOUS: 'lockfilePackagesExtraneous',
+} as const;
+
+// One of the ERRORS.ERROR_* values.
+export type ErrorType = (typeof ERRORS)[keyof typeof ERRORS];
+
+/**
+ * The data recorded with each type of error. Paths are absolute unless noted.
+ */
+export type ErrorData = {
+  // the path of the package directory that does not exist.
+  [ERRORS.ERROR_PACKAGE_DIR_MISSING]: string;
+
+  // the path of the package.json file.
+  [ERRORS.ERROR_PACKAGE_JSON_MISSING]: string;
+  [ERRORS.ERROR_PACKAGE_JSON_PARSE]: string;
+
+  // a problem found by one of the cache's packageJsonRules.
+  [ERRORS.ERROR_PACKAGE_JSON_RULE]: PackageJsonFinding;
+
+  // the path of the addon's main file.
+  [ERRORS.ERROR_EMBER_ADDON_MAIN_MISSING]: string;
+
+  // the 'ember-addon.paths' entry, relative to the package's directory.
+  [ERRORS.ERROR_EMBER_ADDON_PATH_NOT_ADDON]: string;
+
+  // the names of the addons in the cycle, e.g. ['a', 'b', 'a'].
+  [ERRORS.ERROR_EMBER_ADDON_ORDER_CYCLE]: string[];
+
+  // the name of the invalid 'ember-addon' field of a v2 addon, e.g. 'app-js'.
+  [ERRORS.ERROR_EMBER_ADDON_METADATA_INVALID]: string;
+
+  // the paths of the missing files listed in a v2 addon's 'ember-addon.app-js'
+  // and 'ember-addon.public-assets' fields, as given (relative to the package's
+  // directory).
+  [ERRORS.ERROR_EMBER_ADDON_FILES_MISSING]: string[];
+
+  // the names of the dependencies.
+  [ERRORS.ERROR_DEPENDENCIES_MISSING]: string[];
+  [ERRORS.ERROR_DEVDEPENDENCIES_MISSING]: string[];
+  [ERRORS.ERROR_PEERDEPENDENCIES_MISSING]: string[];
+
+  [ERRORS.ERROR_DEPENDENCIES_OUT_OF_RANGE]: DependencyRangeMismatch[];
+  [ERRORS.ERROR_PEERDEPENDENCIES_MISMATCH]: PeerDependencyMismatch[];
+
+  // the name of the entry in the node_modules directory.
+  [ERRORS.ERROR_NODEMODULES_ENTRY_MISSING]: string;
+
+  [ERRORS.ERROR_EXPORTS_TARGET_INVALID]: BrokenPackageTarget[];
+  [ERRORS.ERROR_EXPORTS_TARGET_MISSING]: BrokenPackageTarget[];
+
+  // the path of the lockfile.
+  [ERRORS.ERROR_LOCKFILE_PARSE]: string;
+
+  [ERRORS.ERROR_LOCKFILE_PACKAGES_MISSING]: LockfileMissingPackage[];
+  [ERRORS.ERROR_LOCKFILE_VERSIONS_MISMATCH]: LockfileVersionMismatch[];
+  [ERRORS.ERROR_LOCKFILE_PACKAGES_EXTRANEOUS]: LockfileExtraneousPackage[];
 };
+
+export type ErrorSeverity = 'error' | 'warning';
+
+// The severity of each type of error.
+export const ERROR_SEVERITIES: Record<ErrorType, ErrorSeverity> = {
+  [ERRORS.ERROR_PACKAGE_DIR_MISSING]: 'error',
+  [ERRORS.ERROR_PACKAGE_JSON_MISSING]: 'error',
+  [ERRORS.ERROR_PACKAGE_JSON_PARSE]: 'error',
+  [ERRORS.ERROR_PACKAGE_JSON_RULE]: 'warning',
+  [ERRORS.ERROR_EMBER_ADDON_MAIN_MISSING]: 'error',
+  [ERRORS.ERROR_EMBER_ADDON_PATH_NOT_ADDON]: 'error',
+  [ERRORS.ERROR_EMBER_ADDON_ORDER_CYCLE]: 'error',
+  [ERRORS.ERROR_EMBER_ADDON_METADATA_INVALID]: 'error',
+  [ERRORS.ERROR_EMBER_ADDON_FILES_MISSING]: 'error',
+  [ERRORS.ERROR_DEPENDENCIES_MISSING]: 'error',
+  [ERRORS.ERROR_DEVDEPENDENCIES_MISSING]: 'error',
+  [ERRORS.ERROR_DEPENDENCIES_OUT_OF_RANGE]: 'error',
+  [ERRORS.ERROR_PEERDEPENDENCIES_MISSING]: 'error',
+  [ERRORS.ERROR_PEERDEPENDENCIES_MISMATCH]: 'error',
+  [ERRORS.ERROR_NODEMODULES_ENTRY_MISSING]: 'error',
+  [ERRORS.ERROR_EXPORTS_TARGET_INVALID]: 'error',
+  [ERRORS.ERROR_EXPORTS_TARGET_MISSING]: 'error',
+  [ERRORS.ERROR_LOCKFILE_PARSE]: 'error',
+  [ERRORS.ERROR_LOCKFILE_PACKAGES_MISSING]: 'error',
+  [ERRORS.ERROR_LOCKFILE_VERSIONS_MISMATCH]: 'error',
+  [ERRORS.ERROR_LOCKFILE_PACKAGES_EXTRANEOUS]: 'error',
+};
+
+// The errors that are found while resolving a package's dependencies (as opposed
+// to reading the package itself). These are cleared when the dependencies are
+// resolved again.
+export const DEPENDENCY_ERRORS: ErrorType[] = [
+  ERRORS.ERROR_DEPENDENCIES_MISSING,
+  ERRORS.ERROR_DEVDEPENDENCIES_MISSING,
+  ERRORS.ERROR_DEPENDENCIES_OUT_OF_RANGE,
+  ERRORS.ERROR_PEERDEPENDENCIES_MISSING,
+  ERRORS.ERROR_PEERDEPENDENCIES_MISMATCH,
+  ERRORS.ERROR_EMBER_ADDON_ORDER_CYCLE,
+];
+
+// The errors that are found by comparing the installed packages with the lockfile
+// (see PackageInfoCache.verifyLockfile). These are cleared when it is done again.
+export const LOCKFILE_ERRORS: ErrorType[] = [
+  ERRORS.ERROR_LOCKFILE_PARSE,
+  ERRORS.ERROR_LOCKFILE_PACKAGES_MISSING,
+  ERRORS.ERROR_LOCKFILE_VERSIONS_MISMATCH,
+  ERRORS.ERROR_LOCKFILE_PACKAGES_EXTRANEOUS,
+];
+
+// The errors that are found by checking the targets of a package's 'exports' and
+// 'imports' fields (see PackageInfo.checkExports). These are cleared when it is
+// done again.
+export const EXPORTS_ERRORS: ErrorType[] = [
+  ERRORS.ERROR_EXPORTS_TARGET_INVALID,
+  ERRORS.ERROR_EXPORTS_TARGET_MISSING,
+];
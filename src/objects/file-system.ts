@@ -0,0 +1,97 @@
+// The stats of a file or directory that a PackageInfoCache needs.
+export type FileSystemStats = {
+  isFile: boolean;
+  isDirectory: boolean;
+
+  // enough to tell if a file or directory has changed (see loadFromSnapshot()).
+  mtimeMs: number;
+  ino: number;
+};
+
+// A watch on a directory, started by FileSystem.watch().
+export type FileSystemWatch = {
+  close(): void;
+};
+
+/**
+ * The interface for the file system a PackageInfoCache reads packages from, so a
+ * project can be loaded from somewhere other than the disk (e.g. from memory with
+ * a MemoryFileSystem, or from the tree of a git commit). The default is a
+ * NodeFileSystem, which reads the disk. Every path given to a FileSystem is
+ * absolute, and a path with nothing (of the right kind) at it is undefined
+ * rather than an error.
+ */
+export interface FileSystem {
+  /**
+   * Read a text file.
+   *
+   * @param filePath - the path of the file.
+   * @returns the contents of the file, or undefined if it can't be read.
+   */
+  readFile(filePath: string): string | undefined;
+
+  /**
+   * List the entries of a directory.
+   *
+   * @param dirPath - the path of the directory.
+   * @returns the names of the entries, or undefined if there is no directory at
+   * the path.
+   */
+  readdir(dirPath: string): string[] | undefined;
+
+  /**
+   * Resolve any symbolic links in a path.
+   *
+   * @param entryPath - the path of a file or directory.
+   * @returns the real path, or undefined if there is nothing at the path.
+   */
+  realpath(entryPath: string): string | undefined;
+
+  /**
+   * Get the stats of a file or directory, following symbolic links.
+   *
+   * @param entryPath - the path of a file or directory.
+   * @returns the stats, or undefined if there is nothing at the path.
+   */
+  stat(entryPath: string): FileSystemStats | undefined;
+
+  /**
+   * The asynchronous version of readFile(), for the asynchronous load methods.
+   */
+  readFileAsync(filePath: string): Promise<string | undefined>;
+
+  /**
+   * The asynchronous version of readdir().
+   */
+  readdirAsync(dirPath: string): Promise<string[] | undefined>;
+
+  /**
+   * The asynchronous version of realpath().
+   */
+  realpathAsync(entryPath: string): Promise<string | undefined>;
+
+  /**
+   * The asynchronous version of stat().
+   */
+  statAsync(entryPath: string): Promise<FileSystemStats | undefined>;
+
+  /**
+   * Watch a directory for changes to its entries. This is optional: the watcher
+   * of PackageInfoCache.watch() only finds changes by itself on a file system
+   * that has it (otherwise, call its refresh() to apply them).
+   *
+   * @param dirPath - the path of the directory.
+   * @param persistent - whether the watch keeps the process running.
+   * @param onChange - called with the name of the entry that changed, or '' if
+   * that is not known.
+   * @param onError - called if the watch fails (e.g. the directory was removed),
+   * after which it is closed.
+   * @returns the watch, or undefined if the directory can't be watched.
+   */
+  watch?(
+    dirPath: string,
+    persistent: boolean,
+    onChange: (fileName: string) => void,
+    onError: () => void
+  ): FileSystemWatch | undefined;
+}
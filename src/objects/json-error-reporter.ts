@@ -0,0 +1,58 @@
+import type { SourceLocation } from '../utils';
+import type { ErrorData, ErrorSeverity, ErrorType } from './errors';
+import {
+  ErrorReport,
+  ErrorReporter,
+  getErrorMessageLines,
+} from './error-reporter';
+import { NodeModulesList } from './node-modules-list';
+
+// An entry in the output of the JsonErrorReporter.
+export type JsonErrorReportEntry = {
+  name: string | undefined;
+  version: string | undefined;
+
+  // the PackageInfo's typeName(), or 'node_modules' for a node_modules directory.
+  type: string;
+
+  path: string;
+  errors: {
+    type: ErrorType;
+    severity: ErrorSeverity;
+    message: string;
+    data: ErrorData[ErrorType];
+
+    // where the error is in the package.json, if known (see ErrorEntry).
+    locations: SourceLocation[];
+  }[];
+};
+
+/**
+ * An ErrorReporter that reports the errors as a JSON array of JsonErrorReportEntry
+ * objects, with the data of each error as it is in the cache.
+ */
+export class JsonErrorReporter implements ErrorReporter {
+  format(report: ErrorReport): string {
+    const entries: JsonErrorReportEntry[] = report.entries.map(
+      ({ entry, errors }) => ({
+        ...(entry instanceof NodeModulesList
+          ? { name: undefined, version: undefined, type: 'node_modules' }
+          : {
+              name: entry.name,
+              version: entry.packageJson.version,
+              type: entry.typeName(),
+            }),
+        path: entry.realPath,
+        errors: errors.map((errorEntry) => ({
+          type: errorEntry.type,
+          severity: errorEntry.severity,
+          message: getErrorMessageLines(errorEntry).join('\n'),
+          data: errorEntry.data,
+          locations: errorEntry.locations,
+        })),
+      })
+    );
+
+    return JSON.stringify(entries, null, 2);
+  }
+}
@@ -0,0 +1,73 @@
+import {
+  ErrorReport,
+  ErrorReporter,
+  getEntryName,
+  getErrorMessageLines,
+} from './error-reporter';
+
+const SUITE_NAME = 'package-info-cache';
+
+/**
+ * An ErrorReporter that reports the errors as JUnit XML, for CI systems that show
+ * test results. There is a test case for each error, named after the error type,
+ * in a class named after the package (or node_modules directory). Errors are
+ * failures; warnings are passing test cases with the message as their output.
+ */
+export class JUnitErrorReporter implements ErrorReporter {
+  format(report: ErrorReport): string {
+    const testCases: string[] = [];
+    let testCount = 0;
+    let failureCount = 0;
+
+    report.entries.forEach(({ entry, errors }) => {
+      errors.forEach((errorEntry) => {
+        const lines = getErrorMessageLines(errorEntry);
+        testCount++;
+        const attributes = `classname="${escapeXml(
+          getEntryName(entry)
+        )}" name="${escapeXml(errorEntry.type)}" file="${escapeXml(
+          entry.realPath
+        )}"`;
+
+        if (errorEntry.severity === 'error') {
+          failureCount++;
+          testCases.push(
+            `    <testcase ${attributes}>`,
+            `      <failure type="${escapeXml(
+              errorEntry.type
+            )}" message="${escapeXml(lines[0] ?? '')}">${escapeXml(
+              lines.join('\n')
+            )}</failure>`,
+            `    </testcase>`
+          );
+        } else {
+          testCases.push(
+            `    <testcase ${attributes}>`,
+            `      <system-out>${escapeXml(lines.join('\n'))}</system-out>`,
+            `    </testcase>`
+          );
+        }
+      });
+    });
+
+    const counts = `tests="${testCount}" failures="${failureCount}" errors="0"`;
+
+    return [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      `<testsuites name="${SUITE_NAME}" ${counts}>`,
+      `  <testsuite name="${SUITE_NAME}" ${counts}>`,
+      ...testCases,
+      '  </testsuite>',
+      '</testsuites>',
+    ].join('\n');
+  }
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
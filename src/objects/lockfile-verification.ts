@@ -0,0 +1,485 @@
+import yaml from 'js-yaml';
+import path from 'node:path';
+
+import { getObjectProperty, isObject, isString } from '../utils';
+import type { FileSystem } from './file-system';
+import type { PackageInfo } from './package-info';
+
+const LOCKFILE_NAMES = ['package-lock.json', 'yarn.lock'];
+
+export type LockfileFormat = 'npm' | 'yarn-v1' | 'yarn-berry';
+
+// A package listed in a lockfile.
+export type LockedPackage = {
+  name: string;
+  version: string;
+
+  // where the package is installed, relative to the lockfile's directory and with
+  // '/' separators (e.g. 'node_modules/a/node_modules/b'). Only package-lock.json
+  // records this.
+  path: string | undefined;
+
+  // optional packages (e.g. platform-specific ones) may be missing, as may the
+  // dev packages of package-lock.json, which e.g. 'npm ci --omit=dev' skips.
+  optional: boolean;
+};
+
+export type Lockfile = {
+  format: LockfileFormat;
+  path: string;
+
+  // undefined if the lockfile could not be parsed.
+  packages: LockedPackage[] | undefined;
+};
+
+// A package found in a node_modules directory.
+export type InstalledPackage = {
+  // the name it is installed under, which differs from its package.json name
+  // for an aliased package.
+  name: string;
+
+  // where it is installed (the path of the entry in the node_modules directory).
+  path: string;
+
+  packageInfo: PackageInfo;
+};
+
+// The data of an ERROR_LOCKFILE_PACKAGES_MISSING error.
+export type LockfileMissingPackage = {
+  name: string;
+  version: string;
+  path: string | undefined;
+};
+
+// The data of an ERROR_LOCKFILE_VERSIONS_MISMATCH error.
+export type LockfileVersionMismatch = {
+  name: string;
+  path: string;
+  version: string | undefined;
+  lockedVersions: string[];
+};
+
+// The data of an ERROR_LOCKFILE_PACKAGES_EXTRANEOUS error.
+export type LockfileExtraneousPackage = {
+  name: string;
+  path: string;
+  version: string | undefined;
+};
+
+export type LockfileVerification = {
+  lockfile: Lockfile;
+  missing: LockfileMissingPackage[];
+  mismatched: LockfileVersionMismatch[];
+  extraneous: LockfileExtraneousPackage[];
+};
+
+/**
+ * Find the lockfile in a directory: package-lock.json, or else yarn.lock.
+ * @param fileSystem - the file system to look in.
+ * @param dirPath - the directory of the package or monorepo.
+ * @returns the path of the lockfile, or undefined if there is none.
+ */
+export function findLockfile(
+  fileSystem: FileSystem,
+  dirPath: string
+): string | undefined {
+  return LOCKFILE_NAMES.map((fileName) => path.join(dirPath, fileName)).find(
+    (lockfilePath) => fileSystem.stat(lockfilePath)?.isFile
+  );
+}
+
+/**
+ * Read a package-lock.json (lockfile version 2 or 3) or yarn.lock (the v1 format,
+ * or the YAML format of yarn 2 and later) file.
+ * @param fileSystem - the file system to read from.
+ * @param lockfilePath - the path of the lockfile.
+ * @returns the lockfile, or undefined if it can't be read.
+ */
+export function readLockfile(
+  fileSystem: FileSystem,
+  lockfilePath: string
+): Lockfile | undefined {
+  const text = fileSystem.readFile(lockfilePath);
+
+  if (text === undefined) {
+    return undefined;
+  }
+
+  if (path.basename(lockfilePath) !== 'yarn.lock') {
+    return {
+      format: 'npm',
+      path: lockfilePath,
+      packages: parsePackageLock(text),
+    };
+  }
+
+  if (/^__metadata:/m.test(text)) {
+    return {
+      format: 'yarn-berry',
+      path: lockfilePath,
+      packages: parseBerryYarnLock(text),
+    };
+  }
+
+  return {
+    format: 'yarn-v1',
+    path: lockfilePath,
+    packages: parseYarnLockV1(text),
+  };
+}
+
+/**
+ * Compare the packages in a lockfile with the packages installed in node_modules.
+ *
+ * package-lock.json records where each package is installed, so each location is
+ * checked. yarn.lock does not, so an installed copy only mismatches if its version
+ * is not one of the locked versions of the package, and a locked version is only
+ * missing if no copy of the package has that version and none mismatches.
+ *
+ * Packages linked into node_modules from outside of it (e.g. workspace members)
+ * are not compared, as lockfiles don't list them as installed packages.
+ *
+ * @param lockfile - the lockfile, which must have been parsed.
+ * @param installedPackages - every package in the node_modules directories.
+ */
+export function verifyLockfile(
+  lockfile: Lockfile,
+  installedPackages: InstalledPackage[]
+): LockfileVerification {
+  const rootDir = path.dirname(lockfile.path);
+  const installed = installedPackages.filter(
+    (installedPackage) => !isLinked(installedPackage)
+  );
+
+  const verification =
+    lockfile.format === 'npm'
+      ? verifyByPath(lockfile.packages ?? [], installed, rootDir)
+      : verifyByName(lockfile.packages ?? [], installed);
+
+  return { lockfile, ...verification };
+}
+
+type VerificationResults = Omit<LockfileVerification, 'lockfile'>;
+
+function verifyByPath(
+  lockedPackages: LockedPackage[],
+  installed: InstalledPackage[],
+  rootDir: string
+): VerificationResults {
+  const results: VerificationResults = {
+    missing: [],
+    mismatched: [],
+    extraneous: [],
+  };
+
+  const lockedPaths = new Set<string>();
+  const installedByPath = new Map(
+    installed.map((installedPackage) => [
+      toLockfilePath(rootDir, installedPackage.path),
+      installedPackage,
+    ])
+  );
+
+  lockedPackages.forEach((lockedPackage) => {
+    const lockedPath = lockedPackage.path as string;
+    const installedPackage = installedByPath.get(lockedPath);
+    const version = installedPackage?.packageInfo.packageJson.version;
+
+    lockedPaths.add(lockedPath);
+
+    if (!installedPackage) {
+      if (!lockedPackage.optional) {
+        results.missing.push({
+          name: lockedPackage.name,
+          version: lockedPackage.version,
+          path: lockedPath,
+        });
+      }
+    } else if (version !== lockedPackage.version) {
+      results.mismatched.push({
+        name: installedPackage.name,
+        path: installedPackage.path,
+        version,
+        lockedVersions: [lockedPackage.version],
+      });
+    }
+  });
+
+  installedByPath.forEach((installedPackage, installedPath) => {
+    if (!lockedPaths.has(installedPath)) {
+      results.extraneous.push(toExtraneousPackage(installedPackage));
+    }
+  });
+
+  return results;
+}
+
+function verifyByName(
+  lockedPackages: LockedPackage[],
+  installed: InstalledPackage[]
+): VerificationResults {
+  const results: VerificationResults = {
+    missing: [],
+    mismatched: [],
+    extraneous: [],
+  };
+
+  const lockedVersions = new Map<string, Set<string>>();
+
+  lockedPackages.forEach((lockedPackage) => {
+    const versions = lockedVersions.get(lockedPackage.name) ?? new Set();
+
+    versions.add(lockedPackage.version);
+    lockedVersions.set(lockedPackage.name, versions);
+  });
+
+  const installedVersions = new Set<string>();
+
+  installed.forEach((installedPackage) => {
+    const versions = lockedVersions.get(installedPackage.name);
+    const version = installedPackage.packageInfo.packageJson.version;
+
+    installedVersions.add(getVersionKey(installedPackage.name, version));
+
+    if (!versions) {
+      results.extraneous.push(toExtraneousPackage(installedPackage));
+    } else if (!version || !versions.has(version)) {
+      results.mismatched.push({
+        name: installedPackage.name,
+        path: installedPackage.path,
+        version,
+        lockedVersions: [...versions].sort(),
+      });
+    }
+  });
+
+  // a mismatched copy already accounts for the locked version it should have had.
+  const mismatchedNames = new Set(results.mismatched.map(({ name }) => name));
+  const missingVersions = new Set<string>();
+
+  lockedPackages.forEach((lockedPackage) => {
+    const versionKey = getVersionKey(lockedPackage.name, lockedPackage.version);
+
+    if (
+      !installedVersions.has(versionKey) &&
+      !missingVersions.has(versionKey) &&
+      !mismatchedNames.has(lockedPackage.name) &&
+      !lockedPackage.optional
+    ) {
+      missingVersions.add(versionKey);
+      results.missing.push({
+        name: lockedPackage.name,
+        version: lockedPackage.version,
+        path: undefined,
+      });
+    }
+  });
+
+  return results;
+}
+
+function getVersionKey(name: string, version: string | undefined): string {
+  return `${name}@${version ?? ''}`;
+}
+
+function toExtraneousPackage(
+  installedPackage: InstalledPackage
+): LockfileExtraneousPackage {
+  return {
+    name: installedPackage.name,
+    path: installedPackage.path,
+    version: installedPackage.packageInfo.packageJson.version,
+  };
+}
+
+function toLockfilePath(rootDir: string, installedPath: string): string {
+  return path.relative(rootDir, installedPath).split(path.sep).join('/');
+}
+
+// a package whose real path is outside of any node_modules directory was linked in.
+function isLinked(installedPackage: InstalledPackage): boolean {
+  return !installedPackage.packageInfo.realPath
+    .split(path.sep)
+    .includes('node_modules');
+}
+
+/**
+ * Get the package name from a yarn.lock descriptor, e.g. 'lodash' from
+ * 'lodash@^4.17.21', or '@babel/core' from '@babel/core@npm:^7.20.2'.
+ */
+function getDescriptorName(descriptor: string): string {
+  const separatorIndex = descriptor.indexOf('@', 1);
+
+  return separatorIndex < 0 ? descriptor : descriptor.slice(0, separatorIndex);
+}
+
+function unquote(value: string): string {
+  return value.replace(/^"(.*)"$/, '$1');
+}
+
+/**
+ * Parse the packages of a package-lock.json file, from its 'packages' field, which
+ * is keyed by install location ('' being the root package).
+ */
+function parsePackageLock(text: string): LockedPackage[] | undefined {
+  let packages: unknown;
+
+  try {
+    packages = getObjectProperty(JSON.parse(text) as unknown, 'packages');
+  } catch {
+    return undefined;
+  }
+
+  if (!isObject(packages)) {
+    return undefined;
+  }
+
+  const result: LockedPackage[] = [];
+
+  Object.entries(packages as Record<string, unknown>).forEach(
+    ([lockedPath, entry]) => {
+      const nameIndex = lockedPath.lastIndexOf('node_modules/');
+      const version = getObjectProperty(entry, 'version');
+
+      // skip the root package, workspace members' own directories and links to them.
+      if (
+        nameIndex < 0 ||
+        getObjectProperty(entry, 'link') === true ||
+        !isString(version)
+      ) {
+        return;
+      }
+
+      result.push({
+        name: lockedPath.slice(nameIndex + 'node_modules/'.length),
+        version,
+        path: lockedPath,
+        optional:
+          getObjectProperty(entry, 'optional') === true ||
+          getObjectProperty(entry, 'devOptional') === true ||
+          getObjectProperty(entry, 'dev') === true,
+      });
+    }
+  );
+
+  return result;
+}
+
+/**
+ * Parse the packages of a yarn.lock file in the v1 format, e.g.
+ *
+ *   "@babel/core@^7.0.0", "@babel/core@^7.20.2":
+ *     version "7.20.2"
+ *     optionalDependencies:
+ *       fsevents "~2.3.2"
+ *
+ * A package is optional if some package lists it in its optionalDependencies.
+ */
+function parseYarnLockV1(text: string): LockedPackage[] | undefined {
+  const entries: { name: string; version: string | undefined }[] = [];
+  const optionalNames = new Set<string>();
+
+  let inOptionalDependencies = false;
+
+  for (const line of text.split(/\r?\n/)) {
+    if (!line.trim() || line.startsWith('#')) {
+      continue;
+    }
+
+    const indent = line.length - line.trimStart().length;
+    const content = line.trim();
+
+    if (indent === 0) {
+      if (!content.endsWith(':')) {
+        return undefined;
+      }
+
+      const descriptor = unquote(content.slice(0, -1).split(/,\s*/)[0] ?? '');
+      entries.push({ name: getDescriptorName(descriptor), version: undefined });
+      inOptionalDependencies = false;
+    } else if (indent === 2) {
+      const entry = entries[entries.length - 1];
+      const [key, value] = content.split(/\s+/, 2);
+
+      if (key === 'version' && entry && value) {
+        entry.version = unquote(value);
+      }
+
+      inOptionalDependencies = key === 'optionalDependencies:';
+    } else if (inOptionalDependencies) {
+      optionalNames.add(unquote(content.split(/\s+/)[0] ?? ''));
+    }
+  }
+
+  return entries.flatMap(({ name, version }) =>
+    version
+      ? [{ name, version, path: undefined, optional: optionalNames.has(name) }]
+      : []
+  );
+}
+
+/**
+ * Parse the packages of a yarn.lock file in the YAML format of yarn 2 and later.
+ * Workspaces and other links are skipped, and a package is optional if it is
+ * only installed under some 'conditions' (e.g. an OS), or some package's
+ * dependenciesMeta marks it as optional.
+ */
+function parseBerryYarnLock(text: string): LockedPackage[] | undefined {
+  let lockfile: unknown;
+
+  try {
+    // keep every value as a string, so e.g. a version of '1.10' stays as it is.
+    lockfile = yaml.load(text, { schema: yaml.FAILSAFE_SCHEMA });
+  } catch {
+    return undefined;
+  }
+
+  if (!isObject(lockfile)) {
+    return undefined;
+  }
+
+  const entries: {
+    name: string;
+    version: string;
+    hasConditions: boolean;
+  }[] = [];
+  const optionalNames = new Set<string>();
+
+  Object.entries(lockfile as Record<string, unknown>).forEach(
+    ([descriptors, entry]) => {
+      const version = getObjectProperty(entry, 'version');
+      const resolution = getObjectProperty(entry, 'resolution');
+      const dependenciesMeta = getObjectProperty(entry, 'dependenciesMeta');
+
+      if (
+        descriptors === '__metadata' ||
+        !isString(version) ||
+        getObjectProperty(entry, 'linkType') === 'soft' ||
+        (isString(resolution) && resolution.includes('@workspace:'))
+      ) {
+        return;
+      }
+
+      if (isObject(dependenciesMeta)) {
+        Object.entries(dependenciesMeta).forEach(([name, meta]) => {
+          if (getObjectProperty(meta, 'optional') === 'true') {
+            optionalNames.add(name);
+          }
+        });
+      }
+
+      entries.push({
+        name: getDescriptorName(descriptors.split(/,\s*/)[0] ?? ''),
+        version,
+        hasConditions: getObjectProperty(entry, 'conditions') !== undefined,
+      });
+    }
+  );
+
+  return entries.map(({ name, version, hasConditions }) => ({
+    name,
+    version,
+    path: undefined,
+    optional: hasConditions || optionalNames.has(name),
+  }));
+}
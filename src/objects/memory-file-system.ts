@@ -0,0 +1,151 @@
+import path from 'node:path';
+
+import type { FileSystem, FileSystemStats } from './file-system';
+
+// A directory in the fixturify style: each key is the name of an entry, whose
+// value is the contents of a file or another directory. Entries that are null
+// or undefined do not exist.
+export type MemoryDirectory = {
+  [name: string]: string | MemoryDirectory | null | undefined;
+};
+
+/**
+ * A FileSystem whose files and directories are given as an object, e.g. to load
+ * a project that is not on disk (from a git tree object or a tarball), or to
+ * load a fixture in a test without writing it. The directories containing the
+ * root directory exist too, so that it can be mounted anywhere. There are no
+ * symbolic links, so the real path of everything is its own path.
+ *
+ * @example
+ * const fileSystem = new MemoryFileSystem('/project', {
+ *   'package.json': JSON.stringify({ name: 'app', dependencies: { lodash: '*' } }),
+ *   node_modules: {
+ *     lodash: { 'package.json': JSON.stringify({ name: 'lodash' }) },
+ *   },
+ * });
+ * const pic = new PackageInfoCache({ fileSystem });
+ */
+export class MemoryFileSystem implements FileSystem {
+  #rootDir: string;
+  #root: MemoryDirectory;
+
+  // an inode number for each path that has been stat()ed, so they are stable.
+  #inodes: Map<string, number>;
+
+  /**
+   * @param rootDir - the absolute path of the root directory.
+   * @param root - the contents of the root directory.
+   */
+  constructor(rootDir: string, root: MemoryDirectory) {
+    this.#rootDir = path.resolve(rootDir);
+    this.#root = root;
+    this.#inodes = new Map();
+  }
+
+  readFile(filePath: string): string | undefined {
+    const entry = this.#getEntry(filePath);
+    return typeof entry === 'string' ? entry : undefined;
+  }
+
+  readdir(dirPath: string): string[] | undefined {
+    const entry = this.#getEntry(dirPath);
+
+    if (entry === undefined || typeof entry === 'string') {
+      return undefined;
+    }
+
+    return Object.keys(entry).filter(
+      (name) => entry[name] !== null && entry[name] !== undefined
+    );
+  }
+
+  realpath(entryPath: string): string | undefined {
+    return this.#getEntry(entryPath) === undefined
+      ? undefined
+      : path.resolve(entryPath);
+  }
+
+  stat(entryPath: string): FileSystemStats | undefined {
+    const entry = this.#getEntry(entryPath);
+
+    if (entry === undefined) {
+      return undefined;
+    }
+
+    const resolvedPath = path.resolve(entryPath);
+    let ino = this.#inodes.get(resolvedPath);
+
+    if (ino === undefined) {
+      ino = this.#inodes.size + 1;
+      this.#inodes.set(resolvedPath, ino);
+    }
+
+    return {
+      isFile: typeof entry === 'string',
+      isDirectory: typeof entry !== 'string',
+      mtimeMs: 0,
+      ino,
+    };
+  }
+
+  readFileAsync(filePath: string): Promise<string | undefined> {
+    return Promise.resolve(this.readFile(filePath));
+  }
+
+  readdirAsync(dirPath: string): Promise<string[] | undefined> {
+    return Promise.resolve(this.readdir(dirPath));
+  }
+
+  realpathAsync(entryPath: string): Promise<string | undefined> {
+    return Promise.resolve(this.realpath(entryPath));
+  }
+
+  statAsync(entryPath: string): Promise<FileSystemStats | undefined> {
+    return Promise.resolve(this.stat(entryPath));
+  }
+
+  /**
+   * Find the file contents or directory at a path. A directory that contains the
+   * root directory has just the next directory on the way to the root.
+   */
+  #getEntry(entryPath: string): string | MemoryDirectory | undefined {
+    const relativePath = path.relative(this.#rootDir, path.resolve(entryPath));
+
+    if (isOutside(relativePath)) {
+      // e.g. /a when the root directory is /a/b/c: /a contains just b.
+      const pathToRoot = path.relative(path.resolve(entryPath), this.#rootDir);
+
+      if (isOutside(pathToRoot)) {
+        return undefined;
+      }
+
+      return { [pathToRoot.split(path.sep)[0] as string]: {} };
+    }
+
+    let entry: string | MemoryDirectory | null | undefined = this.#root;
+
+    for (const name of relativePath.split(path.sep).filter(Boolean)) {
+      if (typeof entry !== 'object' || entry === null) {
+        return undefined;
+      }
+
+      entry = Object.prototype.hasOwnProperty.call(entry, name)
+        ? entry[name]
+        : undefined;
+    }
+
+    return entry ?? undefined;
+  }
+}
+
+/**
+ * Indicate if a relative path leads out of the directory it is relative to. A
+ * name that just starts with '..' (e.g. '..cache') is inside it.
+ */
+function isOutside(relativePath: string): boolean {
+  return (
+    relativePath === '..' ||
+    relativePath.startsWith(`..${path.sep}`) ||
+    path.isAbsolute(relativePath)
+  );
+}
@@ -0,0 +1,128 @@
+import fs from 'fs-extra';
+
+import { getObjectProperty, isString } from '../utils';
+import type {
+  FileSystem,
+  FileSystemStats,
+  FileSystemWatch,
+} from './file-system';
+
+// the codes of the errors that mean there is nothing (of the right kind) at a path.
+const MISSING_CODES = ['ENOENT', 'ENOTDIR'];
+
+/**
+ * The FileSystem that reads the disk with the 'fs' module, which is the default
+ * for a PackageInfoCache. As in resolve-package-path, a FIFO counts as a file.
+ */
+export class NodeFileSystem implements FileSystem {
+  readFile(filePath: string): string | undefined {
+    try {
+      return fs.readFileSync(filePath, 'utf8');
+    } catch (e) {
+      return undefined;
+    }
+  }
+
+  readdir(dirPath: string): string[] | undefined {
+    return ifExists(() => fs.readdirSync(dirPath));
+  }
+
+  realpath(entryPath: string): string | undefined {
+    return ifExists(() => fs.realpathSync(entryPath));
+  }
+
+  stat(entryPath: string): FileSystemStats | undefined {
+    return ifExists(() => toFileSystemStats(fs.statSync(entryPath)));
+  }
+
+  async readFileAsync(filePath: string): Promise<string | undefined> {
+    try {
+      return await fs.readFile(filePath, 'utf8');
+    } catch (e) {
+      return undefined;
+    }
+  }
+
+  readdirAsync(dirPath: string): Promise<string[] | undefined> {
+    return ifExistsAsync(() => fs.readdir(dirPath));
+  }
+
+  realpathAsync(entryPath: string): Promise<string | undefined> {
+    return ifExistsAsync(() => fs.realpath(entryPath));
+  }
+
+  statAsync(entryPath: string): Promise<FileSystemStats | undefined> {
+    return ifExistsAsync(async () =>
+      toFileSystemStats(await fs.stat(entryPath))
+    );
+  }
+
+  watch(
+    dirPath: string,
+    persistent: boolean,
+    onChange: (fileName: string) => void,
+    onError: () => void
+  ): FileSystemWatch | undefined {
+    try {
+      const watcher = fs.watch(
+        dirPath,
+        { persistent },
+        (_eventType, fileName) => onChange(fileName ? fileName.toString() : '')
+      );
+
+      watcher.on('error', () => {
+        watcher.close();
+        onError();
+      });
+
+      return watcher;
+    } catch (e) {
+      // the directory may have disappeared.
+      return undefined;
+    }
+  }
+}
+
+function toFileSystemStats(stats: fs.Stats): FileSystemStats {
+  return {
+    isFile: stats.isFile() || stats.isFIFO(),
+    isDirectory: stats.isDirectory(),
+    mtimeMs: stats.mtimeMs,
+    ino: stats.ino,
+  };
+}
+
+/**
+ * Make a file system call, returning undefined if there is nothing at the path.
+ * Any other error is rethrown.
+ */
+function ifExists<T>(call: () => T): T | undefined {
+  try {
+    return call();
+  } catch (e) {
+    rethrowUnlessMissing(e);
+    return undefined;
+  }
+}
+
+/**
+ * The asynchronous version of ifExists().
+ */
+async function ifExistsAsync<T>(
+  call: () => Promise<T>
+): Promise<T | undefined> {
+  try {
+    return await call();
+  } catch (e) {
+    rethrowUnlessMissing(e);
+    return undefined;
+  }
+}
+
+function rethrowUnlessMissing(e: unknown): void {
+  const code = getObjectProperty(e, 'code');
+
+  if (!isString(code) || !MISSING_CODES.includes(code)) {
+    throw e;
+  }
+}
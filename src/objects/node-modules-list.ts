@@ -1,4 +1,5 @@
 import { ErrorList } from './error-list';
+import { ErrorData, ErrorType } from './errors';
 import { PackageInfo } from './package-info';
 import { PackageInfoCache } from './package-info-cache';
 
@@ -19,7 +20,7 @@ export class NodeModulesList {
     this.realPath = realPath;
     this.hasEntries = false; // for speed
     this.entries = new Map();
-    this.errors = new ErrorList();
+    this.errors = new ErrorList(realPath);
     this.cache = cache;
   }
 
@@ -47,15 +48,15 @@ export class NodeModulesList {
    * Given error data, add an ErrorEntry to the ErrorList for this object.
    *
    * @param errorType - one of the Errors.ERROR_* constants.
-   * @param errorData - any error data relevant to the type of error
-   * being created. See showErrors().
+   * @param errorData - the error data for the type of error being created
+   * (see ErrorData).
    */
-  addError(errorType: string, errorData: unknown): void {
+  addError<T extends ErrorType>(errorType: T, errorData: ErrorData[T]): void {
     this.errors.addError(errorType, errorData);
   }
 
   /**
-   * Indicate if there are any errors in the NodeModulesList itself (not
+   * Indicate if there are any errors (not just warnings) in the NodeModulesList itself (not
    * including errors within the individual entries).
    */
   hasErrors(): boolean {
@@ -77,6 +78,17 @@ export class NodeModulesList {
     this.entries.set(entryName, entryVal);
   }
 
+  /**
+   * Remove an entry from the entries for this list. This is only called by
+   * PackageInfoCache, when an entry is no longer on disk.
+   *
+   * @param entryName - the name of the entry to remove.
+   */
+  removeEntry(entryName: string): void {
+    this.entries.delete(entryName);
+    this.hasEntries = this.entries.size > 0;
+  }
+
   /**
    * Return a PackageInfo object for a given package name (which may include
    * a scope)
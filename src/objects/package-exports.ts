@@ -0,0 +1,359 @@
+import { isObject } from '../utils';
+
+// The conditions that are matched by default, as for an ES module imported by
+// Node. The 'default' condition always matches.
+export const DEFAULT_CONDITIONS: readonly string[] = ['node', 'import'];
+
+// What a subpath or specifier resolves to through an 'exports' or 'imports' field.
+export type PackageTargetResolution = {
+  // the key of the field that matched, e.g. './feature/*' or '#internal'.
+  key: string;
+
+  // the target, with any '*' replaced by the part of the subpath that matched it:
+  // a path relative to the package's directory (e.g. './dist/feature/a.js'), or
+  // for 'imports' a package specifier (e.g. 'lodash/get'). null if the key
+  // excludes the subpath (a null target, or none of the conditions matched).
+  target: string | null;
+
+  // set if the target (or every target of a fallback array) is not a valid
+  // target, e.g. a path outside the package. The target is then null.
+  invalidTarget?: string;
+};
+
+// A target of an 'exports' or 'imports' field that is broken: the data of an
+// ERROR_EXPORTS_TARGET_INVALID or ERROR_EXPORTS_TARGET_MISSING error.
+export type BrokenPackageTarget = {
+  field: 'exports' | 'imports';
+  key: string;
+  target: string;
+};
+
+// the segments a path target may not contain (after its leading '.'), in any
+// case and even if percent-encoded.
+const INVALID_SEGMENTS = ['', '.', '..', 'node_modules'];
+
+// What a target resolves to: undefined if none of its conditions match, or an
+// invalidTarget where Node throws ERR_INVALID_PACKAGE_TARGET.
+type TargetResult = string | null | undefined | { invalidTarget: string };
+
+/**
+ * Resolve a subpath of a package through its 'exports' field, with Node's
+ * algorithm (PACKAGE_EXPORTS_RESOLVE): exact keys win over '*' pattern keys,
+ * which are tried from the most specific down; conditions are matched in the
+ * order of the object's keys; and the first valid target of a fallback array
+ * is used. Whether the target exists is not checked.
+ *
+ * @param exportsField - the value of the package.json 'exports' field.
+ * @param subpath - the subpath, '.' for the package itself or e.g. './feature'.
+ * @param conditions - the conditions to match, besides 'default'.
+ * @returns the resolution, or undefined if no key matches the subpath.
+ */
+export function resolvePackageExports(
+  exportsField: unknown,
+  subpath: string,
+  conditions: readonly string[] = DEFAULT_CONDITIONS
+): PackageTargetResolution | undefined {
+  const exportsMap = getExportsMap(exportsField);
+
+  return exportsMap
+    ? resolvePackageMap(exportsMap, subpath, false, conditions)
+    : undefined;
+}
+
+/**
+ * Resolve a '#' specifier of a package through its 'imports' field, with Node's
+ * algorithm (PACKAGE_IMPORTS_RESOLVE). As well as paths in the package, the
+ * targets of 'imports' may be package specifiers.
+ *
+ * @param importsField - the value of the package.json 'imports' field.
+ * @param specifier - the specifier, e.g. '#internal/a.js'.
+ * @param conditions - the conditions to match, besides 'default'.
+ * @returns the resolution, or undefined if no key matches the specifier.
+ */
+export function resolvePackageImports(
+  importsField: unknown,
+  specifier: string,
+  conditions: readonly string[] = DEFAULT_CONDITIONS
+): PackageTargetResolution | undefined {
+  if (
+    !specifier.startsWith('#') ||
+    specifier === '#' ||
+    specifier.startsWith('#/') ||
+    !isObject(importsField) ||
+    Array.isArray(importsField)
+  ) {
+    return undefined;
+  }
+
+  return resolvePackageMap(
+    importsField as Record<string, unknown>,
+    specifier,
+    true,
+    conditions
+  );
+}
+
+/**
+ * List every target of an 'exports' or 'imports' field, under any condition and
+ * including every fallback of an array, with the key it is the target of.
+ *
+ * @param field - the value of the field.
+ * @param isImports - true for an 'imports' field.
+ */
+export function listPackageTargets(
+  field: unknown,
+  isImports: boolean
+): { key: string; target: unknown }[] {
+  const packageMap = isImports
+    ? isObject(field) && !Array.isArray(field)
+      ? (field as Record<string, unknown>)
+      : undefined
+    : getExportsMap(field);
+  const targets: { key: string; target: unknown }[] = [];
+
+  const addTargets = (key: string, target: unknown): void => {
+    if (Array.isArray(target)) {
+      target.forEach((item) => addTargets(key, item));
+    } else if (isObject(target)) {
+      Object.values(target).forEach((value) => addTargets(key, value));
+    } else if (target !== null) {
+      targets.push({ key, target });
+    }
+  };
+
+  Object.entries(packageMap ?? {}).forEach(([key, target]) =>
+    addTargets(key, target)
+  );
+
+  return targets;
+}
+
+/**
+ * Indicate if a target of an 'exports' or 'imports' field is valid: a path in
+ * the package that starts with './', or for 'imports' a package specifier.
+ *
+ * @param target - the target.
+ * @param isImports - true for a target of an 'imports' field.
+ */
+export function isValidPackageTarget(
+  target: unknown,
+  isImports: boolean
+): target is string {
+  if (typeof target !== 'string') {
+    return false;
+  }
+
+  if (!target.startsWith('./')) {
+    return (
+      isImports &&
+      !target.startsWith('../') &&
+      !target.startsWith('/') &&
+      !isUrl(target)
+    );
+  }
+
+  return !hasInvalidSegment(target.slice(2));
+}
+
+/**
+ * Get the 'exports' field as an object of subpaths, where a string, an array or
+ * an object of conditions is the export of '.'. An object that mixes subpath keys
+ * and condition keys is invalid (undefined).
+ */
+function getExportsMap(
+  exportsField: unknown
+): Record<string, unknown> | undefined {
+  if (exportsField === undefined) {
+    return undefined;
+  }
+
+  if (!isObject(exportsField) || Array.isArray(exportsField)) {
+    return { '.': exportsField };
+  }
+
+  const keys = Object.keys(exportsField);
+  const subpathKeys = keys.filter((key) => key.startsWith('.'));
+
+  if (subpathKeys.length === 0) {
+    return { '.': exportsField };
+  }
+
+  return subpathKeys.length === keys.length
+    ? (exportsField as Record<string, unknown>)
+    : undefined;
+}
+
+/**
+ * PACKAGE_IMPORTS_EXPORTS_RESOLVE: find the key that matches a subpath or
+ * specifier and resolve its target.
+ */
+function resolvePackageMap(
+  packageMap: Record<string, unknown>,
+  matchKey: string,
+  isImports: boolean,
+  conditions: readonly string[]
+): PackageTargetResolution | undefined {
+  if (
+    Object.prototype.hasOwnProperty.call(packageMap, matchKey) &&
+    !matchKey.includes('*')
+  ) {
+    return toResolution(
+      matchKey,
+      resolveTarget(packageMap[matchKey], undefined, isImports, conditions)
+    );
+  }
+
+  const expansionKeys = Object.keys(packageMap)
+    .filter(
+      (key) =>
+        key.indexOf('*') !== -1 && key.indexOf('*') === key.lastIndexOf('*')
+    )
+    .sort(comparePatternKeys);
+
+  for (const expansionKey of expansionKeys) {
+    const [patternBase, patternTrailer] = expansionKey.split('*') as [
+      string,
+      string
+    ];
+
+    if (
+      matchKey.startsWith(patternBase) &&
+      matchKey !== patternBase &&
+      (patternTrailer.length === 0 ||
+        (matchKey.endsWith(patternTrailer) &&
+          matchKey.length >= expansionKey.length))
+    ) {
+      const patternMatch = matchKey.slice(
+        patternBase.length,
+        matchKey.length - patternTrailer.length
+      );
+
+      // Node rejects the request itself (ERR_INVALID_MODULE_SPECIFIER), so the
+      // subpath is not exported.
+      if (hasInvalidSegment(patternMatch)) {
+        return { key: expansionKey, target: null };
+      }
+
+      return toResolution(
+        expansionKey,
+        resolveTarget(
+          packageMap[expansionKey],
+          patternMatch,
+          isImports,
+          conditions
+        )
+      );
+    }
+  }
+
+  return undefined;
+}
+
+function toResolution(
+  key: string,
+  result: TargetResult
+): PackageTargetResolution {
+  if (isObject(result)) {
+    return { key, target: null, invalidTarget: result.invalidTarget };
+  }
+
+  return { key, target: result ?? null };
+}
+
+/**
+ * PACKAGE_TARGET_RESOLVE: resolve a target (a string, an object of conditions,
+ * an array of fallbacks or null).
+ */
+function resolveTarget(
+  target: unknown,
+  patternMatch: string | undefined,
+  isImports: boolean,
+  conditions: readonly string[]
+): TargetResult {
+  if (typeof target === 'string') {
+    if (!isValidPackageTarget(target, isImports)) {
+      return { invalidTarget: target };
+    }
+
+    return patternMatch === undefined
+      ? target
+      : target.replace(/\*/g, patternMatch);
+  }
+
+  if (Array.isArray(target)) {
+    if (target.length === 0) {
+      return null;
+    }
+
+    let lastResult: TargetResult = undefined;
+
+    for (const item of target) {
+      lastResult = resolveTarget(item, patternMatch, isImports, conditions);
+
+      if (lastResult !== undefined && !isObject(lastResult)) {
+        return lastResult;
+      }
+    }
+
+    return lastResult;
+  }
+
+  if (isObject(target)) {
+    for (const [condition, value] of Object.entries(target)) {
+      if (condition === 'default' || conditions.includes(condition)) {
+        const result = resolveTarget(
+          value,
+          patternMatch,
+          isImports,
+          conditions
+        );
+
+        if (result !== undefined) {
+          return result;
+        }
+      }
+    }
+
+    return undefined;
+  }
+
+  return target === null ? null : { invalidTarget: String(target) };
+}
+
+/**
+ * PATTERN_KEY_COMPARE: order '*' pattern keys from the most specific (the longest
+ * part before the '*') down.
+ */
+function comparePatternKeys(keyA: string, keyB: string): number {
+  const baseLengthA = keyA.indexOf('*') + 1;
+  const baseLengthB = keyB.indexOf('*') + 1;
+
+  if (baseLengthA !== baseLengthB) {
+    return baseLengthB - baseLengthA;
+  }
+
+  return keyB.length - keyA.length;
+}
+
+function hasInvalidSegment(subpath: string): boolean {
+  return subpath
+    .split(/[/\\]/)
+    .some((segment) => INVALID_SEGMENTS.includes(decodeSegment(segment)));
+}
+
+function decodeSegment(segment: string): string {
+  try {
+    return decodeURIComponent(segment).toLowerCase();
+  } catch (e) {
+    return segment.toLowerCase();
+  }
+}
+
+function isUrl(target: string): boolean {
+  try {
+    new URL(target);
+    return true;
+  } catch (e) {
+    return false;
+  }
+}
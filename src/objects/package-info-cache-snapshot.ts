@@ -0,0 +1,384 @@
+import Debug from 'debug';
+import path from 'node:path';
+
+import type { SourceLocation } from '../utils';
+import { EmberAddonPackageInfo } from './ember-addon-package-info';
+import { EmberAppPackageInfo } from './ember-app-package-info';
+import { ErrorList } from './error-list';
+import { ErrorData, ErrorType } from './errors';
+import type { FileSystem } from './file-system';
+import { NodeModulesList } from './node-modules-list';
+import { PackageInfo } from './package-info';
+import type {
+  PackageInfoCache,
+  PackageInfoCacheEntry,
+} from './package-info-cache';
+
+const debug = Debug('PIC:package-info-cache-snapshot');
+
+/**
+ * The version of the snapshot format. Snapshots with any other version are
+ * not restored; the cache is loaded from scratch instead.
+ */
+export const SNAPSHOT_VERSION = 6;
+
+// Enough of the stats of a file or directory to tell if it has changed.
+// null means the file or directory did not exist.
+export type SnapshotFileStamp = { mtimeMs: number; ino: number } | null;
+
+// One of the top-level load calls made on the cache, so it can be made again.
+export type SnapshotLoad =
+  | { method: 'loadProject' | 'loadApp'; rootDir: string; isRoot: boolean }
+  | { method: 'loadAddon'; rootDir: string; projectRelativePath: string }
+  | { method: 'loadWorkspace'; rootDir: string };
+
+export type SnapshotError = {
+  type: ErrorType;
+  data: ErrorData[ErrorType];
+
+  // left out if the error has no locations.
+  locations?: SourceLocation[];
+};
+
+// References between entries are stored as indexes into
+// PackageInfoCacheSnapshot.entries.
+export type SnapshotPackageInfo = {
+  kind: 'package';
+  realPath: string;
+  packageJson: Record<string, unknown>;
+  isRoot: boolean;
+  isWorkspaceMember: boolean;
+  valid: boolean;
+  processed: boolean;
+  errors: SnapshotError[];
+
+  // undefined if the package has no node_modules, null for NodeModulesList.nullInstance
+  nodeModules?: number | null;
+  dependencies?: [string, number][];
+  devDependencies?: [string, number][];
+  optionalDependencies?: [string, number][];
+  optionalDependenciesSkipped?: string[];
+  peerDependencies?: [string, number][];
+  inRepoAddons?: number[];
+
+  packageJsonStamp: SnapshotFileStamp;
+  nodeModulesStamp: SnapshotFileStamp;
+};
+
+export type SnapshotNodeModulesList = {
+  kind: 'node-modules';
+  realPath: string;
+  errors: SnapshotError[];
+  entries: [string, number][];
+  stamp: SnapshotFileStamp;
+};
+
+export type SnapshotEntry = SnapshotPackageInfo | SnapshotNodeModulesList;
+
+export type PackageInfoCacheSnapshot = {
+  version: number;
+  loads: SnapshotLoad[];
+  projectRootDir?: string;
+  rootPackage?: number;
+  entries: SnapshotEntry[];
+};
+
+/**
+ * Get the stamp for a file or directory, or null if it does not exist.
+ */
+export function getFileStamp(
+  fileSystem: FileSystem,
+  filePath: string
+): SnapshotFileStamp {
+  const stats = fileSystem.stat(filePath);
+  return stats ? { mtimeMs: stats.mtimeMs, ino: stats.ino } : null;
+}
+
+function isSameStamp(
+  stamp: SnapshotFileStamp,
+  other: SnapshotFileStamp
+): boolean {
+  if (stamp === null || other === null) {
+    return stamp === other;
+  }
+
+  return stamp.mtimeMs === other.mtimeMs && stamp.ino === other.ino;
+}
+
+function encodeErrors(errors: ErrorList): SnapshotError[] {
+  return errors
+    .getErrors()
+    .map(({ type, data, locations }) =>
+      locations.length > 0 ? { type, data, locations } : { type, data }
+    );
+}
+
+function decodeErrors(errors: SnapshotError[], entryPath: string): ErrorList {
+  const errorList = new ErrorList(entryPath);
+  errors.forEach(({ type, data, locations }) =>
+    errorList.addError(type, data, locations)
+  );
+  return errorList;
+}
+
+/**
+ * Encode the entries of a cache, along with the load calls that produced them,
+ * as a JSON-compatible snapshot. References between entries are replaced by
+ * their indexes in the snapshot's entries list.
+ *
+ * @param cache - the cache to encode.
+ * @param loads - the top-level load calls made on the cache.
+ */
+export function encodeSnapshot(
+  cache: PackageInfoCache,
+  loads: SnapshotLoad[]
+): PackageInfoCacheSnapshot {
+  const ids = new Map<PackageInfoCacheEntry, number>();
+  [...cache.entries.values()].forEach((entry, index) => ids.set(entry, index));
+
+  const idOf = (entry: PackageInfoCacheEntry): number => {
+    const id = ids.get(entry);
+
+    if (id === undefined) {
+      throw new Error(
+        `Unable to create a snapshot: '${entry.realPath}' is referred to, but is not in the cache`
+      );
+    }
+
+    return id;
+  };
+
+  const encodeDependencies = (
+    packages: Map<string, PackageInfo> | undefined
+  ): [string, number][] | undefined =>
+    packages
+      ? [...packages].map(([name, pkg]): [string, number] => [name, idOf(pkg)])
+      : undefined;
+
+  const entries = [...cache.entries.values()].map((entry): SnapshotEntry => {
+    if (entry instanceof NodeModulesList) {
+      return {
+        kind: 'node-modules',
+        realPath: entry.realPath,
+        errors: encodeErrors(entry.errors),
+        entries: [...entry.entries].map(
+          ([name, entryVal]): [string, number] => [name, idOf(entryVal)]
+        ),
+        stamp: getFileStamp(cache.fileSystem, entry.realPath),
+      };
+    }
+
+    let nodeModules: number | null | undefined;
+
+    if (entry.nodeModules === NodeModulesList.nullInstance) {
+      nodeModules = null;
+    } else if (entry.nodeModules) {
+      nodeModules = idOf(entry.nodeModules);
+    }
+
+    return {
+      kind: 'package',
+      realPath: entry.realPath,
+      packageJson: entry.packageJson as Record<string, unknown>,
+      isRoot: entry.isRoot,
+      isWorkspaceMember: entry.isWorkspaceMember,
+      valid: entry.valid,
+      processed: entry.processed,
+      errors: encodeErrors(entry.errors),
+      nodeModules,
+      dependencies: encodeDependencies(entry.dependenciesPackages),
+      devDependencies: encodeDependencies(entry.devDependenciesPackages),
+      optionalDependencies: encodeDependencies(
+        entry.optionalDependenciesPackages
+      ),
+      optionalDependenciesSkipped: entry.optionalDependenciesSkipped,
+      peerDependencies: encodeDependencies(entry.peerDependenciesPackages),
+      inRepoAddons: (entry as EmberAddonPackageInfo).inRepoAddons?.map(idOf),
+      packageJsonStamp: getFileStamp(
+        cache.fileSystem,
+        path.join(entry.realPath, 'package.json')
+      ),
+      nodeModulesStamp: getFileStamp(
+        cache.fileSystem,
+        path.join(entry.realPath, 'node_modules')
+      ),
+    };
+  });
+
+  return {
+    version: SNAPSHOT_VERSION,
+    loads,
+    projectRootDir: cache.projectRootDir,
+    rootPackage: cache.rootPackage ? idOf(cache.rootPackage) : undefined,
+    entries,
+  };
+}
+
+/**
+ * Recreate the entries of a snapshot in a cache, which is assumed to be empty.
+ * This does not check whether the entries are still up to date; see findStalePaths().
+ *
+ * @param snapshot - a snapshot created by encodeSnapshot(), with the current SNAPSHOT_VERSION.
+ * @param cache - the cache to add the entries to.
+ */
+export function decodeSnapshot(
+  snapshot: PackageInfoCacheSnapshot,
+  cache: PackageInfoCache
+): void {
+  debug('Restoring %o entries from a snapshot', snapshot.entries.length);
+
+  // first create all the entries, then link them together.
+  const entries = snapshot.entries.map(
+    (snapshotEntry): PackageInfoCacheEntry => {
+      if (snapshotEntry.kind === 'node-modules') {
+        const nodeModulesList = new NodeModulesList(
+          snapshotEntry.realPath,
+          cache
+        );
+        nodeModulesList.errors = decodeErrors(
+          snapshotEntry.errors,
+          snapshotEntry.realPath
+        );
+        return nodeModulesList;
+      }
+
+      const packageInfo = cache.packageInfoFactory.create(
+        snapshotEntry.packageJson,
+        snapshotEntry.realPath,
+        cache,
+        snapshotEntry.isRoot
+      );
+
+      // the constructor may have checked the file system again - the snapshot wins.
+      packageInfo.errors = decodeErrors(
+        snapshotEntry.errors,
+        snapshotEntry.realPath
+      );
+      packageInfo.isWorkspaceMember = snapshotEntry.isWorkspaceMember;
+      packageInfo.valid = snapshotEntry.valid;
+      packageInfo.processed = snapshotEntry.processed;
+
+      return packageInfo;
+    }
+  );
+
+  const packageOf = (id: number) => entries[id] as PackageInfo;
+
+  const decodeDependencies = (
+    dependencies: [string, number][] | undefined
+  ): Map<string, PackageInfo> | undefined =>
+    dependencies
+      ? new Map(dependencies.map(([name, id]) => [name, packageOf(id)]))
+      : undefined;
+
+  snapshot.entries.forEach((snapshotEntry, index) => {
+    const entry = entries[index] as PackageInfoCacheEntry;
+
+    if (entry instanceof NodeModulesList) {
+      (snapshotEntry as SnapshotNodeModulesList).entries.forEach(([name, id]) =>
+        entry.addEntry(name, entries[id] as PackageInfoCacheEntry)
+      );
+    } else {
+      const snapshotPackage = snapshotEntry as SnapshotPackageInfo;
+
+      if (snapshotPackage.nodeModules === null) {
+        entry.nodeModules = NodeModulesList.nullInstance;
+      } else if (snapshotPackage.nodeModules !== undefined) {
+        entry.nodeModules = entries[
+          snapshotPackage.nodeModules
+        ] as NodeModulesList;
+      }
+
+      entry.dependenciesPackages = decodeDependencies(
+        snapshotPackage.dependencies
+      );
+      entry.devDependenciesPackages = decodeDependencies(
+        snapshotPackage.devDependencies
+      );
+      entry.optionalDependenciesPackages = decodeDependencies(
+        snapshotPackage.optionalDependencies
+      );
+      entry.optionalDependenciesSkipped =
+        snapshotPackage.optionalDependenciesSkipped;
+      entry.peerDependenciesPackages = decodeDependencies(
+        snapshotPackage.peerDependencies
+      );
+
+      if (
+        entry instanceof EmberAddonPackageInfo ||
+        entry instanceof EmberAppPackageInfo
+      ) {
+        snapshotPackage.inRepoAddons?.forEach((id) =>
+          entry.addInRepoAddon(entries[id] as EmberAddonPackageInfo)
+        );
+      }
+    }
+
+    cache.entries.set(entry.realPath, entry);
+  });
+
+  cache.projectRootDir = snapshot.projectRootDir;
+  cache.rootPackage =
+    snapshot.rootPackage === undefined
+      ? undefined
+      : packageOf(snapshot.rootPackage);
+}
+
+/**
+ * Compare the stamps recorded in a snapshot against the file system, and return
+ * the paths of the entries that are out of date. Paths below another stale path
+ * are left out, since re-reading the outer path re-reads them too.
+ *
+ * A package is stale if its package.json has changed, or if a node_modules
+ * directory has appeared in (or disappeared from) it and the snapshot has no
+ * entry for that directory. A node_modules directory is stale if its list of
+ * files has changed.
+ *
+ * @param snapshot - a snapshot created by encodeSnapshot().
+ * @param fileSystem - the file system the cache reads from.
+ */
+export function findStalePaths(
+  snapshot: PackageInfoCacheSnapshot,
+  fileSystem: FileSystem
+): string[] {
+  const entryPaths = new Set(snapshot.entries.map((entry) => entry.realPath));
+
+  const stalePaths = snapshot.entries
+    .filter((entry) => {
+      if (entry.kind === 'node-modules') {
+        return !isSameStamp(
+          entry.stamp,
+          getFileStamp(fileSystem, entry.realPath)
+        );
+      }
+
+      if (
+        !isSameStamp(
+          entry.packageJsonStamp,
+          getFileStamp(fileSystem, path.join(entry.realPath, 'package.json'))
+        )
+      ) {
+        return true;
+      }
+
+      const nodeModulesPath = path.join(entry.realPath, 'node_modules');
+
+      return (
+        !entryPaths.has(nodeModulesPath) &&
+        !isSameStamp(
+          entry.nodeModulesStamp,
+          getFileStamp(fileSystem, nodeModulesPath)
+        )
+      );
+    })
+    .map((entry) => entry.realPath)
+    .sort();
+
+  // sorted, so any enclosing path comes before the paths below it.
+  return stalePaths.filter(
+    (stalePath, index) =>
+      !stalePaths
+        .slice(0, index)
+        .some((outerPath) => stalePath.startsWith(`${outerPath}${path.sep}`))
+  );
+}
@@ -0,0 +1,440 @@
+import Debug from 'debug';
+import { EventEmitter } from 'node:events';
+import path from 'node:path';
+
+import { EmberAddonPackageInfo } from './ember-addon-package-info';
+import { EmberAppPackageInfo } from './ember-app-package-info';
+import { ERRORS } from './errors';
+import type { FileSystemWatch } from './file-system';
+import { NodeModulesList } from './node-modules-list';
+import { PackageInfo } from './package-info';
+import type { PackageInfoCache } from './package-info-cache';
+
+const debug = Debug('PIC:package-info-cache-watcher');
+const PACKAGE_JSON = 'package.json';
+const DEFAULT_DEBOUNCE = 50;
+
+/**
+ * The events emitted by a PackageInfoCacheWatcher, and the arguments passed
+ * to their listeners.
+ */
+export type PackageInfoCacheWatcherEvents = {
+  // a package that was not in the cache before is now.
+  'package-added': [packageInfo: PackageInfo];
+
+  // a package that was in the cache before no longer is.
+  'package-removed': [packageInfo: PackageInfo];
+
+  // the package.json of a package in the cache has changed.
+  'package-changed': [packageInfo: PackageInfo, previous: PackageInfo];
+
+  // one of the dependencies of a package now resolves to a different package (or none).
+  'dependency-rewired': [
+    packageInfo: PackageInfo,
+    dependencyName: string,
+    previous: PackageInfo | undefined,
+    current: PackageInfo | undefined
+  ];
+
+  // something went wrong while re-reading the changes found by watching. If there
+  // is no listener for it, the error is only logged (with the 'debug' module).
+  error: [error: Error];
+};
+
+export type PackageInfoCacheWatcherEventName =
+  keyof PackageInfoCacheWatcherEvents;
+
+export type PackageInfoCacheWatcherOptions = {
+  // how long (in ms) to wait for more changes before re-reading the cache (default 50).
+  debounce?: number;
+
+  // whether the watchers keep the process running (default true, as in fs.watch()).
+  persistent?: boolean;
+
+  // whether to also watch the directory of every package in a node_modules
+  // directory, for changes to its package.json (default false). Packages that are
+  // added to or removed from a node_modules directory are found either way. Each
+  // directory watched takes a file handle (an inotify watch on Linux), and a large
+  // app can have thousands of packages.
+  watchDependencies?: boolean;
+};
+
+// What a single file system watcher is for, and which path to invalidate
+// when a file changes in the watched directory.
+type WatchTarget = {
+  watcher: FileSystemWatch;
+  roles: Map<string, (fileName: string) => string | undefined>;
+};
+
+// The state of the cache before a change, to compare against afterwards.
+type CacheState = {
+  packages: Map<string, PackageInfo>;
+  dependencies: Map<string, Map<string, PackageInfo>>;
+};
+
+/**
+ * Class that keeps a PackageInfoCache up to date with the file system. It watches
+ * every node_modules directory, the directory of every package outside of them
+ * (the root package, workspaces and in-repo addons, for changes to package.json)
+ * and every missing in-repo addon target in the cache, through the cache's
+ * FileSystem. It re-reads the affected entries with PackageInfoCache.invalidate()
+ * when something changes, and emits events describing what changed. It is only
+ * created by PackageInfoCache.watch().
+ */
+export class PackageInfoCacheWatcher {
+  cache: PackageInfoCache;
+  debounce: number;
+  persistent: boolean;
+  watchDependencies: boolean;
+
+  #emitter: EventEmitter;
+  #targets: Map<string, WatchTarget>;
+  #pendingPaths: Set<string>;
+  #timer: NodeJS.Timeout | undefined;
+  #closed: boolean;
+
+  constructor(
+    cache: PackageInfoCache,
+    options: PackageInfoCacheWatcherOptions = {}
+  ) {
+    this.cache = cache;
+    this.debounce = options.debounce ?? DEFAULT_DEBOUNCE;
+    this.persistent = options.persistent ?? true;
+    this.watchDependencies = options.watchDependencies ?? false;
+
+    this.#emitter = new EventEmitter();
+    this.#targets = new Map();
+    this.#pendingPaths = new Set();
+    this.#timer = undefined;
+    this.#closed = false;
+
+    this.#syncTargets();
+  }
+
+  on<E extends PackageInfoCacheWatcherEventName>(
+    eventName: E,
+    listener: (...args: PackageInfoCacheWatcherEvents[E]) => void
+  ): this {
+    this.#emitter.on(eventName, listener as (...args: unknown[]) => void);
+    return this;
+  }
+
+  once<E extends PackageInfoCacheWatcherEventName>(
+    eventName: E,
+    listener: (...args: PackageInfoCacheWatcherEvents[E]) => void
+  ): this {
+    this.#emitter.once(eventName, listener as (...args: unknown[]) => void);
+    return this;
+  }
+
+  off<E extends PackageInfoCacheWatcherEventName>(
+    eventName: E,
+    listener: (...args: PackageInfoCacheWatcherEvents[E]) => void
+  ): this {
+    this.#emitter.off(eventName, listener as (...args: unknown[]) => void);
+    return this;
+  }
+
+  /**
+   * The directories currently being watched.
+   */
+  get watchedPaths(): string[] {
+    return [...this.#targets.keys()].sort();
+  }
+
+  /**
+   * Re-read the cache entries for the given changed paths right away (instead of
+   * waiting for the file system to report the changes) and emit the events for
+   * whatever changed. If re-reading a path fails, the other paths are still
+   * re-read and the events for them emitted before the error is thrown.
+   *
+   * @param changedPaths - the paths that changed. See PackageInfoCache.invalidate().
+   */
+  refresh(...changedPaths: string[]): void {
+    if (this.#closed) {
+      return;
+    }
+
+    const before = this.#getCacheState();
+    const errors: unknown[] = [];
+
+    changedPaths.forEach((changedPath) => {
+      debug('Refreshing %o', changedPath);
+
+      try {
+        this.cache.invalidate(changedPath);
+      } catch (e) {
+        errors.push(e);
+      }
+    });
+
+    this.#emitChanges(before, this.#getCacheState());
+    this.#syncTargets();
+
+    if (errors.length > 0) {
+      throw errors[0];
+    }
+  }
+
+  /**
+   * Stop watching the file system. No more events will be emitted.
+   */
+  close(): void {
+    this.#closed = true;
+
+    if (this.#timer) {
+      clearTimeout(this.#timer);
+      this.#timer = undefined;
+    }
+
+    this.#targets.forEach((target) => target.watcher.close());
+    this.#targets.clear();
+    this.#pendingPaths.clear();
+  }
+
+  /**
+   * Record a changed path and (re)start the debounce timer.
+   */
+  #schedule(changedPath: string): void {
+    if (this.#closed) {
+      return;
+    }
+
+    this.#pendingPaths.add(changedPath);
+
+    if (this.#timer) {
+      clearTimeout(this.#timer);
+    }
+
+    this.#timer = setTimeout(() => {
+      this.#timer = undefined;
+      const changedPaths = [...this.#pendingPaths];
+      this.#pendingPaths.clear();
+
+      try {
+        this.refresh(...changedPaths);
+      } catch (e) {
+        // an 'error' event with no listener would be thrown, from a timer.
+        if (this.#emitter.listenerCount('error') > 0) {
+          this.#emitter.emit('error', e);
+        } else {
+          debug('Unable to refresh %o: %o', changedPaths, e);
+        }
+      }
+    }, this.debounce);
+  }
+
+  /**
+   * Figure out the directories that need to be watched for the current contents
+   * of the cache, start watching any new ones and stop watching any old ones.
+   */
+  #syncTargets(): void {
+    const roles = new Map<
+      string,
+      Map<string, (fileName: string) => string | undefined>
+    >();
+
+    const addRole = (
+      dirPath: string,
+      roleKey: string,
+      role: (fileName: string) => string | undefined
+    ) => {
+      let dirRoles = roles.get(dirPath);
+
+      if (!dirRoles) {
+        dirRoles = new Map();
+        roles.set(dirPath, dirRoles);
+      }
+
+      dirRoles.set(roleKey, role);
+    };
+
+    this.cache.entries.forEach((entry) => {
+      if (entry instanceof NodeModulesList) {
+        addRole(entry.realPath, 'node_modules', () => entry.realPath);
+        return;
+      }
+
+      const packageDir = entry.realPath;
+
+      if (!this.watchDependencies && isInNodeModules(packageDir)) {
+        return;
+      }
+
+      if (
+        entry.errors
+          .getErrors()
+          .some((error) => error.type === ERRORS.ERROR_PACKAGE_DIR_MISSING)
+      ) {
+        // watch for the directory (e.g., an in-repo addon target) to appear.
+        addRole(path.dirname(packageDir), `missing:${packageDir}`, (fileName) =>
+          fileName === path.basename(packageDir) ? packageDir : undefined
+        );
+      } else {
+        addRole(packageDir, 'package', (fileName) =>
+          fileName === PACKAGE_JSON ? packageDir : undefined
+        );
+      }
+
+      if (
+        entry instanceof EmberAddonPackageInfo ||
+        entry instanceof EmberAppPackageInfo
+      ) {
+        entry.inRepoAddons?.forEach((addon) => {
+          if (!this.watchDependencies && isInNodeModules(addon.realPath)) {
+            return;
+          }
+
+          addRole(addon.realPath, 'package', (fileName) =>
+            fileName === PACKAGE_JSON ? addon.realPath : undefined
+          );
+        });
+      }
+    });
+
+    // stop watching directories we no longer need
+    [...this.#targets.keys()].forEach((dirPath) => {
+      if (!roles.has(dirPath)) {
+        this.#targets.get(dirPath)?.watcher.close();
+        this.#targets.delete(dirPath);
+      }
+    });
+
+    roles.forEach((dirRoles, dirPath) => {
+      const existing = this.#targets.get(dirPath);
+
+      if (existing) {
+        existing.roles = dirRoles;
+        return;
+      }
+
+      const watcher = this.#watchDirectory(dirPath);
+
+      if (watcher) {
+        this.#targets.set(dirPath, { watcher, roles: dirRoles });
+      }
+    });
+  }
+
+  /**
+   * Start watching a single directory, if the cache's file system can watch.
+   */
+  #watchDirectory(dirPath: string): FileSystemWatch | undefined {
+    const watcher = this.cache.fileSystem.watch?.(
+      dirPath,
+      this.persistent,
+      (fileName) => {
+        const target = this.#targets.get(dirPath);
+
+        if (!target) {
+          return;
+        }
+
+        target.roles.forEach((role) => {
+          const changedPath = role(fileName);
+
+          if (changedPath) {
+            this.#schedule(changedPath);
+          }
+        });
+      },
+      () => {
+        // most likely the directory was removed. Re-read it, which will stop the
+        // watching if it is really gone.
+        this.#targets.delete(dirPath);
+        this.#schedule(dirPath);
+      }
+    );
+
+    if (!watcher) {
+      debug('Unable to watch %o', dirPath);
+    }
+
+    return watcher;
+  }
+
+  /**
+   * Capture the packages in the cache and where each one's dependencies resolve to.
+   */
+  #getCacheState(): CacheState {
+    const packages = new Map<string, PackageInfo>();
+    const dependencies = new Map<string, Map<string, PackageInfo>>();
+
+    this.cache.entries.forEach((entry, key) => {
+      if (!(entry instanceof PackageInfo)) {
+        return;
+      }
+
+      packages.set(key, entry);
+
+      const resolved = new Map<string, PackageInfo>();
+      [
+        entry.dependenciesPackages,
+        entry.devDependenciesPackages,
+        entry.optionalDependenciesPackages,
+        entry.peerDependenciesPackages,
+      ].forEach((packageMap) =>
+        packageMap?.forEach((pkg, name) => resolved.set(name, pkg))
+      );
+
+      dependencies.set(key, resolved);
+    });
+
+    return { packages, dependencies };
+  }
+
+  /**
+   * Compare the state of the cache before and after a change and emit the events.
+   */
+  #emitChanges(before: CacheState, after: CacheState): void {
+    before.packages.forEach((pkg, key) => {
+      if (!after.packages.has(key)) {
+        this.#emitter.emit('package-removed', pkg);
+      }
+    });
+
+    after.packages.forEach((pkg, key) => {
+      const previous = before.packages.get(key);
+
+      if (!previous) {
+        this.#emitter.emit('package-added', pkg);
+      } else if (
+        previous !== pkg &&
+        JSON.stringify(previous.packageJson) !== JSON.stringify(pkg.packageJson)
+      ) {
+        this.#emitter.emit('package-changed', pkg, previous);
+      }
+
+      const previousDeps = before.dependencies.get(key);
+      const currentDeps = after.dependencies.get(key) as Map<
+        string,
+        PackageInfo
+      >;
+
+      if (!previousDeps) {
+        return;
+      }
+
+      const names = new Set([...previousDeps.keys(), ...currentDeps.keys()]);
+
+      names.forEach((name) => {
+        const previousDep = previousDeps.get(name);
+        const currentDep = currentDeps.get(name);
+
+        if (previousDep?.realPath !== currentDep?.realPath) {
+          this.#emitter.emit(
+            'dependency-rewired',
+            pkg,
+            name,
+            previousDep,
+            currentDep
+          );
+        }
+      });
+    });
+  }
+}
+
+function isInNodeModules(dirPath: string): boolean {
+  return dirPath.split(path.sep).includes('node_modules');
+}
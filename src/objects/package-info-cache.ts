@@ -67,37 +67,155 @@
  */
 import Debug from 'debug';
 import fs from 'fs-extra';
+import Module from 'node:module';
 import path from 'node:path';
-import {
-  _resetCache as resetPackagePathCache,
-  getRealDirectoryPath,
-  getRealFilePath,
-} from 'resolve-package-path';
 
 import { isEmberPackageJson } from '../types/ember-package-json';
-import { getObjectProperty, isString, isStringArray } from '../utils';
+import {
+  createLimiter,
+  expandWorkspacePatterns,
+  expandWorkspacePatternsAsync,
+  findJsonParseErrorLocation,
+  getObjectProperty,
+  getWorkspacePatterns,
+  isString,
+  isStringArray,
+  Limiter,
+  parseJson,
+  parsePackageRequest,
+} from '../utils';
+import { DependencyGraph, DependencyGraphOptions } from './dependency-graph';
+import { ConsoleErrorReporter } from './console-error-reporter';
+import { DuplicatePackage, findDuplicatePackages } from './duplicate-packages';
 import { EmberAddonPackageInfo } from './ember-addon-package-info';
 import { EmberAppPackageInfo } from './ember-app-package-info';
+import { buildEngineTree, EmberEngineTree } from './ember-engine-tree';
 import { ErrorList } from './error-list';
-import { ERRORS } from './errors';
+import {
+  DEFAULT_SUPPRESSED_ERRORS,
+  ErrorReport,
+  ErrorReportEntry,
+  ErrorReporter,
+  ErrorReportOptions,
+} from './error-reporter';
+import { ERRORS, LOCKFILE_ERRORS } from './errors';
+import type { FileSystem } from './file-system';
+import {
+  findLockfile,
+  InstalledPackage,
+  LockfileVerification,
+  readLockfile,
+  verifyLockfile,
+} from './lockfile-verification';
+import { NodeFileSystem } from './node-file-system';
 import { NodeModulesList } from './node-modules-list';
+import { resolvePackageExports } from './package-exports';
 import { PackageInfo } from './package-info';
-import { PackageInfoFactory } from './package-info-factory';
+import {
+  PackageInfoCacheWatcher,
+  PackageInfoCacheWatcherOptions,
+} from './package-info-cache-watcher';
+import {
+  decodeSnapshot,
+  encodeSnapshot,
+  findStalePaths,
+  PackageInfoCacheSnapshot,
+  SNAPSHOT_VERSION,
+  SnapshotLoad,
+} from './package-info-cache-snapshot';
+import { AnyPackageType, PackageInfoFactory } from './package-info-factory';
+import {
+  DEFAULT_PACKAGE_JSON_RULES,
+  PackageJsonRule,
+} from './package-json-rules';
+import type { ResolutionBackend } from './resolution-backend';
+import { RESOLUTION_REASONS, ResolutionTrace } from './resolution-trace';
 
 const debug = Debug('PIC:package-info-cache');
 const PACKAGE_JSON = 'package.json';
+const PNPM_WORKSPACE_YAML = 'pnpm-workspace.yaml';
+const DEFAULT_CONCURRENCY = 16;
+const PROJECT_ROOT_CONFLICT_MESSAGE = `Both 'ember-addon.projectRoot' and 'ember-cli-build.js' exist in the project directory`;
 
 export type PackageInfoCacheEntry = PackageInfo | NodeModulesList;
 
+export type PackageInfoCacheOptions = {
+  // the maximum number of file system operations in flight at once when
+  // loading asynchronously (loadProjectAsync, loadAppAsync, loadAddonAsync).
+  concurrency?: number;
+
+  // how to find packages that are not in node_modules directories (e.g. a
+  // PnpResolutionBackend for Yarn Plug'n'Play).
+  resolutionBackend?: ResolutionBackend;
+
+  // where to read the packages from (default a NodeFileSystem, which reads the
+  // disk), e.g. a MemoryFileSystem.
+  fileSystem?: FileSystem;
+
+  // types of package to create PackageInfo subclasses for, as well as the
+  // DEFAULT_PACKAGE_TYPES (see PackageInfoFactory.register()).
+  packageTypes?: AnyPackageType[];
+
+  // the rules to check every package.json with (default
+  // DEFAULT_PACKAGE_JSON_RULES), recording what they find as warnings.
+  packageJsonRules?: PackageJsonRule[];
+};
+
 export class PackageInfoCache {
   entries: Map<string, PackageInfoCacheEntry>;
   projectRootDir: string | undefined;
   rootPackage?: PackageInfo; // it's required, but not set in constructor
 
-  constructor() {
+  // the workspace members found by loadWorkspace(), keyed by package name (or by
+  // real path, for a member with no name).
+  workspacePackages: Map<string, PackageInfo>;
+
+  // the resolution backend given in the options, if any.
+  resolutionBackend: ResolutionBackend | undefined;
+
+  // the file system that packages are read from.
+  fileSystem: FileSystem;
+
+  // creates the PackageInfo for each package, with the class of its registered type.
+  packageInfoFactory: PackageInfoFactory;
+
+  // the rules that every package.json is checked with when it is read.
+  packageJsonRules: PackageJsonRule[];
+
+  // limits the file system operations in flight during asynchronous loads
+  #limit: Limiter;
+
+  // asynchronous reads in progress, keyed by path, so each path is only read once.
+  #pendingReads: Map<string, Promise<PackageInfoCacheEntry | undefined>>;
+
+  // the load calls made on the cache, so they can be recorded in a snapshot.
+  #loads: SnapshotLoad[];
+
+  // the dependency graph of the cache, built when first needed.
+  #graph: DependencyGraph | undefined;
+
+  // the real paths of the workspace members, so a member that is re-read (e.g. by
+  // invalidate()) is marked as a member again.
+  #workspaceDirs: Set<string>;
+
+  constructor(options: PackageInfoCacheOptions = {}) {
     this.entries = new Map<string, PackageInfoCacheEntry>();
     this.projectRootDir = undefined;
-    resetPackagePathCache();
+    this.#limit = createLimiter(options.concurrency ?? DEFAULT_CONCURRENCY);
+    this.#pendingReads = new Map();
+    this.#loads = [];
+    this.#graph = undefined;
+    this.workspacePackages = new Map();
+    this.#workspaceDirs = new Set();
+    this.resolutionBackend = options.resolutionBackend;
+    this.fileSystem = options.fileSystem ?? new NodeFileSystem();
+    this.packageInfoFactory = new PackageInfoFactory();
+    options.packageTypes?.forEach((packageType) =>
+      this.packageInfoFactory.register(packageType)
+    );
+    this.packageJsonRules = [
+      ...(options.packageJsonRules ?? DEFAULT_PACKAGE_JSON_RULES),
+    ];
   }
 
   /**
@@ -106,7 +224,11 @@ export class PackageInfoCache {
   #clear(): void {
     this.entries = new Map<string, PackageInfoCacheEntry>();
     this.projectRootDir = undefined;
-    resetPackagePathCache();
+    this.rootPackage = undefined;
+    this.#loads = [];
+    this.#graph = undefined;
+    this.workspacePackages = new Map();
+    this.#workspaceDirs = new Set();
   }
 
   // simple utility to help shorten debug messages by removing the root path.
@@ -121,7 +243,8 @@ export class PackageInfoCache {
   }
 
   /**
-   * Indicates if there is at least one error in any object in the cache.
+   * Indicates if there is at least one error in any object in the cache. Warnings
+   * alone don't count.
    */
   hasErrors(): boolean {
     for (const cacheEntry of this.entries.values()) {
@@ -134,7 +257,8 @@ export class PackageInfoCache {
   }
 
   /**
-   * Return the list of PackageInfoCacheEntry objects that have errors.
+   * Return the list of PackageInfoCacheEntry objects that have errors (not just
+   * warnings).
    */
   findErrors(): PackageInfoCacheEntry[] {
     const errorEntries: PackageInfoCacheEntry[] = [];
@@ -150,11 +274,65 @@ export class PackageInfoCache {
 
   /**
    * Gather all the errors in the PIC and any cached objects, then dump them
-   * out to the console.
+   * out to the console (see ConsoleErrorReporter).
+   *
+   * @param options - see getErrorReport().
+   */
+  showErrors(options?: ErrorReportOptions): void {
+    const report = this.reportErrors(new ConsoleErrorReporter(), options);
+
+    if (report) {
+      console.info(report);
+    }
+  }
+
+  /**
+   * Report the errors in the cache in some format, e.g. with a JsonErrorReporter,
+   * SarifErrorReporter or JUnitErrorReporter for CI tools.
+   *
+   * @param reporter - the reporter for the format.
+   * @param options - see getErrorReport().
+   * @returns the formatted report.
+   */
+  reportErrors(reporter: ErrorReporter, options?: ErrorReportOptions): string {
+    return reporter.format(this.getErrorReport(options));
+  }
+
+  /**
+   * Get the entries of the cache that have errors (and, if asked for, warnings) to
+   * report, with those errors and warnings.
+   *
+   * @param options - suppress: the types of errors to leave out of the report. By
+   * default, the errors of packages whose directory is missing are left out, as
+   * the packages that depend on them report them as missing. severity: the least
+   * severe errors to report. By default only errors are reported; 'warning'
+   * reports the warnings too (e.g. those of the packageJsonRules, which are found
+   * in many third-party packages).
    */
-  showErrors(): void {
-    const errors = this.findErrors();
-    errors.forEach((obj) => this.#showObjErrors(obj));
+  getErrorReport(options: ErrorReportOptions = {}): ErrorReport {
+    const suppress = options.suppress ?? DEFAULT_SUPPRESSED_ERRORS;
+    const severity = options.severity ?? 'error';
+    const entries: ErrorReportEntry[] = [];
+
+    this.entries.forEach((entry) => {
+      const errors = entry.errors
+        .getErrors()
+        .filter(
+          (errorEntry) =>
+            !suppress.includes(errorEntry.type) &&
+            (severity === 'warning' || errorEntry.severity === 'error')
+        );
+
+      if (errors.length > 0) {
+        entries.push({ entry, errors });
+      }
+    });
+
+    return {
+      rootDir:
+        this.projectRootDir ?? this.rootPackage?.realPath ?? process.cwd(),
+      entries,
+    };
   }
 
   /**
@@ -181,6 +359,12 @@ export class PackageInfoCache {
       `Initializing packageInfoCache from project root '${projectRootDir}'`
     );
 
+    this.#recordLoad({
+      method: 'loadProject',
+      rootDir: projectRootDir,
+      isRoot,
+    });
+
     // Store the project/MP's root dir in the cache for later use, whether or
     // not this is actually the directory of the 'root' package (the app could
     // could be either here, like voyager-web used to be, or at 'ember-addon.projectRoot',
@@ -191,35 +375,21 @@ export class PackageInfoCache {
 
     // In this one case, we need to pre-empt the normal #readPackage mechanism
     // to figure out if we're in the app root directory yet and if not, shift to it.
-    const projectPkgJson = fs.readJsonSync(
-      path.join(projectRootDir, 'package.json'),
-      {
-        encoding: 'utf-8',
-        throws: false,
-      }
-    ) as unknown;
-
-    if (!projectPkgJson) {
-      debug(`The 'package.json' file is either invalid or does not exist`);
-      // we're going to go ahead and allow loading the app anyway, which should put
-      // an invalid project entry into the cache.
-    } else {
-      debug(`Found the 'package.json' file`);
-
-      // allow `package.json` files to specify where the actual project lives
-      // via the 'ember-addon.projectRoot setting.
-      const projectRoot = this.#findEmberProjectRoot(projectPkgJson);
+    const projectPkgJson = this.#readJson(
+      path.join(projectRootDir, 'package.json')
+    );
 
-      if (projectRoot) {
-        if (fs.existsSync(path.join(projectRootDir, 'ember-cli-build.js'))) {
-          throw new Error(
-            `Both 'ember-addon.projectRoot' and 'ember-cli-build.js' exist in the project directory`
-          );
-        }
+    const appRootDir = this.#getAppRootDir(projectRootDir, projectPkgJson);
 
-        // Load from the real app root (e.g., voyager-web/packages/voyager-web).
-        return this.loadApp(path.resolve(projectRootDir, projectRoot), isRoot);
+    if (appRootDir) {
+      if (
+        this.fileSystem.stat(path.join(projectRootDir, 'ember-cli-build.js'))
+      ) {
+        throw new Error(PROJECT_ROOT_CONFLICT_MESSAGE);
       }
+
+      // Load from the real app root (e.g., voyager-web/packages/voyager-web).
+      return this.loadApp(appRootDir, isRoot);
     }
 
     // We have the case like voyager-web used to be - the app and the project are
@@ -227,6 +397,57 @@ export class PackageInfoCache {
     return this.loadApp(projectRootDir, isRoot);
   }
 
+  /**
+   * The asynchronous version of loadProject(). The package.json files and
+   * node_modules directories are read with bounded concurrency (see the
+   * 'concurrency' option of the constructor), so the event loop is not
+   * blocked while loading. The resulting entries and errors are the same
+   * as those produced by loadProject().
+   *
+   * @param projectRootDir - the absolute path of the project's root directory.
+   * @param isRoot - is the project being loaded as the root package of the cache?
+   */
+  async loadProjectAsync(
+    projectRootDir: string,
+    isRoot = true
+  ): Promise<PackageInfo> {
+    debug(
+      `Initializing packageInfoCache asynchronously from project root '${projectRootDir}'`
+    );
+
+    this.#recordLoad({
+      method: 'loadProject',
+      rootDir: projectRootDir,
+      isRoot,
+    });
+
+    this.projectRootDir = projectRootDir;
+
+    const projectPkgJson = await this.#limit(() =>
+      this.#readJsonAsync(path.join(projectRootDir, 'package.json'))
+    );
+
+    const appRootDir = this.#getAppRootDir(projectRootDir, projectPkgJson);
+
+    if (appRootDir) {
+      const hasEmberCliBuild = await this.#limit(async () =>
+        Boolean(
+          await this.fileSystem.statAsync(
+            path.join(projectRootDir, 'ember-cli-build.js')
+          )
+        )
+      );
+
+      if (hasEmberCliBuild) {
+        throw new Error(PROJECT_ROOT_CONFLICT_MESSAGE);
+      }
+
+      return this.loadAppAsync(appRootDir, isRoot);
+    }
+
+    return this.loadAppAsync(projectRootDir, isRoot);
+  }
+
   /**
    * Do the initial load from the point of view of the app's root directory.
    * @param appRootDir - the absolute path of the app's root directory (e.g. for voyager-web,
@@ -238,6 +459,8 @@ export class PackageInfoCache {
    * @returns
    */
   loadApp(appRootDir: string, isRoot = true): PackageInfo {
+    this.#recordLoad({ method: 'loadApp', rootDir: appRootDir, isRoot });
+
     const pkgInfo = this.#readPackage(appRootDir, isRoot);
 
     if (pkgInfo.processed) {
@@ -260,6 +483,31 @@ export class PackageInfoCache {
     return pkgInfo;
   }
 
+  /**
+   * The asynchronous version of loadApp(). See loadProjectAsync().
+   * @param appRootDir - the absolute path of the app's root directory.
+   * @param isRoot - is this the root object of the run? See loadApp().
+   */
+  async loadAppAsync(appRootDir: string, isRoot = true): Promise<PackageInfo> {
+    this.#recordLoad({ method: 'loadApp', rootDir: appRootDir, isRoot });
+
+    const pkgInfo = await this.#readPackageAsync(appRootDir, isRoot);
+
+    if (pkgInfo.processed) {
+      return pkgInfo;
+    }
+
+    if (isRoot) {
+      this.rootPackage = pkgInfo;
+
+      // Everything below the app is loaded by now, so resolving is done in memory,
+      // except for any node_modules directories above the app that we haven't seen yet.
+      this.#resolveDependencies();
+    }
+
+    return pkgInfo;
+  }
+
   /**
    * Load the cache from the point of view of a specific addon, e.g., when doing AIDE.
    * Unlike loadProject and loadApp, this function is never called indirectly.
@@ -271,6 +519,12 @@ export class PackageInfoCache {
    * @returns the PackageInfo object for the addon.
    */
   loadAddon(addonRootDir: string, projectRelativePath: string): PackageInfo {
+    this.#recordLoad({
+      method: 'loadAddon',
+      rootDir: addonRootDir,
+      projectRelativePath,
+    });
+
     const pkgInfo = this.#readPackage(addonRootDir, true);
 
     if (pkgInfo.processed) {
@@ -287,6 +541,126 @@ export class PackageInfoCache {
     return pkgInfo;
   }
 
+  /**
+   * The asynchronous version of loadAddon(). See loadProjectAsync().
+   * @param addonRootDir - the absolute path to the addon's root directory
+   * @param projectRelativePath - the relative path from the addon's root directory to the
+   * project/MP's root directory.
+   * @returns the PackageInfo object for the addon.
+   */
+  async loadAddonAsync(
+    addonRootDir: string,
+    projectRelativePath: string
+  ): Promise<PackageInfo> {
+    this.#recordLoad({
+      method: 'loadAddon',
+      rootDir: addonRootDir,
+      projectRelativePath,
+    });
+
+    const pkgInfo = await this.#readPackageAsync(addonRootDir, true);
+
+    if (pkgInfo.processed) {
+      return pkgInfo;
+    }
+
+    this.rootPackage = pkgInfo;
+    await this.loadProjectAsync(
+      path.resolve(addonRootDir, projectRelativePath),
+      false
+    );
+    this.#resolveDependencies();
+
+    return pkgInfo;
+  }
+
+  /**
+   * Load a monorepo whose workspaces are declared in the 'workspaces' field of its
+   * root package.json (as for yarn and npm, in either the array or the '{ packages }'
+   * form) or in a pnpm-workspace.yaml file. The root package is the root package of
+   * the cache, every package matched by the workspace globs is read and marked as a
+   * workspace member (see workspacePackages), and then the dependencies of all of
+   * them are resolved, including the devDependencies of each member. A dependency on
+   * another member that is not linked into a node_modules directory resolves to the
+   * member itself.
+   *
+   * @param rootDir - the absolute path of the monorepo's root directory.
+   * @returns the PackageInfo object for the root package.
+   */
+  loadWorkspace(rootDir: string): PackageInfo {
+    debug(`Initializing packageInfoCache from workspace root '${rootDir}'`);
+
+    this.#recordLoad({ method: 'loadWorkspace', rootDir });
+
+    this.projectRootDir = rootDir;
+
+    const packageJson = this.#readJson(path.join(rootDir, PACKAGE_JSON));
+    const pnpmWorkspaceYaml = this.fileSystem.readFile(
+      path.join(rootDir, PNPM_WORKSPACE_YAML)
+    );
+
+    const memberDirs = expandWorkspacePatterns(
+      this.fileSystem,
+      rootDir,
+      getWorkspacePatterns(packageJson, pnpmWorkspaceYaml)
+    );
+
+    memberDirs.forEach((memberDir) => this.#workspaceDirs.add(memberDir));
+
+    const pkgInfo = this.#readPackage(rootDir, true);
+
+    memberDirs.forEach((memberDir) =>
+      this.#addWorkspaceMember(this.#readPackage(memberDir, false))
+    );
+
+    this.rootPackage = pkgInfo;
+    this.#resolveDependencies();
+
+    return pkgInfo;
+  }
+
+  /**
+   * The asynchronous version of loadWorkspace(). See loadProjectAsync().
+   * @param rootDir - the absolute path of the monorepo's root directory.
+   * @returns the PackageInfo object for the root package.
+   */
+  async loadWorkspaceAsync(rootDir: string): Promise<PackageInfo> {
+    debug(
+      `Initializing packageInfoCache asynchronously from workspace root '${rootDir}'`
+    );
+
+    this.#recordLoad({ method: 'loadWorkspace', rootDir });
+
+    this.projectRootDir = rootDir;
+
+    const [packageJson, pnpmWorkspaceYaml] = await Promise.all([
+      this.#limit(() => this.#readJsonAsync(path.join(rootDir, PACKAGE_JSON))),
+      this.#limit(() =>
+        this.fileSystem.readFileAsync(path.join(rootDir, PNPM_WORKSPACE_YAML))
+      ),
+    ]);
+
+    const memberDirs = await expandWorkspacePatternsAsync(
+      this.fileSystem,
+      rootDir,
+      getWorkspacePatterns(packageJson, pnpmWorkspaceYaml)
+    );
+
+    memberDirs.forEach((memberDir) => this.#workspaceDirs.add(memberDir));
+
+    const [pkgInfo, ...members] = await Promise.all([
+      this.#readPackageAsync(rootDir, true),
+      ...memberDirs.map((memberDir) => this.#readPackageAsync(memberDir)),
+    ]);
+
+    members.forEach((member) => this.#addWorkspaceMember(member));
+
+    this.rootPackage = pkgInfo;
+    this.#resolveDependencies();
+
+    return pkgInfo as PackageInfo;
+  }
+
   /**
    * Retrieve an entry from the cache.
    *
@@ -307,6 +681,179 @@ export class PackageInfoCache {
     return this.getEntry(absolutePath) !== undefined;
   }
 
+  /**
+   * Drop the cache entries for a path that has changed on disk and read them again.
+   *
+   * The path may be a package directory (or its package.json file), or a node_modules
+   * (or scope) directory. Everything cached at or below that directory is dropped and
+   * re-read, any other entries that referred to the dropped ones are pointed at their
+   * replacements, and the dependencies are resolved again only for the packages that
+   * could have been affected: those that referred to a dropped package, and those
+   * below the parent of the changed directory (whose node resolution passes through it).
+   *
+   * If there is no entry for the path (e.g., a package was just added to a node_modules
+   * directory), the nearest enclosing node_modules directory in the cache is re-read instead.
+   *
+   * @param absolutePath - the path that has changed.
+   * @returns the new entry for the re-read path, or undefined if the path is not part
+   * of the cache or no longer exists.
+   */
+  invalidate(absolutePath: string): PackageInfoCacheEntry | undefined {
+    let targetPath = path.normalize(absolutePath);
+
+    if (path.basename(targetPath) === PACKAGE_JSON) {
+      targetPath = path.dirname(targetPath);
+    }
+
+    let entry = this.getEntry(targetPath);
+
+    if (!entry) {
+      const realPath = this.#getRealDirectoryPath(targetPath);
+      entry = realPath ? this.getEntry(realPath) : undefined;
+      targetPath = entry ? entry.realPath : targetPath;
+    }
+
+    // for a path we've never seen, re-read the nearest node_modules directory containing it.
+    while (!entry) {
+      const parentPath = path.dirname(targetPath);
+
+      if (parentPath === targetPath) {
+        return undefined;
+      }
+
+      targetPath = parentPath;
+      const parentEntry = this.getEntry(targetPath);
+
+      if (parentEntry instanceof NodeModulesList) {
+        entry = parentEntry;
+      } else if (parentEntry) {
+        // a package directory - whatever changed is not in a node_modules directory.
+        return undefined;
+      }
+    }
+
+    debug('Invalidating %o', this.relative(targetPath));
+
+    const removed = this.#removeEntries(targetPath);
+
+    let newEntry: PackageInfoCacheEntry | undefined;
+
+    if (entry instanceof PackageInfo) {
+      newEntry = this.#readPackage(targetPath, entry.isRoot);
+    } else {
+      newEntry = this.#readNodeModulesList(targetPath);
+    }
+
+    const affected = this.#relinkEntries(removed);
+
+    // node resolution from anywhere below the parent directory passes through the
+    // changed directory, so those packages may now resolve differently.
+    const parentPrefix = `${path.dirname(targetPath)}${path.sep}`;
+
+    this.#getPackageInfos().forEach((packageInfo) => {
+      if (packageInfo.realPath.startsWith(parentPrefix)) {
+        affected.add(packageInfo);
+      }
+    });
+
+    affected.forEach((packageInfo) => packageInfo.resetDependencies());
+
+    this.#resolveDependencies();
+
+    return newEntry;
+  }
+
+  /**
+   * Start watching the file system for changes to the packages in the cache (every
+   * node_modules directory, and the package.json of every package outside them,
+   * e.g. the root package, workspaces and in-repo addons).
+   * Changed entries are re-read with invalidate(), and the returned watcher emits
+   * 'package-added', 'package-removed', 'package-changed' and 'dependency-rewired'
+   * events describing what changed, or an 'error' event if re-reading fails. Call
+   * close() on the watcher to stop watching.
+   *
+   * @param options - how long to debounce changes, whether to keep the process
+   * running, and whether to watch the packages in node_modules directories too.
+   * @returns the watcher.
+   */
+  watch(options: PackageInfoCacheWatcherOptions = {}): PackageInfoCacheWatcher {
+    return new PackageInfoCacheWatcher(this, options);
+  }
+
+  /**
+   * Create a versioned, JSON-compatible snapshot of the cache: every entry, the
+   * resolved dependencies, in-repo addons and node_modules of each package, their
+   * errors, and the load calls that were made. References between entries are
+   * stored as indexes into the snapshot's list of entries. The modification time
+   * and inode of each package.json and node_modules directory are also recorded,
+   * so that loadFromSnapshot() can tell which entries are out of date.
+   */
+  toSnapshot(): PackageInfoCacheSnapshot {
+    return encodeSnapshot(this, this.#loads);
+  }
+
+  /**
+   * Write a snapshot of the cache (see toSnapshot()) to a JSON file. The file is
+   * always written on disk, as a FileSystem can't be written to; with another
+   * FileSystem (e.g. a MemoryFileSystem), add the toSnapshot() JSON to it instead.
+   *
+   * @param snapshotPath - the path of the file to write.
+   */
+  saveSnapshot(snapshotPath: string): void {
+    fs.outputJsonSync(snapshotPath, this.toSnapshot());
+  }
+
+  /**
+   * Replace the contents of the cache with those of a snapshot file written by
+   * saveSnapshot(), read through the cache's FileSystem. Any package.json or node_modules directory that has changed
+   * since the snapshot was taken is re-read (with invalidate()), so only the
+   * stale parts of the cache are loaded from disk. If the snapshot was written
+   * with a different snapshot version, the load calls recorded in it are made
+   * again, loading the cache from scratch.
+   *
+   * @param snapshotPath - the path of the snapshot file.
+   * @returns the root package, or undefined if the snapshot could not be read
+   * (in which case the cache is left unchanged).
+   */
+  loadFromSnapshot(snapshotPath: string): PackageInfo | undefined {
+    const contents = this.fileSystem.readFile(snapshotPath);
+    const snapshot =
+      contents === undefined
+        ? null
+        : (parseJson(contents) as PackageInfoCacheSnapshot | null);
+
+    if (!snapshot || !Array.isArray(snapshot.loads)) {
+      debug('Unable to read a snapshot from %o', snapshotPath);
+      return undefined;
+    }
+
+    this.#clear();
+
+    if (snapshot.version !== SNAPSHOT_VERSION) {
+      debug(
+        'Snapshot version %o is not %o, loading from scratch',
+        snapshot.version,
+        SNAPSHOT_VERSION
+      );
+      snapshot.loads.forEach((load) => this.#replayLoad(load));
+      return this.rootPackage;
+    }
+
+    decodeSnapshot(snapshot, this);
+    this.#loads = [...snapshot.loads];
+
+    this.#getPackageInfos()
+      .filter((packageInfo) => packageInfo.isWorkspaceMember)
+      .forEach((packageInfo) => this.#addWorkspaceMember(packageInfo));
+
+    findStalePaths(snapshot, this.fileSystem).forEach((stalePath) => {
+      debug('Snapshot entry %o is out of date', this.relative(stalePath));
+      this.invalidate(stalePath);
+    });
+
+    return this.rootPackage;
+  }
+
   /*
    * Find a PackageInfo cache entry with the given path. If there is
    * no entry in the startPath, do as done in resolve.sync() - travel up
@@ -363,119 +910,568 @@ export class PackageInfoCache {
 
   /**
    * Starting from a given directory, determine where a particular dependency
-   * is found, given its name. This is the name AS USED IN IMPORTS, not the file name.
+   * is found, given its name. This is the name AS USED IN IMPORTS, not the file name,
+   * so it may include a subpath (e.g. 'lodash/get' or '@scope/pkg/feature').
    * This is to help with the 'no transient dependencies' issue.
+   *
+   * This runs the full node resolution algorithm against the cache: the start
+   * path is resolved through any symlinks, then each 'node_modules' directory
+   * from there up to the root of the file system is probed in turn. If the package
+   * found has an 'exports' field that does not export the requested subpath, the
+   * resolution stops there, as it would in node.
+   *
    * @param startPath - the directory path to start from
    * @param dependencyName - the name of the dependency as used in imports.
+   * @param trace - optional. If provided, an entry is added for every directory
+   * probed, with the reason it was accepted or rejected.
+   * @returns the PackageInfo for the dependency, or undefined if it could not be resolved.
    */
   findDependency(
     startPath: string,
-    dependencyName: string
+    dependencyName: string,
+    trace?: ResolutionTrace
   ): PackageInfo | undefined {
-    console.trace(
-      `startPath = ${startPath}, dependencyName = ${dependencyName}`
-    );
-    return undefined;
-  }
+    if (Module.isBuiltin(dependencyName)) {
+      trace?.addEntry(startPath, RESOLUTION_REASONS.BUILTIN_MODULE);
+      return undefined;
+    }
 
-  /**
-   * Dump all the errors for a single object in the cache out to the console.
-   *
-   * Special case: because package-info-cache also creates PackageInfo objects for entries
-   * that do not actually exist (to allow simplifying the code), if there's a case where
-   * an object has only the single error ERROR_PACKAGE_DIR_MISSING, do not print
-   * anything. The package will have been found as a reference from some other
-   * addon or the root project, and we'll print a reference error there. Having
-   * both is just confusing to users.
-   */
-  #showObjErrors(obj: PackageInfoCacheEntry): void {
-    const errorEntries = obj.hasErrors() ? obj.errors.getErrors() : undefined;
+    const request = parsePackageRequest(dependencyName);
 
-    if (errorEntries === undefined) {
-      return;
+    if (!request) {
+      trace?.addEntry(startPath, RESOLUTION_REASONS.INVALID_REQUEST);
+      return undefined;
     }
 
-    if (errorEntries.length === 1) {
-      const entry = errorEntries[0];
+    const normalizedStartPath = path.normalize(startPath);
+    const packageDir = this.resolutionBackend?.resolvePackageDir(
+      request.packageName,
+      normalizedStartPath
+    );
 
-      if (entry && entry.type === ERRORS.ERROR_PACKAGE_DIR_MISSING) {
-        return;
-      }
+    // a resolution backend that knows the package containing the start path has
+    // the final say, since it's the one the package manager uses.
+    if (packageDir !== undefined) {
+      return this.#findBackendDependency(
+        normalizedStartPath,
+        packageDir,
+        request.subpath,
+        trace
+      );
     }
 
-    console.info('');
+    const realStartPath =
+      this.#getRealDirectoryPath(normalizedStartPath) ?? normalizedStartPath;
 
-    const typeName = obj instanceof EmberAppPackageInfo ? 'app' : 'addon';
+    for (const nodeModulesPath of this.#nodeModulesPaths(realStartPath)) {
+      const nodeModulesList = this.#readNodeModulesList(nodeModulesPath);
 
-    console.info(
-      `Errors for the 'package.json' file for the ${typeName} at ${obj.realPath}`
-    );
+      if (!nodeModulesList) {
+        trace?.addEntry(
+          nodeModulesPath,
+          RESOLUTION_REASONS.NODE_MODULES_MISSING
+        );
+        continue;
+      }
 
-    const rootPath = obj.realPath;
+      const pkg = nodeModulesList.findPackage(request.packageName);
 
-    errorEntries.forEach((errorEntry) => {
-      // for DEPENDENCIES_MISSING: can't declare it in the block - lint error
-      let dependencyNames: string[];
+      if (!pkg) {
+        trace?.addEntry(nodeModulesPath, RESOLUTION_REASONS.PACKAGE_MISSING);
+        continue;
+      }
 
-      switch (errorEntry.type) {
-        case ERRORS.ERROR_PACKAGE_JSON_MISSING:
-          console.info(`  does not exist`);
-          break;
-        case ERRORS.ERROR_PACKAGE_JSON_PARSE:
-          console.info(`  could not be parsed`);
-          break;
-        case ERRORS.ERROR_EMBER_ADDON_MAIN_MISSING:
-          console.info(
-            `  specifies a missing ember-addon 'main' file at relative path '${path.relative(
-              rootPath,
-              errorEntry.data as string
-            )}'`
-          );
-          break;
-        case ERRORS.ERROR_DEPENDENCIES_MISSING:
-          dependencyNames = errorEntry.data as string[];
-
-          if (dependencyNames.length === 1) {
-            console.info(
-              `  specifies a dependency that was not loaded '${dependencyNames[0]}'`
-            );
-          } else {
-            console.info(`  specifies some dependencies that were not loaded:`);
-            dependencyNames.forEach((dependencyName) => {
-              console.info(`    '${dependencyName}'`);
-            });
-          }
-          break;
-        case ERRORS.ERROR_DEVDEPENDENCIES_MISSING:
-          dependencyNames = errorEntry.data as string[];
-
-          if (dependencyNames.length === 1) {
-            console.info(
-              `  specifies a devDependency that was not loaded '${dependencyNames[0]}'`
-            );
-          } else {
-            console.info(
-              `  specifies some devDependencies that were not loaded:`
-            );
-            dependencyNames.forEach((dependencyName) => {
-              console.info(`    '${dependencyName}'`);
-            });
-          }
-          break;
+      if (!pkg.valid) {
+        trace?.addEntry(
+          nodeModulesPath,
+          RESOLUTION_REASONS.PACKAGE_INVALID,
+          pkg.realPath
+        );
+        continue;
+      }
 
-        case ERRORS.ERROR_NODEMODULES_ENTRY_MISSING:
-          console.info(
-            `  specifies a missing 'node_modules/${errorEntry.data}' directory`
-          );
-          break;
+      if (!this.#isSubpathExported(pkg, request.subpath)) {
+        trace?.addEntry(
+          nodeModulesPath,
+          RESOLUTION_REASONS.SUBPATH_NOT_EXPORTED,
+          pkg.realPath
+        );
+        return undefined;
       }
-    });
+
+      trace?.addEntry(nodeModulesPath, RESOLUTION_REASONS.FOUND, pkg.realPath);
+      return pkg;
+    }
+
+    return undefined;
   }
 
   /**
-   * Given a project package.json, see if it has ember-addon.projectRoot. If so, return it.
-   * If not, return undefined.
-   * @param packageJson - a supposed packageJson object, though we'll check it anyway
+   * Find the package a dependency name resolves to through the resolution backend,
+   * from the package that contains a path. Unlike findDependency(), this never
+   * looks in node_modules directories.
+   *
+   * @param packageName - the name of the dependency.
+   * @param issuerPath - the path of a package directory, or of a directory or file in it.
+   * @returns the PackageInfo for the dependency, or undefined if there is no
+   * resolution backend or it can't resolve the name from the path.
+   */
+  findBackendPackage(
+    packageName: string,
+    issuerPath: string
+  ): PackageInfo | undefined {
+    const packageDir = this.resolutionBackend?.resolvePackageDir(
+      packageName,
+      path.normalize(issuerPath)
+    );
+
+    return packageDir ? this.#readPackage(packageDir) : undefined;
+  }
+
+  /**
+   * Read a file in a package, through the resolution backend if it's at a path
+   * that only the backend can read (e.g. in a zip archive).
+   *
+   * @param filePath - the absolute path of the file.
+   * @returns the contents of the file, or undefined if it can't be read.
+   */
+  readFile(filePath: string): string | undefined {
+    if (this.resolutionBackend?.isVirtualPath(filePath)) {
+      return this.resolutionBackend.readFile(filePath);
+    }
+
+    return this.fileSystem.readFile(filePath);
+  }
+
+  /**
+   * Get the real path of a file in a package, as resolve-package-path's
+   * getRealFilePath() does, but in the cache's file system. A file at a path that
+   * only the resolution backend can read is its own real path.
+   *
+   * @param filePath - the absolute path of the file.
+   * @returns the real path, or null if there is no file at the path.
+   */
+  getRealFilePath(filePath: string): string | null {
+    if (this.resolutionBackend?.isVirtualPath(filePath)) {
+      return this.resolutionBackend.readFile(filePath) === undefined
+        ? null
+        : filePath;
+    }
+
+    return this.fileSystem.stat(filePath)?.isFile
+      ? this.fileSystem.realpath(filePath) ?? null
+      : null;
+  }
+
+  /**
+   * The asynchronous version of getRealFilePath(), for paths that are not virtual.
+   *
+   * @param filePath - the absolute path of the file.
+   * @returns the real path, or null if there is no file at the path.
+   */
+  async #getRealFilePathAsync(filePath: string): Promise<string | null> {
+    return (await this.fileSystem.statAsync(filePath))?.isFile
+      ? (await this.fileSystem.realpathAsync(filePath)) ?? null
+      : null;
+  }
+
+  /**
+   * Get the real path of a directory, as resolve-package-path's
+   * getRealDirectoryPath() does, but in the cache's file system.
+   *
+   * @param dirPath - the absolute path of the directory.
+   * @returns the real path, or null if there is no directory at the path.
+   */
+  #getRealDirectoryPath(dirPath: string): string | null {
+    return this.fileSystem.stat(dirPath)?.isDirectory
+      ? this.fileSystem.realpath(dirPath) ?? null
+      : null;
+  }
+
+  /**
+   * The asynchronous version of #getRealDirectoryPath().
+   *
+   * @param dirPath - the absolute path of the directory.
+   * @returns the real path, or null if there is no directory at the path.
+   */
+  async #getRealDirectoryPathAsync(dirPath: string): Promise<string | null> {
+    return (await this.fileSystem.statAsync(dirPath))?.isDirectory
+      ? (await this.fileSystem.realpathAsync(dirPath)) ?? null
+      : null;
+  }
+
+  /**
+   * Read a JSON file (e.g. a package.json) in the cache's file system.
+   *
+   * @param filePath - the absolute path of the file.
+   * @returns the parsed contents, or null if the file can't be read or parsed.
+   */
+  #readJson(filePath: string): unknown {
+    const contents = this.fileSystem.readFile(filePath);
+    return contents === undefined ? null : parseJson(contents);
+  }
+
+  /**
+   * The asynchronous version of #readJson().
+   *
+   * @param filePath - the absolute path of the file.
+   * @returns the parsed contents, or null if the file can't be read or parsed.
+   */
+  async #readJsonAsync(filePath: string): Promise<unknown> {
+    const contents = await this.fileSystem.readFileAsync(filePath);
+    return contents === undefined ? null : parseJson(contents);
+  }
+
+  /**
+   * Get the packages in the cache that depend directly on the given package
+   * (through dependencies, optionalDependencies or devDependencies).
+   *
+   * @param packageInfo - the package whose dependents are wanted.
+   * @param options - includeDev (default true): include packages that only have it
+   * as a devDependency.
+   */
+  getDependents(
+    packageInfo: PackageInfo,
+    options?: DependencyGraphOptions
+  ): PackageInfo[] {
+    return this.#getGraph().getDependents(packageInfo, options);
+  }
+
+  /**
+   * Get every package that the given package depends on, directly or indirectly,
+   * nearest first, as resolved on disk.
+   *
+   * @param packageInfo - the package whose dependencies are wanted.
+   * @param options - includeDev (default true): follow devDependencies too.
+   */
+  getTransitiveDependencies(
+    packageInfo: PackageInfo,
+    options?: DependencyGraphOptions
+  ): PackageInfo[] {
+    return this.#getGraph().getTransitiveDependencies(packageInfo, options);
+  }
+
+  /**
+   * Find every chain of dependencies from the root package to the given package
+   * (i.e. why it is in the build), like 'yarn why' but using the packages actually
+   * resolved on disk. Each chain starts with the root package and ends with the target.
+   *
+   * @param target - the package to find.
+   * @param options - includeDev (default true): follow devDependencies too.
+   * @returns the chains, or an empty array if the target can't be reached from the root.
+   */
+  findPathsTo(
+    target: PackageInfo,
+    options?: DependencyGraphOptions
+  ): PackageInfo[][] {
+    if (!this.rootPackage) {
+      return [];
+    }
+
+    return this.#getGraph().findPaths(this.rootPackage, target, options);
+  }
+
+  /**
+   * Report the packages that are installed more than once (at different real
+   * paths, usually with different versions) in the nested node_modules directories,
+   * with the packages that resolve to each copy. Duplicated Ember addons are flagged,
+   * as they usually cause conflicts at runtime.
+   *
+   * @returns the duplicated packages, sorted by name.
+   */
+  findDuplicates(): DuplicatePackage[] {
+    return findDuplicatePackages(this.#getPackageInfos(), this.#getGraph());
+  }
+
+  /**
+   * Build the tree of Ember engines mounted by a host (by default the root package):
+   * its engines, their nested engines and so on, with each engine's lazyLoading
+   * setting and its own addons, separate from those of its host.
+   *
+   * Note: engines brought in by a non-engine addon belong to the host of that addon.
+   *
+   * @param host - the app, addon or engine at the top of the tree.
+   * @returns the tree, or undefined if there is no host.
+   */
+  getEngineTree(
+    host: PackageInfo | undefined = this.rootPackage
+  ): EmberEngineTree | undefined {
+    return host ? buildEngineTree(host) : undefined;
+  }
+
+  /**
+   * Compare the packages installed in node_modules with a lockfile (package-lock.json,
+   * or yarn.lock in either its v1 or its yarn 2+ format), reading every node_modules
+   * directory under the lockfile's directory. Packages that are in the lockfile but
+   * not installed, installed packages whose version differs from the locked one,
+   * and installed packages that are not in the lockfile are recorded as errors on
+   * the root package, replacing those of any earlier call.
+   *
+   * @param lockfilePath - the lockfile to compare with. By default, the
+   * package-lock.json or yarn.lock next to the root package.
+   * @returns the differences found, or undefined if there is no root package or no
+   * lockfile (or it can't be read), or the lockfile can't be parsed.
+   */
+  verifyLockfile(lockfilePath?: string): LockfileVerification | undefined {
+    const rootPackage = this.rootPackage;
+
+    if (!rootPackage) {
+      return undefined;
+    }
+
+    rootPackage.errors.removeErrors(LOCKFILE_ERRORS);
+
+    const resolvedLockfilePath =
+      lockfilePath ?? findLockfile(this.fileSystem, rootPackage.realPath);
+
+    if (!resolvedLockfilePath) {
+      return undefined;
+    }
+
+    const lockfile = readLockfile(this.fileSystem, resolvedLockfilePath);
+
+    if (!lockfile) {
+      return undefined;
+    }
+
+    if (!lockfile.packages) {
+      rootPackage.addError(ERRORS.ERROR_LOCKFILE_PARSE, resolvedLockfilePath);
+      return undefined;
+    }
+
+    const verification = verifyLockfile(
+      lockfile,
+      this.#getInstalledPackages(path.dirname(resolvedLockfilePath))
+    );
+
+    if (verification.missing.length > 0) {
+      rootPackage.addError(
+        ERRORS.ERROR_LOCKFILE_PACKAGES_MISSING,
+        verification.missing
+      );
+    }
+
+    if (verification.mismatched.length > 0) {
+      rootPackage.addError(
+        ERRORS.ERROR_LOCKFILE_VERSIONS_MISMATCH,
+        verification.mismatched
+      );
+    }
+
+    if (verification.extraneous.length > 0) {
+      rootPackage.addError(
+        ERRORS.ERROR_LOCKFILE_PACKAGES_EXTRANEOUS,
+        verification.extraneous
+      );
+    }
+
+    return verification;
+  }
+
+  /**
+   * Get the dependency graph of the cache, building it if needed.
+   */
+  #getGraph(): DependencyGraph {
+    if (!this.#graph) {
+      this.#graph = new DependencyGraph(this.#getPackageInfos());
+    }
+
+    return this.#graph;
+  }
+
+  /**
+   * Get every package installed in the node_modules directory of a directory, and
+   * in the node_modules directories of those packages, and so on, reading any of
+   * the directories that haven't been read yet.
+   * @param rootDir - the directory whose node_modules directory is read first.
+   */
+  #getInstalledPackages(rootDir: string): InstalledPackage[] {
+    const result: InstalledPackage[] = [];
+    const seen = new Set<NodeModulesList>();
+
+    const addPackages = (nodeModulesList: NodeModulesList, scope?: string) => {
+      nodeModulesList.entries.forEach((entry, entryName) => {
+        if (entry instanceof NodeModulesList) {
+          addPackages(entry, entryName);
+          return;
+        }
+
+        result.push({
+          name: scope ? `${scope}/${entryName}` : entryName,
+          path: path.join(nodeModulesList.realPath, entryName),
+          packageInfo: entry,
+        });
+
+        readNodeModules(path.join(entry.realPath, 'node_modules'));
+      });
+    };
+
+    const readNodeModules = (nodeModulesDir: string) => {
+      const nodeModulesList = this.#readNodeModulesList(nodeModulesDir);
+
+      if (nodeModulesList && !seen.has(nodeModulesList)) {
+        seen.add(nodeModulesList);
+        addPackages(nodeModulesList);
+      }
+    };
+
+    readNodeModules(path.join(rootDir, 'node_modules'));
+
+    return result;
+  }
+
+  /**
+   * Remember a load call for snapshots. Each distinct call is only recorded once
+   * (load calls made by other load calls are recorded too, but making them again
+   * after the outer call has been made again does nothing).
+   */
+  #recordLoad(load: SnapshotLoad): void {
+    const loadJson = JSON.stringify(load);
+
+    if (!this.#loads.some((other) => JSON.stringify(other) === loadJson)) {
+      this.#loads.push(load);
+    }
+  }
+
+  /**
+   * Make a load call recorded in a snapshot again.
+   */
+  #replayLoad(load: SnapshotLoad): void {
+    switch (load.method) {
+      case 'loadProject':
+        this.loadProject(load.rootDir, load.isRoot);
+        break;
+      case 'loadApp':
+        this.loadApp(load.rootDir, load.isRoot);
+        break;
+      case 'loadAddon':
+        this.loadAddon(load.rootDir, load.projectRelativePath);
+        break;
+      case 'loadWorkspace':
+        this.loadWorkspace(load.rootDir);
+        break;
+    }
+  }
+
+  /**
+   * The end of findDependency() when the resolution backend resolved the dependency
+   * name: check the package it resolved to as the node_modules search would.
+   * @param startPath - the (normalized) path the resolution started from.
+   * @param packageDir - the directory the backend resolved the name to, or null if
+   * it could not be resolved.
+   * @param subpath - the subpath of the request ('.' for the package itself).
+   */
+  #findBackendDependency(
+    startPath: string,
+    packageDir: string | null,
+    subpath: string,
+    trace?: ResolutionTrace
+  ): PackageInfo | undefined {
+    if (packageDir === null) {
+      trace?.addEntry(startPath, RESOLUTION_REASONS.PACKAGE_MISSING);
+      return undefined;
+    }
+
+    const pkg = this.#readPackage(packageDir);
+
+    if (!pkg.valid) {
+      trace?.addEntry(
+        startPath,
+        RESOLUTION_REASONS.PACKAGE_INVALID,
+        pkg.realPath
+      );
+      return undefined;
+    }
+
+    if (!this.#isSubpathExported(pkg, subpath)) {
+      trace?.addEntry(
+        startPath,
+        RESOLUTION_REASONS.SUBPATH_NOT_EXPORTED,
+        pkg.realPath
+      );
+      return undefined;
+    }
+
+    trace?.addEntry(startPath, RESOLUTION_REASONS.FOUND, pkg.realPath);
+    return pkg;
+  }
+
+  /**
+   * Indicate if a package makes a subpath (e.g. '.' or './feature') available
+   * through its 'exports' field, resolved as resolveExport() does (with the
+   * DEFAULT_CONDITIONS). If there is no 'exports' field, everything is available.
+   * This does not check that the target exists.
+   * @param pkg - the package.
+   * @param subpath - the subpath being requested, starting with '.'.
+   */
+  #isSubpathExported(pkg: PackageInfo, subpath: string): boolean {
+    const exportsField = pkg.packageJson.exports;
+
+    return (
+      exportsField === undefined ||
+      Boolean(resolvePackageExports(exportsField, subpath)?.target)
+    );
+  }
+
+  /**
+   * Compute the list of 'node_modules' directories that node would search for a
+   * package, starting from the given directory, in the order they are searched.
+   * As in node, we never append 'node_modules' to a directory that is already
+   * named 'node_modules'.
+   * @param startPath - the (real) directory path to start from.
+   */
+  #nodeModulesPaths(startPath: string): string[] {
+    const result: string[] = [];
+    let currPath = startPath;
+
+    for (;;) {
+      if (path.basename(currPath) !== 'node_modules') {
+        result.push(path.join(currPath, 'node_modules'));
+      }
+
+      const parentPath = path.dirname(currPath);
+
+      if (parentPath === currPath) {
+        return result;
+      }
+
+      currPath = parentPath;
+    }
+  }
+
+  /**
+   * Given the project's root directory and the contents of its package.json file
+   * (which may be missing or invalid), see if the package.json specifies that the
+   * app lives somewhere else, via 'ember-addon.projectRoot'.
+   * @param projectRootDir - the absolute path of the project's root directory.
+   * @param projectPkgJson - the parsed package.json, or null if it could not be read.
+   * @returns the absolute path of the app's root directory if 'ember-addon.projectRoot'
+   * is specified, else undefined.
+   */
+  #getAppRootDir(
+    projectRootDir: string,
+    projectPkgJson: unknown
+  ): string | undefined {
+    if (!projectPkgJson) {
+      debug(`The 'package.json' file is either invalid or does not exist`);
+      // we're going to go ahead and allow loading the app anyway, which should put
+      // an invalid project entry into the cache.
+      return undefined;
+    }
+
+    debug(`Found the 'package.json' file`);
+
+    // allow `package.json` files to specify where the actual project lives
+    // via the 'ember-addon.projectRoot setting.
+    const projectRoot = this.#findEmberProjectRoot(projectPkgJson);
+
+    return projectRoot ? path.resolve(projectRootDir, projectRoot) : undefined;
+  }
+
+  /**
+   * Given a project package.json, see if it has ember-addon.projectRoot. If so, return it.
+   * If not, return undefined.
+   * @param packageJson - a supposed packageJson object, though we'll check it anyway
    * @returns a string, the projectRoot value, if it exists, else undefined
    */
   #findEmberProjectRoot(packageJson: unknown): string | undefined {
@@ -501,6 +1497,9 @@ export class PackageInfoCache {
   #resolveDependencies(): void {
     debug('Resolving dependencies...');
 
+    // the dependencies may change, so the graph must be built again.
+    this.#graph = undefined;
+
     const packageInfos = this.#getPackageInfos();
 
     packageInfos.forEach((packageInfo) => {
@@ -510,15 +1509,23 @@ export class PackageInfoCache {
         );
         packageInfo.dependenciesPackages = pkgs;
 
-        // for roots only, we add the devDependencies
-        if (packageInfo.isRoot) {
+        // for roots and workspace members only, we add the devDependencies
+        if (packageInfo.isRoot || packageInfo.isWorkspaceMember) {
           pkgs = packageInfo.addDevDependencies(
             packageInfo.packageJson.devDependencies
           );
           packageInfo.devDependenciesPackages = pkgs;
         }
 
-        // XXX do we need to do anything with PeerDependencies?
+        packageInfo.optionalDependenciesPackages =
+          packageInfo.addOptionalDependencies(
+            packageInfo.packageJson.optionalDependencies
+          );
+
+        packageInfo.peerDependenciesPackages = packageInfo.addPeerDependencies(
+          packageInfo.packageJson.peerDependencies,
+          packageInfo.packageJson.peerDependenciesMeta
+        );
 
         packageInfo.processed = true;
       }
@@ -526,140 +1533,536 @@ export class PackageInfoCache {
   }
 
   /**
-   * Get all the PackageInfo instances from the stored entries and return an array of them
-   * @returns an array of all the PackageInfo objects (as opposed to the NodeModulesList objects)
+   * Get all the PackageInfo instances from the stored entries and return an array of them
+   * @returns an array of all the PackageInfo objects (as opposed to the NodeModulesList objects)
+   */
+  #getPackageInfos(): PackageInfo[] {
+    const result: PackageInfo[] = [];
+
+    this.entries.forEach((entry) => {
+      if (entry instanceof PackageInfo) {
+        result.push(entry);
+      }
+    });
+
+    return result;
+  }
+
+  /**
+   * Mark a package as a workspace member. A package that was already loaded (e.g.
+   * through a node_modules link from a package loaded earlier) has its dependencies
+   * resolved again, to add its devDependencies.
+   * @param packageInfo - the package of a directory matched by the workspace globs.
+   */
+  #addWorkspaceMember(packageInfo: PackageInfo): void {
+    if (!packageInfo.isWorkspaceMember) {
+      packageInfo.isWorkspaceMember = true;
+      packageInfo.resetDependencies();
+    }
+
+    this.#workspaceDirs.add(packageInfo.realPath);
+    this.workspacePackages.set(
+      packageInfo.name ?? packageInfo.realPath,
+      packageInfo
+    );
+  }
+
+  /**
+   * Remove the cache entries at or below the given directory.
+   * @param dirPath - the real path of the directory.
+   * @returns the removed entries.
+   */
+  #removeEntries(dirPath: string): Set<PackageInfoCacheEntry> {
+    const removed = new Set<PackageInfoCacheEntry>();
+    const prefix = `${dirPath}${path.sep}`;
+
+    [...this.entries.keys()].forEach((key) => {
+      if (key === dirPath || key.startsWith(prefix)) {
+        const entry = this.entries.get(key) as PackageInfoCacheEntry;
+
+        if (entry instanceof PackageInfo && entry.isWorkspaceMember) {
+          this.workspacePackages.delete(entry.name ?? entry.realPath);
+        }
+
+        removed.add(entry);
+        this.entries.delete(key);
+      }
+    });
+
+    return removed;
+  }
+
+  /**
+   * After some entries have been removed from the cache and re-read, point the
+   * remaining entries that referred to the removed ones at their replacements.
+   * @param removed - the entries that were removed from the cache.
+   * @returns the remaining PackageInfos whose dependencies referred to a removed
+   * entry, and so must be resolved again.
+   */
+  #relinkEntries(removed: Set<PackageInfoCacheEntry>): Set<PackageInfo> {
+    const affected = new Set<PackageInfo>();
+
+    if (this.rootPackage && removed.has(this.rootPackage)) {
+      this.rootPackage = this.#getCachedPackageInfo(this.rootPackage.realPath);
+    }
+
+    [...this.entries.values()].forEach((entry) => {
+      if (entry instanceof NodeModulesList) {
+        [...entry.entries].forEach(([entryName, entryVal]) => {
+          if (removed.has(entryVal)) {
+            const replacement = this.getEntry(entryVal.realPath);
+
+            if (replacement) {
+              entry.addEntry(entryName, replacement);
+            } else {
+              entry.removeEntry(entryName);
+            }
+          }
+        });
+
+        return;
+      }
+
+      if (entry.nodeModules && removed.has(entry.nodeModules)) {
+        entry.nodeModules = this.#getCachedNodeModulesList(
+          entry.nodeModules.realPath
+        );
+      }
+
+      const inRepoAddons = (entry as EmberAddonPackageInfo).inRepoAddons;
+
+      if (inRepoAddons?.some((addon) => removed.has(addon))) {
+        (entry as EmberAddonPackageInfo).inRepoAddons = undefined;
+
+        inRepoAddons.forEach((addon) => {
+          const addonPkgInfo = removed.has(addon)
+            ? this.#readPackage(addon.realPath)
+            : addon;
+
+          this.#addInRepoAddon(
+            entry,
+            path.relative(entry.realPath, addon.realPath),
+            addonPkgInfo
+          );
+        });
+      }
+
+      const dependencyMaps = [
+        entry.dependenciesPackages,
+        entry.devDependenciesPackages,
+        entry.optionalDependenciesPackages,
+        entry.peerDependenciesPackages,
+      ];
+
+      if (
+        dependencyMaps.some((packages) =>
+          [...(packages?.values() ?? [])].some((pkg) => removed.has(pkg))
+        )
+      ) {
+        affected.add(entry);
+      }
+    });
+
+    return affected;
+  }
+
+  /**
+   * Add an entry to the cache.
+   */
+  #addEntry(absolutePath: string, entry: PackageInfo | NodeModulesList): void {
+    this.entries.set(absolutePath, entry);
+  }
+
+  /**
+   * Given a directory that supposedly contains a package, create a PackageInfo
+   * object and try to fill it out, EVEN IF the package.json is not readable.
+   * Errors will then be stored in the PackageInfo for anything with the package
+   * that might be wrong.
+   * Because it's possible that the path given to the packageDir is not actually valid,
+   * we'll just use the path.resolve() version of that path to search for the
+   * path in the cache, before trying to get the 'real' path (which also then
+   * resolves links). The cache itself is keyed on either the realPath, if the
+   * packageDir is actually a real valid directory path, or the normalized path (before
+   * path.resolve()), if it is not.
+   *
+   * If there is no package.json or the package.json is bad or the package is an addon with
+   * no main, the only thing we can do is return an ErrorEntry to the caller.
+   * Once past all those problems, if any error occurs with any of the contents
+   * of the package, they'll be cached in the PackageInfo itself.
+   *
+   * In summary, only PackageInfo or ErrorEntry will be returned.
+   *
+   * @param packageDir - the path of the directory to read the package.json from and
+   * process the contents and create a new cache entry or entries.
+   * @param isRoot - for when this is to be considered the root package, whose
+   * devDependencies we must also consider for discovery.
+   */
+  #readPackage(packageDir: string, isRoot = false): PackageInfo {
+    const normalizedPackageDir = path.normalize(packageDir);
+
+    // Most of the time, normalizedPackageDir is already a real path (i.e. fs.realpathSync
+    // will return the same value as normalizedPackageDir if the dir actually exists).
+    // Because of that, we'll assume we can test for normalizedPackageDir first and return
+    // if we find it.
+    let packageInfo = this.#getCachedPackageInfo(normalizedPackageDir);
+
+    if (packageInfo) {
+      return packageInfo;
+    }
+
+    if (this.resolutionBackend?.isVirtualPath(normalizedPackageDir)) {
+      return this.#readVirtualPackage(normalizedPackageDir, isRoot);
+    }
+
+    // at this point pkgInfo is undefined.
+
+    // We don't already have an entry (bad or otherwise) at normalizedPackageDir. See if
+    // we can actually find a real path (including resolving links if needed).
+    const realPath = this.#getRealDirectoryPath(normalizedPackageDir);
+
+    if (realPath === null) {
+      // no realPath, so either nothing is at the path or it's not a directory.
+      // We need to use normalizedPackageDir as the real path.
+      return this.#createMissingPackageInfo(normalizedPackageDir, isRoot);
+    }
+
+    if (realPath !== normalizedPackageDir) {
+      // getRealDirectoryPath actually changed something in the path (e.g.,
+      // by resolving a symlink), so see if we have this entry.
+      packageInfo = this.#getCachedPackageInfo(realPath);
+
+      if (packageInfo) {
+        return packageInfo;
+      }
+    }
+
+    // at this point we have realPath set, we don't already have a PackageInfo
+    // for the path, and the path corresponds to a valid directory. We need to
+    // be able to read the package.json.
+
+    // collect errors we hit while trying to create the PackageInfo object.
+    // We'll load these into the object once it's created.
+    const setupErrors = new ErrorList(realPath);
+
+    let packageJson: Record<string, unknown> | undefined;
+
+    const packageJsonPath = path.join(realPath, PACKAGE_JSON);
+    const packageDataPath = this.getRealFilePath(packageJsonPath); // figure out if the path is valid or not
+    if (packageDataPath) {
+      // we have a real file path. Read the JSON and parse it into a record, or record
+      // an error if it can't be.
+      packageJson = this.#checkPackageJson(
+        this.readFile(packageDataPath),
+        packageDataPath,
+        setupErrors
+      );
+    } else {
+      setupErrors.addError(ERRORS.ERROR_PACKAGE_JSON_MISSING, packageJsonPath);
+    }
+
+    const newPackageInfo = this.#createPackageInfo(
+      realPath,
+      packageJson,
+      setupErrors,
+      isRoot
+    );
+
+    // Set up packageInfos for any in-repo addons
+    this.#getInRepoAddonPaths(newPackageInfo).forEach((p) => {
+      const addonPath = path.join(realPath, p); // real path, though may not exist.
+      debug('Adding in-repo-addon at %o', this.relative(addonPath));
+      const addonPkgInfo = this.#readPackage(addonPath); // may have errors in the addon package.
+      this.#addInRepoAddon(newPackageInfo, p, addonPkgInfo);
+    });
+
+    if (this.#mayHaveAddons(newPackageInfo)) {
+      debug('Reading "node_modules" for %o', this.relative(realPath));
+
+      // read addon modules from node_modules. We read the whole directory
+      // because it's assumed that npm/yarn may have placed addons in the
+      // directory from lower down in the project tree, and we want to get
+      // the data into the cache ASAP. It may not necessarily be a 'real' error
+      // if we find an issue, if nobody below is actually invoking the addon.
+      const nodeModules = this.#readNodeModulesList(
+        this.#getNodeModulesDir(newPackageInfo)
+      );
+
+      if (nodeModules instanceof NodeModulesList) {
+        newPackageInfo.nodeModules = nodeModules;
+      }
+    } else {
+      // will not have node_modules addons, so even if there are node_modules here, we can
+      // simply pretend there are none.
+      newPackageInfo.nodeModules = NodeModulesList.nullInstance;
+    }
+
+    this.#getBackendDependencyDirs(newPackageInfo).forEach((dependencyDir) =>
+      this.#readPackage(dependencyDir)
+    );
+
+    return newPackageInfo;
+  }
+
+  /**
+   * Read a package at a path that only the resolution backend can read (e.g. in a
+   * zip archive), which is its own real path. Such a package has no node_modules
+   * directory, so the packages the backend has installed for it are read instead.
+   *
+   * @param packageDir - the normalized path of the package directory.
+   * @param isRoot - for when this is to be considered the root package.
+   */
+  #readVirtualPackage(packageDir: string, isRoot: boolean): PackageInfo {
+    const setupErrors = new ErrorList(packageDir);
+
+    let packageJson: Record<string, unknown> | undefined;
+
+    const packageJsonPath = path.join(packageDir, PACKAGE_JSON);
+    const contents = this.readFile(packageJsonPath);
+
+    if (contents === undefined) {
+      setupErrors.addError(ERRORS.ERROR_PACKAGE_JSON_MISSING, packageJsonPath);
+    } else {
+      packageJson = this.#checkPackageJson(
+        contents,
+        packageJsonPath,
+        setupErrors
+      );
+    }
+
+    const newPackageInfo = this.#createPackageInfo(
+      packageDir,
+      packageJson,
+      setupErrors,
+      isRoot
+    );
+
+    newPackageInfo.nodeModules = NodeModulesList.nullInstance;
+
+    this.#getInRepoAddonPaths(newPackageInfo).forEach((p) => {
+      const addonPkgInfo = this.#readPackage(path.join(packageDir, p));
+      this.#addInRepoAddon(newPackageInfo, p, addonPkgInfo);
+    });
+
+    this.#getBackendDependencyDirs(newPackageInfo).forEach((dependencyDir) =>
+      this.#readPackage(dependencyDir)
+    );
+
+    return newPackageInfo;
+  }
+
+  /**
+   * Get the directories of the packages the resolution backend has installed for a
+   * package, so they can be read along with it, as the packages in a node_modules
+   * directory are.
+   */
+  #getBackendDependencyDirs(packageInfo: PackageInfo): string[] {
+    return [
+      ...(this.resolutionBackend
+        ?.getDependencyDirs(packageInfo.realPath)
+        .values() ?? []),
+    ];
+  }
+
+  /**
+   * The asynchronous version of #readPackage(). Concurrent requests for the
+   * same path share a single read, so the result is the same as if the reads
+   * had been done one after another.
+   *
+   * @param packageDir - the path of the directory to read the package.json from.
+   * @param isRoot - for when this is to be considered the root package.
+   */
+  #readPackageAsync(packageDir: string, isRoot = false): Promise<PackageInfo> {
+    const normalizedPackageDir = path.normalize(packageDir);
+
+    const packageInfo = this.#getCachedPackageInfo(normalizedPackageDir);
+
+    if (packageInfo) {
+      return Promise.resolve(packageInfo);
+    }
+
+    // the resolution backend only reads synchronously.
+    if (this.resolutionBackend?.isVirtualPath(normalizedPackageDir)) {
+      return Promise.resolve(
+        this.#readVirtualPackage(normalizedPackageDir, isRoot)
+      );
+    }
+
+    return this.#shareRead(normalizedPackageDir, async () => {
+      const realPath = await this.#limit(() =>
+        this.#getRealDirectoryPathAsync(normalizedPackageDir)
+      );
+
+      if (realPath === null) {
+        return this.#createMissingPackageInfo(normalizedPackageDir, isRoot);
+      }
+
+      if (realPath === normalizedPackageDir) {
+        return this.#loadPackageAsync(realPath, isRoot);
+      }
+
+      const realPackageInfo = this.#getCachedPackageInfo(realPath);
+
+      if (realPackageInfo) {
+        return realPackageInfo;
+      }
+
+      return this.#shareRead(realPath, () =>
+        this.#loadPackageAsync(realPath, isRoot)
+      );
+    });
+  }
+
+  /**
+   * Read the package.json and any child packages of a package directory whose
+   * real path is known to exist and is not yet in the cache.
+   *
+   * @param realPath - the real path of the package directory.
+   * @param isRoot - for when this is to be considered the root package.
    */
-  #getPackageInfos(): PackageInfo[] {
-    const result: PackageInfo[] = [];
+  async #loadPackageAsync(
+    realPath: string,
+    isRoot: boolean
+  ): Promise<PackageInfo> {
+    const setupErrors = new ErrorList(realPath);
 
-    this.entries.forEach((entry) => {
-      if (entry instanceof PackageInfo) {
-        result.push(entry);
-      }
+    let packageJson: Record<string, unknown> | undefined;
+
+    const packageJsonPath = path.join(realPath, PACKAGE_JSON);
+    const packageDataPath = await this.#limit(() =>
+      this.#getRealFilePathAsync(packageJsonPath)
+    );
+
+    if (packageDataPath) {
+      const contents = await this.#limit(() =>
+        this.fileSystem.readFileAsync(packageDataPath)
+      );
+      packageJson = this.#checkPackageJson(
+        contents,
+        packageDataPath,
+        setupErrors
+      );
+    } else {
+      setupErrors.addError(ERRORS.ERROR_PACKAGE_JSON_MISSING, packageJsonPath);
+    }
+
+    const newPackageInfo = this.#createPackageInfo(
+      realPath,
+      packageJson,
+      setupErrors,
+      isRoot
+    );
+
+    const inRepoAddonPaths = this.#getInRepoAddonPaths(newPackageInfo);
+
+    const [addonPkgInfos, nodeModules] = await Promise.all([
+      Promise.all(
+        inRepoAddonPaths.map((p) =>
+          this.#readPackageAsync(path.join(realPath, p))
+        )
+      ),
+      this.#mayHaveAddons(newPackageInfo)
+        ? this.#readNodeModulesListAsync(
+            this.#getNodeModulesDir(newPackageInfo)
+          )
+        : Promise.resolve(NodeModulesList.nullInstance),
+      Promise.all(
+        this.#getBackendDependencyDirs(newPackageInfo).map((dependencyDir) =>
+          this.#readPackageAsync(dependencyDir)
+        )
+      ),
+    ]);
+
+    // add the in-repo addons in the order they are declared, as #readPackage does
+    inRepoAddonPaths.forEach((p, index) => {
+      this.#addInRepoAddon(
+        newPackageInfo,
+        p,
+        addonPkgInfos[index] as PackageInfo
+      );
     });
 
-    return result;
+    if (nodeModules instanceof NodeModulesList) {
+      newPackageInfo.nodeModules = nodeModules;
+    }
+
+    return newPackageInfo;
   }
 
   /**
-   * Add an entry to the cache.
+   * Get the node_modules directory that holds a package's own dependencies. For a
+   * package in pnpm's virtual store, that is the node_modules directory of its store
+   * entry, where pnpm links its dependencies next to it, since it never has one of
+   * its own. Reading that directory adds the package itself to it, which is harmless.
    */
-  #addEntry(absolutePath: string, entry: PackageInfo | NodeModulesList): void {
-    this.entries.set(absolutePath, entry);
+  #getNodeModulesDir(packageInfo: PackageInfo): string {
+    return (
+      packageInfo.pnpmStoreEntry?.nodeModulesDir ??
+      path.join(packageInfo.realPath, 'node_modules')
+    );
   }
 
   /**
-   * Given a directory that supposedly contains a package, create a PackageInfo
-   * object and try to fill it out, EVEN IF the package.json is not readable.
-   * Errors will then be stored in the PackageInfo for anything with the package
-   * that might be wrong.
-   * Because it's possible that the path given to the packageDir is not actually valid,
-   * we'll just use the path.resolve() version of that path to search for the
-   * path in the cache, before trying to get the 'real' path (which also then
-   * resolves links). The cache itself is keyed on either the realPath, if the
-   * packageDir is actually a real valid directory path, or the normalized path (before
-   * path.resolve()), if it is not.
-   *
-   * If there is no package.json or the package.json is bad or the package is an addon with
-   * no main, the only thing we can do is return an ErrorEntry to the caller.
-   * Once past all those problems, if any error occurs with any of the contents
-   * of the package, they'll be cached in the PackageInfo itself.
-   *
-   * In summary, only PackageInfo or ErrorEntry will be returned.
-   *
-   * @param packageDir - the path of the directory to read the package.json from and
-   * process the contents and create a new cache entry or entries.
-   * @param isRoot - for when this is to be considered the root package, whose
-   * devDependencies we must also consider for discovery.
+   * Look for an existing PackageInfo in the cache at the given path.
+   * @param packageDir - the (normalized or real) path of the package directory.
+   * @returns the PackageInfo, or undefined if there is no entry for the path.
    */
-  #readPackage(packageDir: string, isRoot = false): PackageInfo {
-    const normalizedPackageDir = path.normalize(packageDir);
-
-    // Most of the time, normalizedPackageDir is already a real path (i.e. fs.realpathSync
-    // will return the same value as normalizedPackageDir if the dir actually exists).
-    // Because of that, we'll assume we can test for normalizedPackageDir first and return
-    // if we find it.
-    let packageInfo = this.getEntry(normalizedPackageDir);
-
-    if (packageInfo instanceof PackageInfo) {
-      return packageInfo;
-    }
+  #getCachedPackageInfo(packageDir: string): PackageInfo | undefined {
+    const entry = this.getEntry(packageDir);
 
-    // at this point it's either a NodeModulesList or undefined
-    if (packageInfo) {
+    if (entry && !(entry instanceof PackageInfo)) {
       throw new Error(
-        `Attempted to read a PackageInfo from path ${normalizedPackageDir}, but the path points to a directory`
+        `Attempted to read a PackageInfo from path ${packageDir}, but the path points to a directory`
       );
     }
 
-    // at this point pkgInfo is undefined.
-
-    // collect errors we hit while trying to create the PackageInfo object.
-    // We'll load these into the object once it's created.
-    const setupErrors = new ErrorList();
-
-    // We don't already have an entry (bad or otherwise) at normalizedPackageDir. See if
-    // we can actually find a real path (including resolving links if needed).
-    let pathFailed = false;
+    return entry;
+  }
 
-    let realPath = getRealDirectoryPath(normalizedPackageDir);
+  /**
+   * Given the text of a package.json file, record an error (with the location of
+   * the syntax error, if there is one) if it could not be read or parsed, else
+   * return it parsed into a record.
+   */
+  #checkPackageJson(
+    contents: string | undefined,
+    packageDataPath: string,
+    setupErrors: ErrorList
+  ): Record<string, unknown> | undefined {
+    const pkgObj = contents === undefined ? null : parseJson(contents);
+
+    if (!pkgObj) {
+      const location =
+        contents === undefined
+          ? undefined
+          : findJsonParseErrorLocation(contents, packageDataPath);
 
-    if (realPath === null) {
-      // no realPath, so either nothing is at the path or it's not a directory.
-      // We need to use normalizedPackageDir as the real path.
-      pathFailed = true;
       setupErrors.addError(
-        ERRORS.ERROR_PACKAGE_DIR_MISSING,
-        normalizedPackageDir
+        ERRORS.ERROR_PACKAGE_JSON_PARSE,
+        packageDataPath,
+        location ? [location] : []
       );
-      realPath = normalizedPackageDir;
-    } else if (realPath !== normalizedPackageDir) {
-      // getRealDirectoryPath actually changed something in the path (e.g.,
-      // by resolving a symlink), so see if we have this entry.
-      packageInfo = this.getEntry(realPath);
-
-      if (packageInfo instanceof PackageInfo) {
-        return packageInfo;
-      }
-
-      if (packageInfo) {
-        throw new Error(
-          `Attempted to read a PackageInfo from real path ${realPath}, but the path points to a directory`
-        );
-      }
+      return undefined;
     }
 
-    // at this point we have realPath set, we don't already have a PackageInfo
-    // for the path, and the path may or may not actually correspond to a
-    // valid directory (pathFailed tells us which). We need to be able to read
-    // the package.json, unless we also dont have a path.
-    let packageJson: Record<string, unknown> | undefined;
-
-    if (!pathFailed) {
-      const packageJsonPath = path.join(realPath, PACKAGE_JSON);
-      const packageDataPath = getRealFilePath(packageJsonPath); // figure out if the path is valid or not
-      if (packageDataPath) {
-        // we have a real file path. Read the JSON and parse into an object, or null if there
-        // was an error. Once we know we have something besides null, convert to a record.
-        const pkgObj = fs.readJsonSync(packageDataPath, {
-          throws: false,
-        }) as unknown;
-        if (!pkgObj) {
-          setupErrors.addError(
-            ERRORS.ERROR_PACKAGE_JSON_PARSE,
-            packageDataPath
-          );
-        } else {
-          packageJson = pkgObj as Record<string, unknown>;
-        }
-      } else {
-        setupErrors.addError(
-          ERRORS.ERROR_PACKAGE_JSON_MISSING,
-          packageJsonPath
-        );
-      }
-    }
+    return pkgObj as Record<string, unknown>;
+  }
 
+  /**
+   * Create the PackageInfo for a package directory from its package.json contents
+   * and add it to the cache.
+   *
+   * @param realPath - the real path of the package directory (or the normalized path,
+   * if the directory does not exist).
+   * @param packageJson - the package.json contents, or undefined if they could not be read.
+   * @param setupErrors - any errors found while trying to read the package.json.
+   * @param isRoot - for when this is to be considered the root package.
+   */
+  #createPackageInfo(
+    realPath: string,
+    packageJson: Record<string, unknown> | undefined,
+    setupErrors: ErrorList,
+    isRoot: boolean
+  ): PackageInfo {
     // Some error has occurred resulting in no pkg object, so just
     // create an empty one so we have something to use below.
     if (packageJson === undefined) {
@@ -680,7 +2083,7 @@ export class PackageInfoCache {
       this.relative(realPath)
     );
 
-    const newPackageInfo = PackageInfoFactory.create(
+    const newPackageInfo = this.packageInfoFactory.create(
       packageJson,
       realPath,
       this,
@@ -692,6 +2095,12 @@ export class PackageInfoCache {
     if (setupErrors.hasErrors()) {
       newPackageInfo.errors = setupErrors;
       newPackageInfo.valid = false;
+    } else {
+      this.#checkPackageJsonRules(newPackageInfo);
+    }
+
+    if (this.#workspaceDirs.has(realPath)) {
+      this.#addWorkspaceMember(newPackageInfo);
     }
 
     // The packageInfo itself is now "complete", though we have not
@@ -699,59 +2108,106 @@ export class PackageInfoCache {
     // cache
     this.#addEntry(realPath, newPackageInfo);
 
-    // Set up packageInfos for any in-repo addons
-    const paths = getObjectProperty(
-      newPackageInfo,
-      'packageJson.ember-addon.paths'
-    );
+    return newPackageInfo;
+  }
 
-    const realPathStr = realPath; // TS insists that realPath below is possibly undefined, so I have to do this.
+  /**
+   * Check a package's package.json with the packageJsonRules, recording each
+   * problem found as an ERROR_PACKAGE_JSON_RULE warning. Warnings don't make the
+   * package invalid.
+   *
+   * @param packageInfo - the package, whose package.json was read successfully.
+   */
+  #checkPackageJsonRules(packageInfo: PackageInfo): void {
+    this.packageJsonRules.forEach((rule) => {
+      rule
+        .check(packageInfo.packageJson as Record<string, unknown>, packageInfo)
+        .forEach((problem) => {
+          const objectPath = problem.field?.slice(0, -1) ?? [];
+          const keys = problem.field?.slice(-1) ?? [];
+
+          packageInfo.addError(
+            ERRORS.ERROR_PACKAGE_JSON_RULE,
+            { ...problem, rule: rule.name },
+            keys.length > 0
+              ? packageInfo.locatePackageJsonKeys(objectPath, keys)
+              : []
+          );
+        });
+    });
+  }
 
-    if (isStringArray(paths)) {
-      paths.forEach((p) => {
-        const addonPath = path.join(realPathStr, p); // real path, though may not exist.
-        debug('Adding in-repo-addon at %o', this.relative(addonPath));
-        const addonPkgInfo = this.#readPackage(addonPath); // may have errors in the addon package.
+  /**
+   * Create the (invalid) PackageInfo for a package directory that does not exist
+   * and add it to the cache.
+   *
+   * @param normalizedPackageDir - the normalized path of the missing package directory,
+   * which is used as its real path.
+   * @param isRoot - for when this is to be considered the root package.
+   */
+  #createMissingPackageInfo(
+    normalizedPackageDir: string,
+    isRoot: boolean
+  ): PackageInfo {
+    const setupErrors = new ErrorList(normalizedPackageDir);
+    setupErrors.addError(
+      ERRORS.ERROR_PACKAGE_DIR_MISSING,
+      normalizedPackageDir
+    );
 
-        if (addonPkgInfo instanceof EmberAddonPackageInfo) {
-          (newPackageInfo as EmberAddonPackageInfo).addInRepoAddon(
-            addonPkgInfo
-          );
-        } else {
-          newPackageInfo.errors.addError(
-            `The addon's 'paths' entry '${p}' is not an addon!`,
-            undefined
-          );
-          newPackageInfo.valid = false;
-        }
-      });
-    }
+    const newPackageInfo = this.#createPackageInfo(
+      normalizedPackageDir,
+      undefined,
+      setupErrors,
+      isRoot
+    );
 
-    if (
-      newPackageInfo instanceof EmberAddonPackageInfo ||
-      newPackageInfo instanceof EmberAppPackageInfo
-    ) {
-      debug('Reading "node_modules" for %o', this.relative(realPath));
+    // there is nothing on disk, so there can't be any node_modules either.
+    newPackageInfo.nodeModules = NodeModulesList.nullInstance;
 
-      // read addon modules from node_modules. We read the whole directory
-      // because it's assumed that npm/yarn may have placed addons in the
-      // directory from lower down in the project tree, and we want to get
-      // the data into the cache ASAP. It may not necessarily be a 'real' error
-      // if we find an issue, if nobody below is actually invoking the addon.
-      const nodeModules = this.#readNodeModulesList(
-        path.join(realPath, 'node_modules')
-      );
+    return newPackageInfo;
+  }
 
-      if (nodeModules instanceof NodeModulesList) {
-        newPackageInfo.nodeModules = nodeModules;
-      }
+  /**
+   * Get the relative paths of any in-repo addons listed in 'ember-addon.paths'.
+   */
+  #getInRepoAddonPaths(packageInfo: PackageInfo): string[] {
+    const paths = getObjectProperty(
+      packageInfo,
+      'packageJson.ember-addon.paths'
+    );
+    return isStringArray(paths) ? paths : [];
+  }
+
+  /**
+   * Record the PackageInfo read for one of the 'ember-addon.paths' entries of
+   * a package, or an error if it isn't an addon.
+   */
+  #addInRepoAddon(
+    packageInfo: PackageInfo,
+    inRepoAddonPath: string,
+    addonPkgInfo: PackageInfo
+  ): void {
+    if (addonPkgInfo instanceof EmberAddonPackageInfo) {
+      (packageInfo as EmberAddonPackageInfo).addInRepoAddon(addonPkgInfo);
     } else {
-      // will not have node_modules addons, so even if there are node_modules here, we can
-      // simply pretend there are none.
-      newPackageInfo.nodeModules = NodeModulesList.nullInstance;
+      packageInfo.addError(
+        ERRORS.ERROR_EMBER_ADDON_PATH_NOT_ADDON,
+        inRepoAddonPath
+      );
+      packageInfo.valid = false;
     }
+  }
 
-    return newPackageInfo;
+  /**
+   * Indicate if a package may have addons in its node_modules, in which case we
+   * read the whole directory when the package is read.
+   */
+  #mayHaveAddons(packageInfo: PackageInfo): boolean {
+    return (
+      packageInfo instanceof EmberAddonPackageInfo ||
+      packageInfo instanceof EmberAppPackageInfo
+    );
   }
 
   /**
@@ -775,23 +2231,19 @@ export class PackageInfoCache {
     // fs.realpathSync will return the same value as normalizedNodeModulesDir, if
     // the directory actually exists). Because of that, we'll assume
     // we can test for normalizedNodeModulesDir first and return if we find it.
-    let nodeModulesEntry = this.getEntry(normalizedNodeModulesDir);
-
-    if (nodeModulesEntry instanceof NodeModulesList) {
-      return nodeModulesEntry;
-    }
+    let nodeModulesEntry = this.#getCachedNodeModulesList(
+      normalizedNodeModulesDir
+    );
 
     if (nodeModulesEntry) {
-      throw new Error(
-        `Attempted to read a NodeModulesList from path ${normalizedNodeModulesDir}, but there is already another object there`
-      );
+      return nodeModulesEntry;
     }
 
     // NOTE: because we call this when searching for objects in node_modules
     // directories that may not exist, we'll just return undefined here if the
     // directory is not real. If it actually is an error in some case,
     // the caller can create the error there.
-    const realPath = getRealDirectoryPath(normalizedNodeModulesDir);
+    const realPath = this.#getRealDirectoryPath(normalizedNodeModulesDir);
 
     if (realPath === null) {
       return undefined;
@@ -800,17 +2252,10 @@ export class PackageInfoCache {
     // realPath may be different than the original normalizedNodeModulesDir, so
     // we need to check the cache again.
     if (realPath !== normalizedNodeModulesDir) {
-      nodeModulesEntry = this.getEntry(realPath);
-      if (nodeModulesEntry instanceof NodeModulesList) {
-        return nodeModulesEntry;
-      }
+      nodeModulesEntry = this.#getCachedNodeModulesList(realPath);
 
-      if (nodeModulesEntry instanceof PackageInfo) {
-        throw new Error(
-          `Attempted to read a NodeModulesList from path '${this.relative(
-            realPath
-          )}', but there is already a PackageInfo there`
-        );
+      if (nodeModulesEntry) {
+        return nodeModulesEntry;
       }
     }
 
@@ -823,25 +2268,24 @@ export class PackageInfoCache {
       this.relative(realPath)
     );
 
-    // Annoyingly, because we assign 'nodeModulesEntry' above by doing 'getEntry',
-    // TS insists that the type is PackageInfo | NodeModulesList | undefined,
-    // but I need to force it to narrow to "it's just a NodeModulesList"
     const newNodeModulesList = new NodeModulesList(realPath, this);
 
-    const entries = fs.readdirSync(realPath).filter((fileName) => {
-      if (fileName.startsWith('.') || fileName.startsWith('_')) {
-        // we explicitly want to ignore these, according to the
-        // definition of a valid package name.
+    const fileNames = this.fileSystem.readdir(realPath) ?? [];
+
+    const entries = fileNames.filter((fileName) => {
+      if (!this.#isNodeModulesEntryName(fileName)) {
         return false;
       } else if (fileName.startsWith('@')) {
         return true;
-      } else if (!fs.existsSync(`${realPath}/${fileName}/package.json`)) {
+      } else if (
+        !this.fileSystem.stat(path.join(realPath, fileName, PACKAGE_JSON))
+      ) {
         // a node_module is only valid if it contains a package.json
         return false;
       } else {
         return true;
       }
-    }); // should not fail because getRealDirectoryPath passed
+    });
 
     entries.forEach((entryName) => {
       // entries should be either a package or a scoping directory. I think
@@ -849,7 +2293,7 @@ export class PackageInfoCache {
 
       const entryPath = path.join(realPath, entryName);
 
-      if (getRealFilePath(entryPath)) {
+      if (this.getRealFilePath(entryPath)) {
         // we explicitly want to ignore valid regular files in node_modules.
         // This is a bit slower than just checking for directories, but we need to be sure.
         return;
@@ -858,28 +2302,121 @@ export class PackageInfoCache {
       // At this point we have an entry name that should correspond to
       // a directory, which should turn into either a NodeModulesList or
       // PackageInfo. If not, it's an error on this NodeModulesList.
-      let entryVal;
-
-      if (entryName.startsWith('@')) {
-        // we should have a scoping directory.
-        entryVal = this.#readNodeModulesList(entryPath);
-
-        // readModulesDir only returns NodeModulesList or null
-        if (entryVal instanceof NodeModulesList) {
-          newNodeModulesList.addEntry(entryName, entryVal);
-        } else {
-          // This (null return) really should not occur, unless somehow the
-          // dir disappears between the time of fs.readdirSync and now.
-          newNodeModulesList.addError(
-            ERRORS.ERROR_NODEMODULES_ENTRY_MISSING,
-            entryName
+      const entryVal = entryName.startsWith('@')
+        ? this.#readNodeModulesList(entryPath) // we should have a scoping directory.
+        : this.#readPackage(entryPath); // we should have a package.
+
+      this.#addNodeModulesEntry(newNodeModulesList, entryName, entryVal);
+    });
+
+    this.#addEntry(realPath, newNodeModulesList);
+
+    return newNodeModulesList;
+  }
+
+  /**
+   * The asynchronous version of #readNodeModulesList(). The entries of the
+   * directory are read concurrently, but are added to the NodeModulesList in
+   * directory order, as #readNodeModulesList does.
+   *
+   * @param nodeModulesDir - the path of the node_modules directory.
+   */
+  #readNodeModulesListAsync(
+    nodeModulesDir: string
+  ): Promise<NodeModulesList | undefined> {
+    const normalizedNodeModulesDir = path.normalize(nodeModulesDir);
+
+    const nodeModulesEntry = this.#getCachedNodeModulesList(
+      normalizedNodeModulesDir
+    );
+
+    if (nodeModulesEntry) {
+      return Promise.resolve(nodeModulesEntry);
+    }
+
+    return this.#shareRead(normalizedNodeModulesDir, async () => {
+      const realPath = await this.#limit(() =>
+        this.#getRealDirectoryPathAsync(normalizedNodeModulesDir)
+      );
+
+      if (realPath === null) {
+        return undefined;
+      }
+
+      if (realPath === normalizedNodeModulesDir) {
+        return this.#loadNodeModulesListAsync(realPath);
+      }
+
+      const realNodeModulesEntry = this.#getCachedNodeModulesList(realPath);
+
+      if (realNodeModulesEntry) {
+        return realNodeModulesEntry;
+      }
+
+      return this.#shareRead(realPath, () =>
+        this.#loadNodeModulesListAsync(realPath)
+      );
+    });
+  }
+
+  /**
+   * Read the entries of a node_modules directory whose real path is known to
+   * exist and is not yet in the cache.
+   *
+   * @param realPath - the real path of the node_modules (or scope) directory.
+   */
+  async #loadNodeModulesListAsync(realPath: string): Promise<NodeModulesList> {
+    debug(
+      `Creating new NodeModulesList instance for %o`,
+      this.relative(realPath)
+    );
+
+    const newNodeModulesList = new NodeModulesList(realPath, this);
+
+    const fileNames =
+      (await this.#limit(() => this.fileSystem.readdirAsync(realPath))) ?? [];
+
+    const entryVals = await Promise.all(
+      fileNames.map(async (entryName) => {
+        if (!this.#isNodeModulesEntryName(entryName)) {
+          return null;
+        }
+
+        const entryPath = path.join(realPath, entryName);
+
+        if (!entryName.startsWith('@')) {
+          const hasPackageJson = await this.#limit(async () =>
+            Boolean(
+              await this.fileSystem.statAsync(
+                path.join(realPath, entryName, PACKAGE_JSON)
+              )
+            )
           );
+
+          if (!hasPackageJson) {
+            return null;
+          }
         }
-      } else {
-        // we should have a package. We will always get a PackageInfo
-        // back, though it may contain errors.
-        entryVal = this.#readPackage(entryPath);
-        newNodeModulesList.addEntry(entryName, entryVal);
+
+        const isFile = await this.#limit(() =>
+          this.#getRealFilePathAsync(entryPath)
+        );
+
+        if (isFile) {
+          return null;
+        }
+
+        return entryName.startsWith('@')
+          ? this.#readNodeModulesListAsync(entryPath)
+          : this.#readPackageAsync(entryPath);
+      })
+    );
+
+    fileNames.forEach((entryName, index) => {
+      const entryVal = entryVals[index];
+
+      if (entryVal !== null) {
+        this.#addNodeModulesEntry(newNodeModulesList, entryName, entryVal);
       }
     });
 
@@ -887,4 +2424,80 @@ export class PackageInfoCache {
 
     return newNodeModulesList;
   }
+
+  /**
+   * Look for an existing NodeModulesList in the cache at the given path.
+   * @param nodeModulesDir - the (normalized or real) path of the node_modules directory.
+   * @returns the NodeModulesList, or undefined if there is no entry for the path.
+   */
+  #getCachedNodeModulesList(
+    nodeModulesDir: string
+  ): NodeModulesList | undefined {
+    const entry = this.getEntry(nodeModulesDir);
+
+    if (entry && !(entry instanceof NodeModulesList)) {
+      throw new Error(
+        `Attempted to read a NodeModulesList from path '${this.relative(
+          nodeModulesDir
+        )}', but there is already a PackageInfo there`
+      );
+    }
+
+    return entry;
+  }
+
+  /**
+   * Indicate if a file name in a node_modules directory could be a package or scope.
+   */
+  #isNodeModulesEntryName(fileName: string): boolean {
+    // we explicitly want to ignore these, according to the
+    // definition of a valid package name.
+    return !fileName.startsWith('.') && !fileName.startsWith('_');
+  }
+
+  /**
+   * Add the PackageInfo or NodeModulesList read for an entry of a node_modules
+   * directory to its NodeModulesList.
+   */
+  #addNodeModulesEntry(
+    nodeModulesList: NodeModulesList,
+    entryName: string,
+    entryVal: PackageInfoCacheEntry | undefined
+  ): void {
+    // readModulesDir only returns NodeModulesList or null, and we will always
+    // get a PackageInfo back for a package, though it may contain errors.
+    if (entryVal) {
+      nodeModulesList.addEntry(entryName, entryVal);
+    } else {
+      // This (null return) really should not occur, unless somehow the
+      // dir disappears between the time of fs.readdirSync and now.
+      nodeModulesList.addError(
+        ERRORS.ERROR_NODEMODULES_ENTRY_MISSING,
+        entryName
+      );
+    }
+  }
+
+  /**
+   * Share a single in-progress asynchronous read among all the callers that
+   * ask for the same path before it finishes.
+   */
+  #shareRead<T extends PackageInfoCacheEntry | undefined>(
+    key: string,
+    read: () => Promise<T>
+  ): Promise<T> {
+    const pending = this.#pendingReads.get(key);
+
+    if (pending) {
+      return pending as Promise<T>;
+    }
+
+    const promise = read();
+    this.#pendingReads.set(key, promise);
+
+    const done = () => this.#pendingReads.delete(key);
+    promise.then(done, done);
+
+    return promise;
+  }
 }
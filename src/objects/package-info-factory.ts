@@ -1,3 +1,5 @@
+import type { PackageJson } from 'type-fest';
+
 import { isEmberAddonPackageJson } from '../types/ember-addon-package-json';
 import { isEmberAppPackageJson } from '../types/ember-app-package-json';
 import { isEmberEnginePackageJson } from '../types/ember-engine-package-json';
@@ -9,33 +11,170 @@ import { EmberPackageInfo } from './ember-package-info';
 import { PackageInfo } from './package-info';
 import { PackageInfoCache } from './package-info-cache';
 
+// A PackageInfo class (or subclass) the factory can create from a package.json of
+// type T (e.g. EmberAddonPackageJson).
+export type PackageInfoClass<T extends PackageJson = PackageJson> = new (
+  packageJson: T,
+  realPath: string,
+  cache: PackageInfoCache,
+  isRoot: boolean
+) => PackageInfo;
+
+/**
+ * A type of package the factory can create, registered with
+ * PackageInfoFactory.register() or the 'packageTypes' option of a
+ * PackageInfoCache. Its test() is a type guard for the type of package.json its
+ * PackageInfoClass takes, which is only given the package.json files the test
+ * accepts.
+ */
+export type PackageType<T extends PackageJson = PackageJson> = {
+  // identifies the registration, so it can be replaced or unregistered. This is
+  // usually the typeName() of the class.
+  name: string;
+
+  // the types are tried from the highest priority down, so a type must have a
+  // higher priority than any type whose packages it is a special case of (e.g.
+  // 'ember-engine' is higher than 'ember-addon').
+  priority: number;
+
+  // indicates if a package.json is one of this type.
+  test: (packageJson: PackageJson, realPath: string) => packageJson is T;
+
+  PackageInfoClass: PackageInfoClass<T>;
+};
+
+// A PackageType for any type of package.json, as in a list of types.
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export type AnyPackageType = PackageType<any>;
+
+// The Ember types that every factory starts with. A package that matches none of
+// the types is a plain PackageInfo.
+export const DEFAULT_PACKAGE_TYPES: readonly AnyPackageType[] = [
+  {
+    name: 'ember-engine',
+    priority: 400,
+    test: isEmberEnginePackageJson,
+    PackageInfoClass: EmberEnginePackageInfo,
+  },
+  {
+    name: 'ember-addon',
+    priority: 300,
+    test: isEmberAddonPackageJson,
+    PackageInfoClass: EmberAddonPackageInfo,
+  },
+  {
+    name: 'ember-app',
+    priority: 200,
+    test: isEmberAppPackageJson,
+    PackageInfoClass: EmberAppPackageInfo,
+  },
+  {
+    name: 'ember-package',
+    priority: 100,
+    test: isEmberPackageJson,
+    PackageInfoClass: EmberPackageInfo,
+  },
+];
+
+// A registered type of package, with a function that creates its PackageInfoClass
+// for a package.json its test() accepts, or returns undefined for any other.
+type Registration = {
+  packageType: AnyPackageType;
+  create: (
+    packageJson: PackageJson,
+    realPath: string,
+    cache: PackageInfoCache,
+    isRoot: boolean
+  ) => PackageInfo | undefined;
+};
+
 /**
  * A factory to create the right type of PackageInfo class, based on the
- * data in the incoming package.json data.
+ * data in the incoming package.json data. Each PackageInfoCache has its own
+ * (its packageInfoFactory), with the DEFAULT_PACKAGE_TYPES registered.
  */
 export class PackageInfoFactory {
-  static create(
-    pkgJson: Record<string, unknown>,
+  // sorted from the highest priority down.
+  #registrations: Registration[];
+
+  constructor(packageTypes: readonly AnyPackageType[] = DEFAULT_PACKAGE_TYPES) {
+    this.#registrations = [];
+    packageTypes.forEach((packageType) => this.register(packageType));
+  }
+
+  /**
+   * Register a type of package. A type with the same name as one already
+   * registered replaces it. Of types with the same priority, the one registered
+   * last is tried first.
+   *
+   * @param packageType - the type to register.
+   */
+  register<T extends PackageJson>(packageType: PackageType<T>): void {
+    this.unregister(packageType.name);
+
+    const index = this.#registrations.findIndex(
+      (registration) =>
+        registration.packageType.priority <= packageType.priority
+    );
+
+    this.#registrations.splice(
+      index === -1 ? this.#registrations.length : index,
+      0,
+      {
+        packageType,
+        create: (packageJson, realPath, cache, isRoot) =>
+          packageType.test(packageJson, realPath)
+            ? new packageType.PackageInfoClass(
+                packageJson,
+                realPath,
+                cache,
+                isRoot
+              )
+            : undefined,
+      }
+    );
+  }
+
+  /**
+   * Unregister a type of package.
+   *
+   * @param name - the name of the type.
+   * @returns true if the type was registered.
+   */
+  unregister(name: string): boolean {
+    const index = this.#registrations.findIndex(
+      ({ packageType }) => packageType.name === name
+    );
+
+    if (index === -1) {
+      return false;
+    }
+
+    this.#registrations.splice(index, 1);
+    return true;
+  }
+
+  /**
+   * Get the registered types of package, in the order they are tried.
+   */
+  getPackageTypes(): AnyPackageType[] {
+    return this.#registrations.map(({ packageType }) => packageType);
+  }
+
+  create(
+    pkgJson: PackageJson,
     realPath: string,
     cache: PackageInfoCache,
     isRoot: boolean
   ): PackageInfo {
-    // we have to do this from most specific up to least, because any superclass tests
+    // the types are sorted from most specific to least, because any superclass tests
     // would pass before the subclass ones would have a chance.
-    if (isEmberEnginePackageJson(pkgJson)) {
-      return new EmberEnginePackageInfo(pkgJson, realPath, cache, isRoot);
-    }
-
-    if (isEmberAddonPackageJson(pkgJson)) {
-      return new EmberAddonPackageInfo(pkgJson, realPath, cache, isRoot);
-    }
-
-    if (isEmberAppPackageJson(pkgJson)) {
-      return new EmberAppPackageInfo(pkgJson, realPath, cache, isRoot);
-    }
+    for (const { create } of this.#registrations) {
+      const packageInfo = create(pkgJson, realPath, cache, isRoot);
 
-    if (isEmberPackageJson(pkgJson)) {
-      return new EmberPackageInfo(pkgJson, realPath, cache, isRoot);
+      if (packageInfo) {
+        return packageInfo;
+      }
     }
 
     return new PackageInfo(pkgJson, realPath, cache, isRoot);
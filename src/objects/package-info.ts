@@ -2,14 +2,46 @@ import Debug from 'debug';
 import path from 'node:path';
 import type { PackageJson } from 'type-fest';
 
-import { lexicographically, pushUnique } from '../utils';
+import {
+  findJsonKeyLocations,
+  isString,
+  lexicographically,
+  parsePackageRequest,
+  parsePnpmStorePath,
+  PnpmStoreEntry,
+  pushUnique,
+  SourceLocation,
+} from '../utils';
+import { DependencyEdge, DependencyRangeMismatch } from './dependency-edge';
 import { ErrorList } from './error-list';
-import { ERRORS } from './errors';
+import {
+  DEPENDENCY_ERRORS,
+  ErrorData,
+  ERRORS,
+  ErrorType,
+  EXPORTS_ERRORS,
+} from './errors';
 import { NodeModulesList } from './node-modules-list';
+import {
+  BrokenPackageTarget,
+  DEFAULT_CONDITIONS,
+  isValidPackageTarget,
+  listPackageTargets,
+  resolvePackageExports,
+  resolvePackageImports,
+} from './package-exports';
 import { PackageInfoCache } from './package-info-cache';
 
 const debug = Debug('PIC:package-info');
 
+// The data of an ERROR_PEERDEPENDENCIES_MISMATCH error, for each peer whose
+// installed version does not satisfy the declared range.
+export type PeerDependencyMismatch = {
+  name: string;
+  range: string;
+  version: string | undefined;
+};
+
 /**
  * Class that stores information about a single PackageJson (directory tree with
  * a package.json and other data) It or one of its subclasses is one of the
@@ -23,6 +55,9 @@ export class PackageInfo {
   isRoot: boolean;
   errors: ErrorList;
 
+  // set for the members of a workspace loaded with PackageInfoCache.loadWorkspace().
+  isWorkspaceMember: boolean;
+
   // obj keyed by dependency name, PackageInfo. All dependencies, not just addons
   dependenciesPackages?: Map<string, PackageInfo>;
 
@@ -31,12 +66,17 @@ export class PackageInfo {
 
   optionalDependenciesPackages?: Map<string, PackageInfo>;
 
+  // the names of any optionalDependencies that are not installed (e.g. platform-specific
+  // packages like 'fsevents'). These are not errors.
+  optionalDependenciesSkipped?: string[];
+
+  // obj keyed by peerDep name, PackageInfo. The peers found from the point of view of
+  // the package that would provide them (see addPeerDependencies).
+  peerDependenciesPackages?: Map<string, PackageInfo>;
+
   // (NodeModulesList, set only if pkg contains node_modules)
   nodeModules?: NodeModulesList;
 
-  // note that we're not defining peerDependenciesPackages, because they're supposed to be provided
-  // by another object.
-
   // live indicator during processing
   processed = false;
 
@@ -54,13 +94,16 @@ export class PackageInfo {
     this.packageJson = pkgObj;
     this.realPath = realPath;
     this.cache = cache;
-    this.errors = new ErrorList();
+    this.errors = new ErrorList(realPath);
     this.isRoot = isRoot;
+    this.isWorkspaceMember = false;
 
     // other fields that will be set as needed. For JIT we'll define them here.
     this.dependenciesPackages = undefined;
     this.devDependenciesPackages = undefined;
     this.optionalDependenciesPackages = undefined;
+    this.optionalDependenciesSkipped = undefined;
+    this.peerDependenciesPackages = undefined;
     this.nodeModules = undefined;
 
     // flag indicating that the packageInfo is considered valid. This will
@@ -78,6 +121,11 @@ export class PackageInfo {
     return this.packageJson.name;
   }
 
+  // where the package is in pnpm's virtual store (node_modules/.pnpm), if it is.
+  get pnpmStoreEntry(): PnpmStoreEntry | undefined {
+    return parsePnpmStorePath(this.realPath);
+  }
+
   // This will be overridden by subclasses
   typeName(): string {
     return 'package';
@@ -89,15 +137,20 @@ export class PackageInfo {
    * should not be called otherwise.
    *
    * @param errorType - one of the Errors.ERROR_* constants.
-   * @param errorData - any error data relevant to the type of error
-   * being created. See showErrors().
+   * @param errorData - the error data for the type of error being created
+   * (see ErrorData).
+   * @param locations - where the error is in the package.json, if known.
    */
-  addError(errorType: string, errorData: unknown): void {
-    this.errors.addError(errorType, errorData);
+  addError<T extends ErrorType>(
+    errorType: T,
+    errorData: ErrorData[T],
+    locations?: SourceLocation[]
+  ): void {
+    this.errors.addError(errorType, errorData, locations);
   }
 
   /**
-   * Indicate if there are any errors in the ErrorList for this package. Note that this does
+   * Indicate if there are any errors (not just warnings) in the ErrorList for this package. Note that this does
    * NOT indicate if there are any errors in the objects referred to by this package (e.g.,
    * internal addons or dependencies).
    */
@@ -122,14 +175,23 @@ export class PackageInfo {
    * Note: this is only intended for use from PackageInfoCache._resolveDependencies.
    * It is not to be called directly by anything else.
    *
+   * Dependencies that are also listed in 'optionalDependencies' are not reported
+   * as missing, since npm and yarn skip them when they can't be installed.
+   *
    * @param dependenciesObj - value of 'dependencies' or 'devDependencies' attributes
    * of a package.json.
+   * @param errorType - the type of error to record for any missing dependencies, or
+   * undefined if missing dependencies are not errors.
+   * @param listName - the name of the attribute, e.g. 'dependencies'.
    * @returns a JavaScript object keyed on dependency name/path with
    *    values the corresponding PackageInfo object from the cache.
    */
   doAddDependencies(
     dependenciesObj: Partial<Record<string, string>> | undefined,
-    errorType: string,
+    errorType:
+      | typeof ERRORS.ERROR_DEPENDENCIES_MISSING
+      | typeof ERRORS.ERROR_DEVDEPENDENCIES_MISSING
+      | undefined,
     listName: string
   ): Map<string, PackageInfo> | undefined {
     if (!dependenciesObj) {
@@ -145,6 +207,7 @@ export class PackageInfo {
     const packages: Map<string, PackageInfo> = new Map();
 
     const missingDependencies: string[] = [];
+    const outOfRangeDependencies: DependencyRangeMismatch[] = [];
 
     dependencyNames.forEach((dependencyName) => {
       debug(
@@ -155,13 +218,18 @@ export class PackageInfo {
         dependencyName
       );
 
-      let dependencyPackage: PackageInfo | undefined;
+      // a resolution backend (e.g. for Yarn Plug'n'Play) knows where each
+      // package's dependencies are, without any node_modules directories.
+      let dependencyPackage = this.cache.findBackendPackage(
+        dependencyName,
+        this.realPath
+      );
 
       // much of the time the package will have dependencies in
       // a node_modules inside it, so check there first because it's
       // quicker since we have the reference. Only check externally
       // if we don't find it there.
-      if (this.nodeModules) {
+      if (!dependencyPackage && this.nodeModules) {
         dependencyPackage = this.nodeModules.findPackage(dependencyName);
       }
 
@@ -172,15 +240,47 @@ export class PackageInfo {
         ) as PackageInfo;
       }
 
+      // the package manager links workspace members into node_modules, but
+      // that may not have been done yet.
+      if (!dependencyPackage) {
+        dependencyPackage = this.cache.workspacePackages.get(dependencyName);
+      }
+
       if (dependencyPackage) {
         packages.set(dependencyName, dependencyPackage);
-      } else {
+
+        const edge = new DependencyEdge(
+          listName,
+          dependencyName,
+          dependenciesObj[dependencyName] ?? '',
+          dependencyPackage
+        );
+
+        if (edge.satisfied === false) {
+          outOfRangeDependencies.push(edge.toRangeMismatch());
+        }
+      } else if (!this.packageJson.optionalDependencies?.[dependencyName]) {
         missingDependencies.push(dependencyName);
       }
     });
 
-    if (missingDependencies.length > 0) {
-      this.addError(errorType, missingDependencies);
+    if (errorType && missingDependencies.length > 0) {
+      this.addError(
+        errorType,
+        missingDependencies,
+        this.#locateDependencies(listName, missingDependencies)
+      );
+    }
+
+    if (outOfRangeDependencies.length > 0) {
+      this.addError(
+        ERRORS.ERROR_DEPENDENCIES_OUT_OF_RANGE,
+        outOfRangeDependencies,
+        this.#locateDependencies(
+          listName,
+          outOfRangeDependencies.map(({ name }) => name)
+        )
+      );
     }
 
     return packages;
@@ -205,6 +305,315 @@ export class PackageInfo {
       'devDependencies'
     );
   }
+
+  /**
+   * Find the installed optional dependencies, as addDependencies() does for regular
+   * ones. Optional dependencies that are not installed are not errors; their names
+   * are recorded in optionalDependenciesSkipped instead.
+   *
+   * @param dependencies - value of the 'optionalDependencies' attribute of a package.json.
+   * @returns a map of dependency name to the PackageInfo of the installed dependency.
+   */
+  addOptionalDependencies(
+    dependencies: Partial<Record<string, string>> | undefined
+  ): Map<string, PackageInfo> | undefined {
+    const packages = this.doAddDependencies(
+      dependencies,
+      undefined,
+      'optionalDependencies'
+    );
+
+    this.optionalDependenciesSkipped = dependencies
+      ? Object.keys(dependencies).filter((name) => !packages?.has(name))
+      : undefined;
+
+    return packages;
+  }
+
+  /**
+   * For each peer dependency in the given list, find the corresponding PackageInfo
+   * object in the cache. Peers are provided by the package that depends on this one,
+   * so they are found from the point of view of that 'parent' package (the package
+   * whose node_modules contains this one), not from this package's own directory.
+   * Peers marked as optional in 'peerDependenciesMeta' may be missing. Peers whose
+   * installed version does not satisfy the declared range are reported as mismatched.
+   *
+   * Note: this is only intended for use from PackageInfoCache._resolveDependencies.
+   *
+   * @param peerDependencies - value of the 'peerDependencies' attribute of a package.json.
+   * @param peerDependenciesMeta - value of the 'peerDependenciesMeta' attribute of a package.json.
+   * @returns a map of peer dependency name to the PackageInfo of the installed peer.
+   */
+  addPeerDependencies(
+    peerDependencies: Partial<Record<string, string>> | undefined,
+    peerDependenciesMeta?: Partial<Record<string, { optional?: boolean }>>
+  ): Map<string, PackageInfo> | undefined {
+    if (!peerDependencies) {
+      return undefined;
+    }
+
+    const peerNames = Object.keys(peerDependencies);
+
+    if (peerNames.length === 0) {
+      return undefined;
+    }
+
+    const packages: Map<string, PackageInfo> = new Map();
+    const missingPeers: string[] = [];
+    const mismatchedPeers: PeerDependencyMismatch[] = [];
+    const parentPath = this.#getParentPath();
+
+    peerNames.forEach((peerName) => {
+      debug(
+        `%s: From %o, trying to find peerDependency %o`,
+        this.packageJson.name,
+        this.cache.relative(parentPath),
+        peerName
+      );
+
+      // a resolution backend resolves peers from the package itself, as the
+      // package manager has already matched them with the parent's packages.
+      const peerPackage =
+        this.cache.findBackendPackage(peerName, this.realPath) ??
+        this.cache.findPackage(peerName, parentPath);
+
+      if (!peerPackage) {
+        if (!peerDependenciesMeta?.[peerName]?.optional) {
+          missingPeers.push(peerName);
+        }
+        return;
+      }
+
+      packages.set(peerName, peerPackage);
+
+      const edge = new DependencyEdge(
+        'peerDependencies',
+        peerName,
+        peerDependencies[peerName] ?? '',
+        peerPackage
+      );
+
+      if (edge.satisfied === false) {
+        mismatchedPeers.push({
+          name: peerName,
+          range: edge.range,
+          version: edge.installedVersion,
+        });
+      }
+    });
+
+    if (missingPeers.length > 0) {
+      this.addError(
+        ERRORS.ERROR_PEERDEPENDENCIES_MISSING,
+        missingPeers,
+        this.#locateDependencies('peerDependencies', missingPeers)
+      );
+    }
+
+    if (mismatchedPeers.length > 0) {
+      this.addError(
+        ERRORS.ERROR_PEERDEPENDENCIES_MISMATCH,
+        mismatchedPeers,
+        this.#locateDependencies(
+          'peerDependencies',
+          mismatchedPeers.map(({ name }) => name)
+        )
+      );
+    }
+
+    return packages;
+  }
+
+  /**
+   * Get the resolved dependencies of this package (of all types), each with the
+   * range requested in the package.json and the package it resolved to. Missing
+   * dependencies are not included.
+   */
+  getDependencyEdges(): DependencyEdge[] {
+    const edges: DependencyEdge[] = [];
+
+    const dependencyLists: [
+      string,
+      Map<string, PackageInfo> | undefined,
+      Partial<Record<string, string>> | undefined
+    ][] = [
+      [
+        'dependencies',
+        this.dependenciesPackages,
+        this.packageJson.dependencies,
+      ],
+      [
+        'devDependencies',
+        this.devDependenciesPackages,
+        this.packageJson.devDependencies,
+      ],
+      [
+        'optionalDependencies',
+        this.optionalDependenciesPackages,
+        this.packageJson.optionalDependencies,
+      ],
+      [
+        'peerDependencies',
+        this.peerDependenciesPackages,
+        this.packageJson.peerDependencies,
+      ],
+    ];
+
+    dependencyLists.forEach(([dependencyType, packages, ranges]) => {
+      packages?.forEach((packageInfo, name) => {
+        edges.push(
+          new DependencyEdge(
+            dependencyType,
+            name,
+            ranges?.[name] ?? '',
+            packageInfo
+          )
+        );
+      });
+    });
+
+    return edges;
+  }
+
+  /**
+   * Forget the dependencies resolved for this package, along with any errors
+   * found while resolving them, so that they will be resolved again.
+   *
+   * Note: this is only intended for use from PackageInfoCache.invalidate().
+   */
+  resetDependencies(): void {
+    this.dependenciesPackages = undefined;
+    this.devDependenciesPackages = undefined;
+    this.optionalDependenciesPackages = undefined;
+    this.optionalDependenciesSkipped = undefined;
+    this.peerDependenciesPackages = undefined;
+    this.errors.removeErrors(DEPENDENCY_ERRORS);
+    this.processed = false;
+  }
+
+  /**
+   * Resolve a subpath of the package to a file, as Node does for an import of
+   * the package: through the 'exports' field if there is one (see
+   * resolvePackageExports()), or else to the 'main' file (by default index.js)
+   * for '.' and to the file at any other subpath, trying the '.js', '.json' and
+   * '/index.js' extensions as require() does.
+   *
+   * @param subpath - the subpath, '.' for the package itself or e.g. './feature'.
+   * @param conditions - the conditions to match besides 'default' (by default
+   * the DEFAULT_CONDITIONS, 'node' and 'import').
+   * @returns the real path of the file, or undefined if the subpath is not
+   * exported or the file does not exist.
+   */
+  resolveExport(
+    subpath = '.',
+    conditions: readonly string[] = DEFAULT_CONDITIONS
+  ): string | undefined {
+    if (this.packageJson.exports === undefined) {
+      return this.#resolveFile(
+        subpath === '.' ? this.packageJson.main ?? 'index.js' : subpath,
+        true
+      );
+    }
+
+    const target = resolvePackageExports(
+      this.packageJson.exports,
+      subpath,
+      conditions
+    )?.target;
+
+    return target ? this.#resolveFile(target, false) : undefined;
+  }
+
+  /**
+   * Resolve a '#' specifier imported by a module of the package to a file,
+   * through the package's 'imports' field (see resolvePackageImports()). A
+   * target that is a package specifier is resolved from the package, and then
+   * through that package's exports.
+   *
+   * @param specifier - the specifier, e.g. '#internal/a.js'.
+   * @param conditions - the conditions to match besides 'default' (by default
+   * the DEFAULT_CONDITIONS).
+   * @returns the real path of the file, or undefined if the specifier is not
+   * defined or the file does not exist.
+   */
+  resolveImport(
+    specifier: string,
+    conditions: readonly string[] = DEFAULT_CONDITIONS
+  ): string | undefined {
+    const target = resolvePackageImports(
+      this.packageJson.imports,
+      specifier,
+      conditions
+    )?.target;
+
+    if (!target) {
+      return undefined;
+    }
+
+    if (target.startsWith('./')) {
+      return this.#resolveFile(target, false);
+    }
+
+    const request = parsePackageRequest(target);
+    const dependency =
+      request && this.cache.findDependency(this.realPath, target);
+
+    return request && dependency?.resolveExport(request.subpath, conditions);
+  }
+
+  /**
+   * Check the targets of the package's 'exports' and 'imports' fields under every
+   * condition, recording an ERROR_EXPORTS_TARGET_INVALID error for the targets
+   * that are not valid (e.g. paths outside the package) and an
+   * ERROR_EXPORTS_TARGET_MISSING error for the files that do not exist. Targets
+   * with a '*' pattern are only checked to be valid, and package specifiers in
+   * 'imports' are not resolved. The errors of any earlier check are removed.
+   */
+  checkExports(): void {
+    this.errors.removeErrors(EXPORTS_ERRORS);
+
+    const invalidTargets: BrokenPackageTarget[] = [];
+    const missingTargets: BrokenPackageTarget[] = [];
+
+    (['exports', 'imports'] as const).forEach((field) => {
+      const isImports = field === 'imports';
+
+      listPackageTargets(this.packageJson[field], isImports).forEach(
+        ({ key, target }) => {
+          if (!isValidPackageTarget(target, isImports)) {
+            invalidTargets.push({
+              field,
+              key,
+              target: isString(target) ? target : JSON.stringify(target),
+            });
+          } else if (
+            target.startsWith('./') &&
+            !target.includes('*') &&
+            !this.#resolveFile(target, false)
+          ) {
+            missingTargets.push({ field, key, target });
+          }
+        }
+      );
+    });
+
+    if (invalidTargets.length > 0) {
+      this.addError(
+        ERRORS.ERROR_EXPORTS_TARGET_INVALID,
+        invalidTargets,
+        this.#locateTargets(invalidTargets)
+      );
+    }
+
+    if (missingTargets.length > 0) {
+      this.addError(
+        ERRORS.ERROR_EXPORTS_TARGET_MISSING,
+        missingTargets,
+        this.#locateTargets(missingTargets)
+      );
+    }
+  }
+
   /**
    * Add to a list of child PackageInfos for this packageInfo.
    *
@@ -284,4 +693,111 @@ export class PackageInfo {
       console.warn(msg); // this might be something else later.
     }
   }
+
+  /**
+   * Find the real path of a file in the package.
+   *
+   * @param filePath - the path of the file, relative to the package's directory.
+   * @param tryExtensions - true to also try the '.js', '.json' and '/index.js'
+   * extensions, as require() does.
+   */
+  #resolveFile(filePath: string, tryExtensions: boolean): string | undefined {
+    const absolutePath = path.join(this.realPath, filePath);
+    const candidates = tryExtensions
+      ? [
+          absolutePath,
+          `${absolutePath}.js`,
+          `${absolutePath}.json`,
+          path.join(absolutePath, 'index.js'),
+        ]
+      : [absolutePath];
+
+    for (const candidate of candidates) {
+      const realPath = this.cache.getRealFilePath(candidate);
+
+      if (realPath) {
+        return realPath;
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Find the keys of the 'exports' and 'imports' fields that have broken targets,
+   * for the locations of an error about them.
+   */
+  #locateTargets(brokenTargets: BrokenPackageTarget[]): SourceLocation[] {
+    return (['exports', 'imports'] as const).flatMap((field) => {
+      const keys = [
+        ...new Set(
+          brokenTargets
+            .filter((brokenTarget) => brokenTarget.field === field)
+            .map(({ key }) => key)
+        ),
+      ];
+
+      return keys.length > 0 ? this.locatePackageJsonKeys([field], keys) : [];
+    });
+  }
+
+  /**
+   * Find the keys of some dependencies in the package.json, for the locations of
+   * an error about them. The file is only read again when there is an error, so
+   * the text of every package.json doesn't have to be kept.
+   *
+   * @param listName - the dependency list, e.g. 'devDependencies'.
+   * @param dependencyNames - the names of the dependencies.
+   * @returns the location of each name, in the same order, or an empty array if
+   * they can't all be found.
+   */
+  #locateDependencies(
+    listName: string,
+    dependencyNames: string[]
+  ): SourceLocation[] {
+    return this.locatePackageJsonKeys([listName], dependencyNames);
+  }
+
+  /**
+   * Find some keys of an object in the package's package.json file, for the
+   * locations of an error.
+   *
+   * @param objectPath - the keys of the object from the top level, e.g.
+   * ['ember-addon'].
+   * @param keys - the keys of the properties.
+   * @returns the location of each key, or an empty array if any can't be found.
+   */
+  locatePackageJsonKeys(
+    objectPath: string[],
+    keys: string[]
+  ): SourceLocation[] {
+    const packageJsonPath = path.join(this.realPath, 'package.json');
+    const contents = this.cache.readFile(packageJsonPath);
+
+    return contents === undefined
+      ? []
+      : findJsonKeyLocations(contents, packageJsonPath, objectPath, keys);
+  }
+
+  /**
+   * Get the directory that peer dependencies are resolved from: the directory of
+   * the package whose node_modules contains this one. The root package has no
+   * parent, so its peers are expected to be installed in its own node_modules, and
+   * a package outside of any node_modules (e.g., an in-repo addon) is resolved from
+   * the directory containing it, as its dependencies are.
+   */
+  #getParentPath(): string {
+    if (this.isRoot) {
+      return this.realPath;
+    }
+
+    const parts = this.realPath.split(path.sep);
+    const nodeModulesIndex = parts.lastIndexOf('node_modules');
+
+    if (nodeModulesIndex > 0) {
+      return parts.slice(0, nodeModulesIndex).join(path.sep) || path.sep;
+    }
+
+    return path.dirname(this.realPath);
+  }
 }
@@ -0,0 +1,248 @@
+import { getObjectProperty, isObject, isString, isStringArray } from '../utils';
+import type { PackageInfo } from './package-info';
+
+const EMBER_EDITIONS = ['classic', 'octane'];
+
+// the 'ember-addon' fields that only an addon (not an app) has.
+const ADDON_ONLY_FIELDS = ['main', 'before', 'after', 'version'];
+
+// the top-level fields that npm no longer uses, with the field that replaces
+// them, if any.
+const DEPRECATED_FIELDS: Record<string, string | undefined> = {
+  engineStrict: undefined,
+  licenses: 'license',
+  preferGlobal: undefined,
+};
+
+// A problem a rule finds in a package.json.
+export type PackageJsonProblem = {
+  // what is wrong, following "the package.json file", e.g. "has no 'version' field".
+  message: string;
+
+  // the keys of the field the problem is in, from the top level (e.g. ['ember',
+  // 'edition']), to locate the problem in the file.
+  field?: string[];
+};
+
+// The data of an ERROR_PACKAGE_JSON_RULE warning.
+export type PackageJsonFinding = PackageJsonProblem & {
+  // the name of the rule that found the problem.
+  rule: string;
+};
+
+/**
+ * A rule that checks the contents of every package.json loaded into a
+ * PackageInfoCache (see the 'packageJsonRules' option). Each problem it finds is
+ * recorded as an ERROR_PACKAGE_JSON_RULE warning on the package.
+ */
+export type PackageJsonRule = {
+  name: string;
+
+  /**
+   * Check a package.json.
+   *
+   * @param packageJson - the contents of the package.json.
+   * @param packageInfo - the package, e.g. to check its typeName().
+   * @returns the problems found, if any.
+   */
+  check(
+    packageJson: Record<string, unknown>,
+    packageInfo: PackageInfo
+  ): PackageJsonProblem[];
+};
+
+// 'name', and 'version' unless the package is private.
+const requiredFields: PackageJsonRule = {
+  name: 'required-fields',
+  check(packageJson) {
+    const problems: PackageJsonProblem[] = [];
+
+    ['name', 'version'].forEach((field) => {
+      const value = packageJson[field];
+
+      if (value === undefined) {
+        if (field === 'name' || packageJson.private !== true) {
+          problems.push({ message: `has no '${field}' field` });
+        }
+      } else if (!isString(value) || value === '') {
+        problems.push({
+          message: `has an invalid '${field}' field`,
+          field: [field],
+        });
+      }
+    });
+
+    return problems;
+  },
+};
+
+// an 'ember.edition' that ember-cli knows.
+const emberEdition: PackageJsonRule = {
+  name: 'ember-edition',
+  check(packageJson) {
+    const ember = packageJson.ember;
+
+    if (ember === undefined) {
+      return [];
+    }
+
+    if (!isObject(ember) || Array.isArray(ember)) {
+      return [
+        {
+          message: `has an 'ember' field that is not an object`,
+          field: ['ember'],
+        },
+      ];
+    }
+
+    const edition = getObjectProperty(ember, 'edition');
+
+    if (edition === undefined) {
+      return [{ message: `has no 'ember.edition' field`, field: ['ember'] }];
+    }
+
+    return EMBER_EDITIONS.includes(edition as string)
+      ? []
+      : [
+          {
+            message: `has an 'ember.edition' of ${JSON.stringify(
+              edition
+            )}, not 'classic' or 'octane'`,
+            field: ['ember', 'edition'],
+          },
+        ];
+  },
+};
+
+// the types of the fields of the 'ember-addon' block.
+const emberAddonShape: PackageJsonRule = {
+  name: 'ember-addon-shape',
+  check(packageJson) {
+    const emberAddon = packageJson['ember-addon'];
+
+    if (emberAddon === undefined) {
+      return [];
+    }
+
+    if (!isObject(emberAddon) || Array.isArray(emberAddon)) {
+      return [
+        {
+          message: `has an 'ember-addon' field that is not an object`,
+          field: ['ember-addon'],
+        },
+      ];
+    }
+
+    const fields = emberAddon as Record<string, unknown>;
+    const problems: PackageJsonProblem[] = [];
+
+    const checkField = (
+      field: string,
+      isValid: (value: unknown) => boolean,
+      description: string
+    ): void => {
+      if (fields[field] !== undefined && !isValid(fields[field])) {
+        problems.push({
+          message: `has an 'ember-addon.${field}' field that is not ${description}`,
+          field: ['ember-addon', field],
+        });
+      }
+    };
+
+    const isStringOrStringArray = (value: unknown) =>
+      isString(value) || isStringArray(value);
+
+    checkField('paths', isStringArray, 'an array of strings');
+    checkField('main', isString, 'a string');
+    checkField('configPath', isString, 'a string');
+    checkField('projectRoot', isString, 'a string');
+    checkField('before', isStringOrStringArray, 'a string or array of strings');
+    checkField('after', isStringOrStringArray, 'a string or array of strings');
+    checkField('version', (value) => typeof value === 'number', 'a number');
+
+    return problems;
+  },
+};
+
+// the keywords that make a package an addon or an engine, and the fields that go
+// with them, so a package is not silently loaded as a plain package.
+const emberAddonKeywords: PackageJsonRule = {
+  name: 'ember-addon-keywords',
+  check(packageJson) {
+    const keywords = packageJson.keywords;
+
+    if (keywords !== undefined && !isStringArray(keywords)) {
+      return [
+        {
+          message: `has a 'keywords' field that is not an array of strings`,
+          field: ['keywords'],
+        },
+      ];
+    }
+
+    const problems: PackageJsonProblem[] = [];
+    const isAddon = keywords?.includes('ember-addon') ?? false;
+    const edition = getObjectProperty(packageJson, 'ember.edition');
+
+    if (isAddon && !EMBER_EDITIONS.includes(edition as string)) {
+      problems.push({
+        message: `has the 'ember-addon' keyword but no valid 'ember.edition', so it is not loaded as an addon`,
+        field: ['keywords'],
+      });
+    }
+
+    if (keywords?.includes('ember-engine') && !isAddon) {
+      problems.push({
+        message: `has the 'ember-engine' keyword but not the 'ember-addon' keyword, so it is not loaded as an engine`,
+        field: ['keywords'],
+      });
+    }
+
+    const emberAddon = packageJson['ember-addon'];
+
+    if (!isAddon && isObject(emberAddon)) {
+      const addonFields = ADDON_ONLY_FIELDS.filter(
+        (field) => getObjectProperty(emberAddon, field) !== undefined
+      );
+
+      if (addonFields.length > 0) {
+        problems.push({
+          message: `has addon fields in 'ember-addon' (${addonFields
+            .map((field) => `'${field}'`)
+            .join(', ')}) but not the 'ember-addon' keyword`,
+          field: ['ember-addon'],
+        });
+      }
+    }
+
+    return problems;
+  },
+};
+
+// fields that npm no longer uses.
+const deprecatedFields: PackageJsonRule = {
+  name: 'deprecated-fields',
+  check(packageJson) {
+    return Object.keys(DEPRECATED_FIELDS)
+      .filter((field) => packageJson[field] !== undefined)
+      .map((field) => {
+        const replacement = DEPRECATED_FIELDS[field];
+
+        return {
+          message: replacement
+            ? `has a deprecated '${field}' field (use '${replacement}' instead)`
+            : `has a deprecated '${field}' field`,
+          field: [field],
+        };
+      });
+  },
+};
+
+// The rules a PackageInfoCache checks every package.json with by default.
+export const DEFAULT_PACKAGE_JSON_RULES: readonly PackageJsonRule[] = [
+  requiredFields,
+  emberEdition,
+  emberAddonShape,
+  emberAddonKeywords,
+  deprecatedFields,
+];
@@ -0,0 +1,386 @@
+import AdmZip from 'adm-zip';
+import Debug from 'debug';
+import path from 'node:path';
+
+import { isString, parseJson } from '../utils';
+import type { FileSystem } from './file-system';
+import { NodeFileSystem } from './node-file-system';
+import type { ResolutionBackend } from './resolution-backend';
+
+const debug = Debug('PIC:pnp-resolution-backend');
+
+const PNP_DATA_FILE = '.pnp.data.json';
+const PNP_RUNTIME_FILE = '.pnp.cjs';
+const VIRTUAL_DIR = '__virtual__';
+
+// the package registry inlined into .pnp.cjs, as a single-quoted string literal.
+const RAW_RUNTIME_STATE_PATTERN =
+  /\bRAW_RUNTIME_STATE\s*=\s*'((?:[^'\\]|\\[\s\S])*)'/;
+
+// What a dependency name maps to in a package's dependencies: the reference of
+// the package with that name, a [name, reference] pair for an alias, or null
+// for a peer dependency that nothing provides.
+export type PnpDependencyTarget = string | [string, string] | null;
+
+export type PnpPackageInformation = {
+  // relative to the directory of the .pnp.cjs file, e.g.
+  // './.yarn/cache/lodash-npm-4.17.21-6382451519-eb835a2e51.zip/node_modules/lodash/'.
+  packageLocation: string;
+  packageDependencies: [string, PnpDependencyTarget][];
+  linkType?: 'HARD' | 'SOFT';
+};
+
+/**
+ * The parts of Yarn's Plug'n'Play runtime state (the contents of .pnp.data.json,
+ * or the registry inlined into .pnp.cjs) that are needed to find packages. The
+ * top-level workspace has a null name and reference.
+ */
+export type PnpRuntimeState = {
+  basePath?: string;
+  packageRegistryData: [
+    string | null,
+    [string | null, PnpPackageInformation][]
+  ][];
+  enableTopLevelFallback?: boolean;
+  fallbackPool?: [string, PnpDependencyTarget][];
+  fallbackExclusionList?: [string, string[]][];
+};
+
+// a package in the registry, with its location made absolute.
+type PnpPackage = {
+  name: string | null;
+  reference: string | null;
+  location: string;
+  dependencies: Map<string, PnpDependencyTarget>;
+};
+
+/**
+ * A ResolutionBackend for projects installed with Yarn Plug'n'Play, where there
+ * are no node_modules directories. The package registry that Yarn writes to
+ * .pnp.cjs (or to .pnp.data.json, if inlining is turned off) gives the location of
+ * every package and the package each of its dependencies resolves to. Packages in
+ * Yarn's cache stay in their zip archives, so their files are read from there.
+ * Everything else is read through a FileSystem, but the archives themselves are
+ * always opened from disk.
+ *
+ * A package's directory is the location given in the registry, so a package with
+ * peer dependencies has one directory under '.yarn/__virtual__' for each set of
+ * peers it is installed with, and each is a separate PackageInfo in the cache.
+ */
+export class PnpResolutionBackend implements ResolutionBackend {
+  // the directory the package locations are relative to.
+  baseDir: string;
+
+  // the packages, keyed by locator (see #getLocatorKey).
+  #packages: Map<string, PnpPackage>;
+
+  // the packages, keyed by location.
+  #packagesByLocation: Map<string, PnpPackage>;
+
+  // the packages that packages may use without depending on them, keyed by name.
+  #fallbackPool: Map<string, PnpDependencyTarget>;
+
+  // the locators of the packages that may not use the fallback pool.
+  #fallbackExclusions: Set<string>;
+
+  #enableTopLevelFallback: boolean;
+
+  #fileSystem: FileSystem;
+
+  // the zip archives opened so far, keyed by path (null if the archive can't be read).
+  #archives: Map<string, AdmZip | null>;
+
+  constructor(
+    state: PnpRuntimeState,
+    baseDir: string,
+    fileSystem: FileSystem = new NodeFileSystem()
+  ) {
+    this.baseDir = path.resolve(baseDir, state.basePath ?? '.');
+    this.#packages = new Map();
+    this.#packagesByLocation = new Map();
+    this.#fallbackPool = new Map(state.fallbackPool ?? []);
+    this.#fallbackExclusions = new Set();
+    this.#enableTopLevelFallback = state.enableTopLevelFallback ?? false;
+    this.#fileSystem = fileSystem;
+    this.#archives = new Map();
+
+    state.packageRegistryData.forEach(([name, references]) => {
+      references.forEach(([reference, information]) => {
+        const pnpPackage: PnpPackage = {
+          name,
+          reference,
+          location: path.resolve(this.baseDir, information.packageLocation),
+          dependencies: new Map(information.packageDependencies),
+        };
+
+        this.#packages.set(this.#getLocatorKey(name, reference), pnpPackage);
+
+        // the top-level workspace is listed both with a null locator and under
+        // its own name, and the location belongs to the latter.
+        const other = this.#packagesByLocation.get(pnpPackage.location);
+
+        if (!other || other.name === null) {
+          this.#packagesByLocation.set(pnpPackage.location, pnpPackage);
+        }
+      });
+    });
+
+    (state.fallbackExclusionList ?? []).forEach(([name, references]) => {
+      references.forEach((reference) =>
+        this.#fallbackExclusions.add(this.#getLocatorKey(name, reference))
+      );
+    });
+  }
+
+  /**
+   * Create the backend for a project installed with Plug'n'Play.
+   *
+   * @param projectDir - the directory that contains the .pnp.cjs file (the root of
+   * the project or monorepo).
+   * @param fileSystem - the file system to read the project from (the same as
+   * the PackageInfoCache's). By default, the disk.
+   * @returns the backend, or undefined if the directory has no readable
+   * Plug'n'Play data.
+   */
+  static load(
+    projectDir: string,
+    fileSystem: FileSystem = new NodeFileSystem()
+  ): PnpResolutionBackend | undefined {
+    const state = PnpResolutionBackend.readRuntimeState(projectDir, fileSystem);
+
+    return state
+      ? new PnpResolutionBackend(state, projectDir, fileSystem)
+      : undefined;
+  }
+
+  /**
+   * Read the Plug'n'Play runtime state of a project, from .pnp.data.json if there
+   * is one, else from the registry inlined into .pnp.cjs.
+   *
+   * @param projectDir - the directory that contains the .pnp.cjs file.
+   * @param fileSystem - the file system to read it from. By default, the disk.
+   */
+  static readRuntimeState(
+    projectDir: string,
+    fileSystem: FileSystem = new NodeFileSystem()
+  ): PnpRuntimeState | undefined {
+    const data = fileSystem.readFile(path.join(projectDir, PNP_DATA_FILE));
+    let state = data === undefined ? undefined : parseJson(data);
+
+    if (!state) {
+      const script = fileSystem.readFile(
+        path.join(projectDir, PNP_RUNTIME_FILE)
+      );
+      state = script === undefined ? undefined : parseRuntimeScript(script);
+    }
+
+    if (!isRuntimeState(state)) {
+      debug('No Plug-n-Play runtime state found in %o', projectDir);
+      return undefined;
+    }
+
+    return state;
+  }
+
+  isVirtualPath(absolutePath: string): boolean {
+    const resolvedPath = resolveVirtualPath(absolutePath);
+
+    return (
+      resolvedPath !== absolutePath ||
+      this.#getArchivePath(resolvedPath) !== undefined
+    );
+  }
+
+  readFile(filePath: string): string | undefined {
+    const resolvedPath = resolveVirtualPath(filePath);
+    const archivePath = this.#getArchivePath(resolvedPath);
+
+    if (archivePath === undefined) {
+      return this.#fileSystem.readFile(resolvedPath);
+    }
+
+    const entryName = path
+      .relative(archivePath, resolvedPath)
+      .split(path.sep)
+      .join('/');
+
+    return this.#archives
+      .get(archivePath)
+      ?.getEntry(entryName)
+      ?.getData()
+      .toString('utf8');
+  }
+
+  getDependencyDirs(packageDir: string): Map<string, string> {
+    const result = new Map<string, string>();
+    const pnpPackage = this.#packagesByLocation.get(path.normalize(packageDir));
+
+    pnpPackage?.dependencies.forEach((target, name) => {
+      const dependency = this.#getTargetPackage(name, target);
+
+      if (dependency) {
+        result.set(name, dependency.location);
+      }
+    });
+
+    return result;
+  }
+
+  resolvePackageDir(
+    packageName: string,
+    issuerPath: string
+  ): string | null | undefined {
+    const issuer = this.#findPackageContaining(issuerPath);
+
+    if (!issuer) {
+      return undefined;
+    }
+
+    let target = issuer.dependencies.get(packageName);
+
+    if (
+      target === undefined &&
+      this.#enableTopLevelFallback &&
+      !this.#fallbackExclusions.has(
+        this.#getLocatorKey(issuer.name, issuer.reference)
+      )
+    ) {
+      target = this.#fallbackPool.get(packageName);
+    }
+
+    return this.#getTargetPackage(packageName, target)?.location ?? null;
+  }
+
+  #getLocatorKey(name: string | null, reference: string | null): string {
+    return JSON.stringify([name, reference]);
+  }
+
+  #getTargetPackage(
+    name: string,
+    target: PnpDependencyTarget | undefined
+  ): PnpPackage | undefined {
+    if (!target) {
+      return undefined;
+    }
+
+    const [targetName, reference] = isString(target) ? [name, target] : target;
+
+    return this.#packages.get(this.#getLocatorKey(targetName, reference));
+  }
+
+  /**
+   * Find the package with the deepest location that contains a path, as Plug'n'Play
+   * does to find the package a 'require' call comes from.
+   */
+  #findPackageContaining(absolutePath: string): PnpPackage | undefined {
+    let currPath = path.normalize(absolutePath);
+
+    for (;;) {
+      const pnpPackage = this.#packagesByLocation.get(currPath);
+
+      if (pnpPackage) {
+        return pnpPackage;
+      }
+
+      const parentPath = path.dirname(currPath);
+
+      if (parentPath === currPath) {
+        return undefined;
+      }
+
+      currPath = parentPath;
+    }
+  }
+
+  /**
+   * Get the path of the zip archive a (non-virtual) path is inside of, opening the
+   * archive if it hasn't been yet.
+   * @returns the path of the archive, or undefined if the path isn't in an archive.
+   */
+  #getArchivePath(absolutePath: string): string | undefined {
+    const parts = absolutePath.split(path.sep);
+    const archiveIndex = parts.findIndex(
+      (part, index) => index < parts.length - 1 && part.endsWith('.zip')
+    );
+
+    if (archiveIndex < 0) {
+      return undefined;
+    }
+
+    const archivePath = parts.slice(0, archiveIndex + 1).join(path.sep);
+
+    if (!this.#archives.has(archivePath)) {
+      this.#archives.set(
+        archivePath,
+        this.#fileSystem.stat(archivePath)?.isFile
+          ? openArchive(archivePath)
+          : null
+      );
+    }
+
+    return this.#archives.get(archivePath) ? archivePath : undefined;
+  }
+}
+
+/**
+ * Convert a path inside Yarn's virtual directory ('.yarn/__virtual__/<hash>/<depth>/<subpath>')
+ * to the path it stands for, i.e. '<subpath>' relative to the directory that is
+ * <depth> levels above the one containing '__virtual__'.
+ */
+function resolveVirtualPath(absolutePath: string): string {
+  const parts = absolutePath.split(path.sep);
+  const virtualIndex = parts.indexOf(VIRTUAL_DIR);
+  const depth = Number(parts[virtualIndex + 2]);
+
+  if (virtualIndex < 0 || !Number.isInteger(depth)) {
+    return absolutePath;
+  }
+
+  return resolveVirtualPath(
+    path.join(
+      parts.slice(0, virtualIndex).join(path.sep) || path.sep,
+      ...Array<string>(depth).fill('..'),
+      ...parts.slice(virtualIndex + 3)
+    )
+  );
+}
+
+function openArchive(archivePath: string): AdmZip | null {
+  try {
+    return new AdmZip(archivePath);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Extract the runtime state that Yarn inlines into .pnp.cjs, in a line like
+ * "const RAW_RUNTIME_STATE =\n'{...}';".
+ */
+function parseRuntimeScript(script: string): unknown {
+  const match = RAW_RUNTIME_STATE_PATTERN.exec(script);
+
+  if (!match) {
+    return undefined;
+  }
+
+  // undo the string literal's escapes, including escaped line breaks.
+  const json = (match[1] as string).replace(
+    /\\(\r?\n|[\s\S])/g,
+    (_escape, char: string) => (char.endsWith('\n') ? '' : char)
+  );
+
+  try {
+    return JSON.parse(json) as unknown;
+  } catch {
+    return undefined;
+  }
+}
+
+function isRuntimeState(state: unknown): state is PnpRuntimeState {
+  return (
+    typeof state === 'object' &&
+    state !== null &&
+    Array.isArray((state as PnpRuntimeState).packageRegistryData)
+  );
+}
@@ -0,0 +1,50 @@
+/**
+ * The interface for the way a package manager lays out packages, for projects
+ * whose packages are not all physical directories under node_modules (e.g. Yarn
+ * Plug'n'Play, see PnpResolutionBackend). When a PackageInfoCache is given a
+ * backend, each package's dependencies are read and resolved through the backend
+ * first, falling back to node_modules directories for any package the backend
+ * does not know about.
+ */
+export interface ResolutionBackend {
+  /**
+   * Indicate if a path is one that only the backend can read (e.g. a directory
+   * inside a zip archive), so the cache must not look for it on disk.
+   *
+   * @param absolutePath - the absolute path of a package directory or a file in one.
+   */
+  isVirtualPath(absolutePath: string): boolean;
+
+  /**
+   * Read a file at a virtual path.
+   *
+   * @param filePath - the absolute path of the file.
+   * @returns the contents of the file, or undefined if it does not exist.
+   */
+  readFile(filePath: string): string | undefined;
+
+  /**
+   * Get the directories of every package the backend has installed for a package.
+   *
+   * @param packageDir - the absolute path of the package's directory.
+   * @returns a map of dependency name to package directory, empty if the package
+   * is not known to the backend.
+   */
+  getDependencyDirs(packageDir: string): Map<string, string>;
+
+  /**
+   * Find the directory of the package a dependency name resolves to, from the
+   * package that contains a path.
+   *
+   * @param packageName - the name of the dependency.
+   * @param issuerPath - the absolute path of a package's directory, or of a
+   * directory or file inside it.
+   * @returns the dependency's directory, null if the package that contains the
+   * issuerPath is known but the dependency can't be resolved from it, or undefined
+   * if no package known to the backend contains the issuerPath.
+   */
+  resolvePackageDir(
+    packageName: string,
+    issuerPath: string
+  ): string | null | undefined;
+}
@@ -0,0 +1,70 @@
+/**
+ * The reasons recorded in a ResolutionTrace for each directory that was probed
+ * while running the node resolution algorithm in PackageInfoCache.findDependency().
+ */
+export const RESOLUTION_REASONS = {
+  BUILTIN_MODULE: 'builtinModule',
+  INVALID_REQUEST: 'invalidRequest',
+  NODE_MODULES_MISSING: 'nodeModulesMissing',
+  PACKAGE_MISSING: 'packageMissing',
+  PACKAGE_INVALID: 'packageInvalid',
+  SUBPATH_NOT_EXPORTED: 'subpathNotExported',
+  FOUND: 'found',
+};
+
+/*
+ * Small utility class to contain data about a single directory that was
+ * probed during PackageInfoCache.findDependency().
+ *
+ * @protected
+ * @class ResolutionTraceEntry
+ */
+export class ResolutionTraceEntry {
+  // the directory that was probed (normally a 'node_modules' directory).
+  path: string;
+
+  // one of the RESOLUTION_REASONS values.
+  reason: string;
+
+  // the real path of the package that was considered, if there was one.
+  packagePath?: string;
+
+  constructor(path: string, reason: string, packagePath?: string) {
+    this.path = path;
+    this.reason = reason;
+    this.packagePath = packagePath;
+  }
+}
+
+/*
+ * Small utility class to record every directory probed while resolving
+ * a dependency, and why each one was accepted or rejected.
+ *
+ * @public
+ * @class ResolutionTrace
+ */
+export class ResolutionTrace {
+  entries: ResolutionTraceEntry[];
+
+  constructor() {
+    this.entries = [];
+  }
+
+  /*
+   * Record that a directory was probed.
+   *
+   * @public
+   * @param {String} probedPath the directory that was probed.
+   * @param {String} reason one of the RESOLUTION_REASONS constants.
+   * @param {String} packagePath the real path of the package that was considered, if any.
+   */
+  addEntry(probedPath: string, reason: string, packagePath?: string): void {
+    this.entries.push(
+      new ResolutionTraceEntry(probedPath, reason, packagePath)
+    );
+  }
+
+  getEntries(): ResolutionTraceEntry[] {
+    return this.entries;
+  }
+}
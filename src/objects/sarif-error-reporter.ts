@@ -0,0 +1,167 @@
+import path from 'node:path';
+import { pathToFileURL } from 'node:url';
+
+import type { SourceLocation } from '../utils';
+import { ErrorType } from './errors';
+import {
+  ErrorReport,
+  ErrorReporter,
+  getErrorMessageLines,
+} from './error-reporter';
+import { NodeModulesList } from './node-modules-list';
+import type { PackageInfoCacheEntry } from './package-info-cache';
+
+const SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json';
+const SARIF_VERSION = '2.1.0';
+
+// the base of the relative URIs in a report, which code scanning tools resolve to
+// the root of the repository.
+const SRCROOT = '%SRCROOT%';
+
+// The short description of each type of error, for the rules of the report.
+const RULE_DESCRIPTIONS: Record<ErrorType, string> = {
+  packageDirectoryMissing: 'A package directory does not exist',
+  packageJsonMissing: 'A package.json file does not exist',
+  packageJsonParse: 'A package.json file could not be parsed',
+  packageJsonRule: 'A package.json file breaks a validation rule',
+  emberAddonMainMissing: "An addon's main file does not exist",
+  emberAddonPathNotAddon: "An 'ember-addon.paths' entry is not an addon",
+  emberAddonOrderCycle: "Addons' before/after fields form a cycle",
+  emberAddonMetadataInvalid: "A v2 addon's 'ember-addon' field is invalid",
+  emberAddonFilesMissing: "Files listed by a v2 addon don't exist",
+  dependenciesMissing: 'Dependencies are not installed',
+  devDependenciesMissing: 'devDependencies are not installed',
+  dependenciesOutOfRange: 'Installed dependencies are out of range',
+  peerDependenciesMissing: 'Peer dependencies are not provided',
+  peerDependenciesMismatch: "Provided peer dependencies don't match",
+  modulesEntryMissing: 'A node_modules entry is missing',
+  exportsTargetInvalid: "Targets of 'exports' or 'imports' are invalid",
+  exportsTargetMissing: "Files targeted by 'exports' or 'imports' don't exist",
+  lockfileParse: 'A lockfile could not be parsed',
+  lockfilePackagesMissing: 'Locked packages are not installed',
+  lockfileVersionsMismatch: "Installed versions don't match the lockfile",
+  lockfilePackagesExtraneous: 'Installed packages are not in the lockfile',
+};
+
+/**
+ * An ErrorReporter that reports the errors as a SARIF 2.1.0 log, for code scanning
+ * tools (e.g. GitHub code scanning) to show on the package.json files. Each error
+ * is a result, whose rule is the error type, located at the package.json file of
+ * the package (or at the node_modules directory), or at the lines in it where the
+ * error is, if they are known (e.g. the keys of missing dependencies). Paths
+ * inside the report's root directory are relative to %SRCROOT%, so the report
+ * should be created with the project's root directory at the root of the
+ * repository.
+ */
+export class SarifErrorReporter implements ErrorReporter {
+  format(report: ErrorReport): string {
+    const ruleIds: ErrorType[] = [];
+
+    const results = report.entries.flatMap(({ entry, errors }) =>
+      errors.map((errorEntry) => {
+        if (!ruleIds.includes(errorEntry.type)) {
+          ruleIds.push(errorEntry.type);
+        }
+
+        const [summary, ...details] = getErrorMessageLines(errorEntry);
+        const subject =
+          entry instanceof NodeModulesList
+            ? 'The node_modules directory'
+            : 'The package.json file';
+
+        return {
+          ruleId: errorEntry.type,
+          ruleIndex: ruleIds.indexOf(errorEntry.type),
+          level: errorEntry.severity,
+          message: {
+            text: [`${subject} ${summary}`, ...details].join('\n'),
+          },
+          locations: getLocations(report.rootDir, entry, errorEntry.locations),
+        };
+      })
+    );
+
+    const log = {
+      $schema: SARIF_SCHEMA,
+      version: SARIF_VERSION,
+      runs: [
+        {
+          tool: {
+            driver: {
+              name: 'package-info-cache',
+              informationUri: 'https://github.com/davecombs/package-info-cache',
+              rules: ruleIds.map((ruleId) => ({
+                id: ruleId,
+                shortDescription: { text: RULE_DESCRIPTIONS[ruleId] },
+              })),
+            },
+          },
+          originalUriBaseIds: {
+            [SRCROOT]: {
+              uri: pathToFileURL(`${report.rootDir}${path.sep}`).href,
+            },
+          },
+          results,
+        },
+      ],
+    };
+
+    return JSON.stringify(log, null, 2);
+  }
+}
+
+/**
+ * Get the SARIF locations of an error: a region of the file for each of its source
+ * locations, or else the package.json file of the package (or the node_modules
+ * directory) as a whole.
+ */
+function getLocations(
+  rootDir: string,
+  entry: PackageInfoCacheEntry,
+  sourceLocations: SourceLocation[]
+): object[] {
+  if (sourceLocations.length > 0) {
+    return sourceLocations.map(({ filePath, line, column }) => ({
+      physicalLocation: {
+        artifactLocation: getArtifactLocation(rootDir, filePath),
+        region: { startLine: line, startColumn: column },
+      },
+    }));
+  }
+
+  const artifactPath =
+    entry instanceof NodeModulesList
+      ? entry.realPath
+      : path.join(entry.realPath, 'package.json');
+
+  return [
+    {
+      physicalLocation: {
+        artifactLocation: getArtifactLocation(rootDir, artifactPath),
+      },
+    },
+  ];
+}
+
+/**
+ * Get the SARIF artifactLocation of a file or directory: relative to %SRCROOT% if
+ * it is inside the root directory, else an absolute file URI.
+ */
+function getArtifactLocation(
+  rootDir: string,
+  artifactPath: string
+): { uri: string; uriBaseId?: string } {
+  const relativePath = path.relative(rootDir, artifactPath);
+
+  if (relativePath.startsWith('..') || path.isAbsolute(relativePath)) {
+    return { uri: pathToFileURL(artifactPath).href };
+  }
+
+  return {
+    uri: relativePath
+      .split(path.sep)
+      .map((part) => encodeURIComponent(part))
+      .join('/'),
+    uriBaseId: SRCROOT,
+  };
+}
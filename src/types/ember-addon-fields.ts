@@ -4,4 +4,11 @@ export type EmberAddonFields = {
   main?: string;
   paths?: string[];
   projectRoot?: string;
+  lazyLoading?: boolean | { enabled?: boolean };
+
+  // the fields of a v2 (Embroider) addon, whose version is 2.
+  type?: string;
+  'app-js'?: Record<string, string>;
+  'public-assets'?: Record<string, string>;
+  'renamed-modules'?: Record<string, string>;
 };
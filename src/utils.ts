@@ -2,7 +2,15 @@
  * indicate if the given object is an array completely filled with strings.
  * If it has no items in it, that's okay, but it must at least be an array.
  */
+import fg from 'fast-glob';
 import fs from 'fs-extra';
+import yaml from 'js-yaml';
+import { findNodeAtLocation, Node, ParseError, parseTree } from 'jsonc-parser';
+import type { Stats } from 'node:fs';
+import path from 'node:path';
+import semver from 'semver';
+
+import type { FileSystem } from './objects/file-system';
 
 export function isStringArray(obj: unknown): obj is string[] {
   if (!obj || !Array.isArray(obj)) {
@@ -24,6 +32,17 @@ export function isString(obj: unknown): obj is string {
   return typeof obj === 'string';
 }
 
+/**
+ * indicate if the given object is a plain object whose values are all strings.
+ */
+export function isStringRecord(obj: unknown): obj is Record<string, string> {
+  return (
+    isObject(obj) &&
+    !Array.isArray(obj) &&
+    Object.values(obj).every((value) => typeof value === 'string')
+  );
+}
+
 export function hasItemInList(list: unknown, propName: string): boolean {
   return getObjectProperty(list, propName) !== undefined;
 }
@@ -201,3 +220,595 @@ export function buildTree(rootPath: string): TreeNode {
 
   return root;
 }
+
+/**
+ * Split a bare module request (e.g. 'foo/bar/baz' or '@scope/foo/bar') into the
+ * package name and the subpath within the package (e.g. './bar/baz', or '.' if
+ * there is no subpath). Returns undefined if the request is not a bare package name.
+ * @param request - the module request, as used in imports.
+ */
+export function parsePackageRequest(
+  request: string
+): { packageName: string; subpath: string } | undefined {
+  if (
+    !request ||
+    request.startsWith('.') ||
+    request.startsWith('/') ||
+    request.startsWith('\\') ||
+    request.includes('\\')
+  ) {
+    return undefined;
+  }
+
+  const parts = request.split('/');
+  const nameLength = request.startsWith('@') ? 2 : 1;
+
+  if (parts.length < nameLength || parts.slice(0, nameLength).includes('')) {
+    return undefined;
+  }
+
+  const packageName = parts.slice(0, nameLength).join('/');
+  const rest = parts.slice(nameLength);
+
+  return {
+    packageName,
+    subpath: rest.length > 0 ? `./${rest.join('/')}` : '.',
+  };
+}
+
+/**
+ * The kinds of specifier that may appear as the value of an entry in a
+ * package.json 'dependencies' (or similar) field, and, where there is one,
+ * the semver range that the installed version must satisfy.
+ */
+export type DependencySpecifier = {
+  // 'range' (a semver range), 'alias' ('npm:name@range'), 'workspace' ('workspace:range'),
+  // 'file', 'link', 'git', 'url' or 'tag' (a dist-tag like 'latest').
+  type: string;
+
+  // for 'alias', the name of the package that is really installed.
+  name?: string;
+
+  // the semver range to check the installed version against, if it can be checked.
+  range?: string;
+};
+
+const GIT_SPECIFIER_PATTERN =
+  /^(git\+|git:|github:|gitlab:|bitbucket:|gist:)|\.git(#.*)?$|^[\w.-]+\/[\w.-]+(#.*)?$/;
+
+/**
+ * Work out what kind of specifier a dependency's value in a package.json is, and
+ * which semver range (if any) its installed version is expected to satisfy.
+ * Local (file:, link:, portal:), git and URL specifiers and dist-tags have no range.
+ * 'workspace:*', 'workspace:^' and 'workspace:~' accept whatever version the
+ * workspace package has.
+ * @param specifier - the value of the dependency entry, e.g. '^1.2.0' or 'npm:foo@^2'.
+ */
+export function parseDependencySpecifier(
+  specifier: string
+): DependencySpecifier {
+  const spec = specifier.trim();
+
+  if (spec.startsWith('npm:')) {
+    const aliased = spec.slice('npm:'.length);
+    const versionIndex = aliased.lastIndexOf('@');
+
+    // a version separator at 0 is the start of a scoped name.
+    const name = versionIndex > 0 ? aliased.slice(0, versionIndex) : aliased;
+    const range = versionIndex > 0 ? aliased.slice(versionIndex + 1) : '*';
+
+    return {
+      type: 'alias',
+      name,
+      range: semver.validRange(range) ? range : undefined,
+    };
+  }
+
+  if (spec.startsWith('workspace:')) {
+    const range = spec.slice('workspace:'.length);
+
+    return {
+      type: 'workspace',
+      range:
+        ['*', '^', '~'].includes(range) || !semver.validRange(range)
+          ? undefined
+          : range,
+    };
+  }
+
+  if (
+    spec.startsWith('file:') ||
+    spec.startsWith('.') ||
+    spec.startsWith('/') ||
+    spec.startsWith('~/')
+  ) {
+    return { type: 'file' };
+  }
+
+  if (spec.startsWith('link:') || spec.startsWith('portal:')) {
+    return { type: 'link' };
+  }
+
+  if (GIT_SPECIFIER_PATTERN.test(spec)) {
+    return { type: 'git' };
+  }
+
+  if (/^https?:/.test(spec)) {
+    return { type: 'url' };
+  }
+
+  return semver.validRange(spec)
+    ? { type: 'range', range: spec }
+    : { type: 'tag' };
+}
+
+/**
+ * Where a package is in pnpm's virtual store, i.e. a real path like
+ * 'node_modules/.pnpm/@scope+name@1.2.3_peer@4.5.6/node_modules/@scope/name'.
+ */
+export type PnpmStoreEntry = {
+  // the '.pnpm' directory.
+  storeDir: string;
+
+  // the name of the package's directory in the store, e.g. '@scope+name@1.2.3_peer@4.5.6'.
+  entryName: string;
+
+  // the node_modules directory in the store entry, which holds the package and
+  // links to its dependencies and peers.
+  nodeModulesDir: string;
+
+  name: string;
+
+  // the version, if the entry name could be decoded (pnpm shortens long names with a hash).
+  version: string | undefined;
+
+  // the peer dependencies suffix, e.g. 'peer@4.5.6' or '(peer@4.5.6)', if any.
+  peers: string | undefined;
+};
+
+/**
+ * Recognize the real path of a package in pnpm's virtual store ('node_modules/.pnpm'),
+ * and decode the name of its store entry ('<name>@<version>', with any '/' in the
+ * name replaced by '+', optionally followed by the resolved peers after a '_' or
+ * in parentheses).
+ *
+ * @param realPath - the real path of a package directory.
+ * @returns the store entry, or undefined if the package is not in a pnpm store.
+ */
+export function parsePnpmStorePath(
+  realPath: string
+): PnpmStoreEntry | undefined {
+  const parts = realPath.split(path.sep);
+  const storeIndex = parts.lastIndexOf('.pnpm');
+
+  if (
+    storeIndex < 1 ||
+    parts[storeIndex - 1] !== 'node_modules' ||
+    parts[storeIndex + 2] !== 'node_modules'
+  ) {
+    return undefined;
+  }
+
+  const nameParts = parts.slice(storeIndex + 3);
+  const isScoped = nameParts[0]?.startsWith('@');
+
+  if (nameParts.length !== (isScoped ? 2 : 1)) {
+    return undefined;
+  }
+
+  const name = nameParts.join('/');
+  const entryName = parts[storeIndex + 1] as string;
+  const prefix = `${name.replace('/', '+')}@`;
+
+  let version: string | undefined;
+  let peers: string | undefined;
+
+  if (entryName.startsWith(prefix)) {
+    const match = /^([^_(]+)(?:_(.+)|(\(.+\)))?$/.exec(
+      entryName.slice(prefix.length)
+    );
+
+    version = match?.[1];
+    peers = match?.[2] ?? match?.[3];
+  }
+
+  return {
+    storeDir: parts.slice(0, storeIndex + 1).join(path.sep),
+    entryName,
+    nodeModulesDir: parts.slice(0, storeIndex + 3).join(path.sep),
+    name,
+    version,
+    peers,
+  };
+}
+
+/**
+ * A function that runs asynchronous tasks, never allowing more than a fixed
+ * number of them to be in progress at once.
+ */
+export type Limiter = <T>(task: () => Promise<T>) => Promise<T>;
+
+/**
+ * Create a Limiter that allows at most 'concurrency' tasks in progress at once.
+ * Tasks beyond that wait (in the order they were submitted) for a running
+ * task to finish.
+ * @param concurrency - the maximum number of tasks in progress at once (at least 1).
+ */
+export function createLimiter(concurrency: number): Limiter {
+  const maxActive = Math.max(1, Math.floor(concurrency));
+  const waiting: Array<() => void> = [];
+  let active = 0;
+
+  const next = () => {
+    active--;
+    const start = waiting.shift();
+    if (start) {
+      start();
+    }
+  };
+
+  return <T>(task: () => Promise<T>): Promise<T> =>
+    new Promise<T>((resolve, reject) => {
+      const start = () => {
+        active++;
+        task().then(resolve, reject).finally(next);
+      };
+
+      if (active < maxActive) {
+        start();
+      } else {
+        waiting.push(start);
+      }
+    });
+}
+
+/**
+ * Parse the text of a JSON file, ignoring any byte order mark, as fs-extra does.
+ * @param contents - the text of the file.
+ * @returns the parsed contents, or null if they can't be parsed.
+ */
+export function parseJson(contents: string): unknown {
+  try {
+    return JSON.parse(contents.replace(/^\uFEFF/, '')) as unknown;
+  } catch (e) {
+    return null;
+  }
+}
+
+// A position in a file, e.g. of a JSON parse error or of a key in a package.json.
+export type SourceLocation = {
+  filePath: string;
+
+  // both start at 1, as they do in editors.
+  line: number;
+  column: number;
+};
+
+/**
+ * Find where the text of a JSON file stops being valid JSON, for the errors of
+ * files that parseJson() can't parse.
+ * @param contents - the text of the file.
+ * @param filePath - the path of the file.
+ * @returns the location of the first syntax error, or undefined if there is none.
+ */
+export function findJsonParseErrorLocation(
+  contents: string,
+  filePath: string
+): SourceLocation | undefined {
+  const text = contents.replace(/^\uFEFF/, '');
+  const parseErrors: ParseError[] = [];
+
+  parseTree(text, parseErrors, { disallowComments: true });
+
+  const [parseError] = parseErrors;
+  return parseError && getSourceLocation(text, parseError.offset, filePath);
+}
+
+/**
+ * Find the keys of some properties of an object in a JSON file, e.g. the names
+ * of some dependencies in a package.json. As with JSON.parse(), the last of any
+ * duplicate keys is the one that counts.
+ * @param contents - the text of the file.
+ * @param filePath - the path of the file.
+ * @param objectPath - the keys of the object from the top level, e.g. ['dependencies'].
+ * @param keys - the keys of the properties.
+ * @returns the location of each key, in the same order, or an empty array if
+ * any of them can't be found.
+ */
+export function findJsonKeyLocations(
+  contents: string,
+  filePath: string,
+  objectPath: string[],
+  keys: string[]
+): SourceLocation[] {
+  const text = contents.replace(/^\uFEFF/, '');
+  const root = parseTree(text, [], { disallowComments: true });
+  const objectNode = root && findNodeAtLocation(root, objectPath);
+  const keyNodes = new Map<unknown, Node>();
+
+  if (objectNode?.type === 'object') {
+    objectNode.children?.forEach((propertyNode) => {
+      const keyNode = propertyNode.children?.[0];
+
+      if (keyNode) {
+        keyNodes.set(keyNode.value, keyNode);
+      }
+    });
+  }
+
+  if (!keys.every((key) => keyNodes.has(key))) {
+    return [];
+  }
+
+  return keys.map((key) =>
+    getSourceLocation(text, (keyNodes.get(key) as Node).offset, filePath)
+  );
+}
+
+/**
+ * Convert an offset in the text of a file to a line and column.
+ */
+function getSourceLocation(
+  text: string,
+  offset: number,
+  filePath: string
+): SourceLocation {
+  const textBefore = text.slice(0, offset);
+
+  return {
+    filePath,
+    line: textBefore.split('\n').length,
+    column: offset - textBefore.lastIndexOf('\n'),
+  };
+}
+
+/**
+ * Get the workspace globs of a monorepo: the 'packages' of a pnpm-workspace.yaml
+ * file if there is one (pnpm ignores 'workspaces' in the package.json), otherwise
+ * the 'workspaces' field of the root package.json, in either its array form or
+ * its '{ packages }' form.
+ *
+ * @param packageJson - the contents of the root package.json (may be invalid).
+ * @param pnpmWorkspaceYaml - the text of pnpm-workspace.yaml, if there is one.
+ * @returns the globs, which may include negated ('!') globs.
+ */
+export function getWorkspacePatterns(
+  packageJson: unknown,
+  pnpmWorkspaceYaml: string | undefined
+): string[] {
+  if (pnpmWorkspaceYaml !== undefined) {
+    let pnpmWorkspace: unknown;
+
+    try {
+      pnpmWorkspace = yaml.load(pnpmWorkspaceYaml);
+    } catch (e) {
+      pnpmWorkspace = undefined;
+    }
+
+    const packages = getObjectProperty(pnpmWorkspace, 'packages');
+
+    return isStringArray(packages) ? packages : [];
+  }
+
+  const workspaces = getObjectProperty(packageJson, 'workspaces');
+
+  if (isStringArray(workspaces)) {
+    return workspaces;
+  }
+
+  const packages = getObjectProperty(workspaces, 'packages');
+
+  return isStringArray(packages) ? packages : [];
+}
+
+/**
+ * Turn workspace globs (which match package directories) into fast-glob
+ * patterns and ignore patterns that match their package.json files.
+ */
+function toPackageJsonGlobs(patterns: string[]): {
+  globs: string[];
+  ignore: string[];
+} {
+  const globs: string[] = [];
+  const ignore: string[] = ['**/node_modules/**'];
+
+  patterns.forEach((pattern) => {
+    const negated = pattern.startsWith('!');
+    const dirPattern = (negated ? pattern.slice(1) : pattern)
+      .replace(/^\.\//, '')
+      .replace(/\/+$/, '');
+
+    // the root package is not one of its own workspaces.
+    if (dirPattern && dirPattern !== '.') {
+      (negated ? ignore : globs).push(`${dirPattern}/package.json`);
+    }
+  });
+
+  return { globs, ignore };
+}
+
+/**
+ * Find the directories of the workspace members matched by the given globs.
+ * Only directories with a package.json file are members, and node_modules
+ * directories are never searched.
+ *
+ * @param fileSystem - the file system to search.
+ * @param rootDir - the root directory of the monorepo.
+ * @param patterns - the workspace globs (see getWorkspacePatterns()).
+ * @returns the real paths of the member directories, sorted.
+ */
+export function expandWorkspacePatterns(
+  fileSystem: FileSystem,
+  rootDir: string,
+  patterns: string[]
+): string[] {
+  const { globs, ignore } = toPackageJsonGlobs(patterns);
+
+  if (globs.length === 0) {
+    return [];
+  }
+
+  const dirs = fg
+    .sync(globs, {
+      cwd: rootDir,
+      absolute: true,
+      ignore,
+      fs: toFastGlobAdapter(fileSystem),
+    })
+    .map((packageJsonPath) => path.dirname(packageJsonPath))
+    .map((dirPath) => fileSystem.realpath(dirPath) ?? dirPath);
+
+  return [...new Set(dirs)].sort();
+}
+
+/**
+ * The asynchronous version of expandWorkspacePatterns().
+ *
+ * @param fileSystem - the file system to search.
+ * @param rootDir - the root directory of the monorepo.
+ * @param patterns - the workspace globs (see getWorkspacePatterns()).
+ * @returns the real paths of the member directories, sorted.
+ */
+export async function expandWorkspacePatternsAsync(
+  fileSystem: FileSystem,
+  rootDir: string,
+  patterns: string[]
+): Promise<string[]> {
+  const { globs, ignore } = toPackageJsonGlobs(patterns);
+
+  if (globs.length === 0) {
+    return [];
+  }
+
+  const packageJsonPaths = await fg(globs, {
+    cwd: rootDir,
+    absolute: true,
+    ignore,
+    fs: toFastGlobAdapter(fileSystem),
+  });
+
+  const dirs = await Promise.all(
+    packageJsonPaths
+      .map((packageJsonPath) => path.dirname(packageJsonPath))
+      .map(
+        async (dirPath) => (await fileSystem.realpathAsync(dirPath)) ?? dirPath
+      )
+  );
+
+  return [...new Set(dirs)].sort();
+}
+
+// The directory entries fast-glob reads (fast-glob doesn't export the type).
+type FastGlobDirent = fg.Entry['dirent'];
+
+type FastGlobCallback<T> = (
+  error: NodeJS.ErrnoException | null,
+  result: T
+) => void;
+
+/**
+ * Adapt a FileSystem to the 'fs' option of fast-glob, so that globs can be
+ * matched in it. A FileSystem has no symbolic links of its own (its stat()
+ * follows them), so none are reported.
+ */
+function toFastGlobAdapter(
+  fileSystem: FileSystem
+): Partial<fg.FileSystemAdapter> {
+  // the type of an entry, which is all that fast-glob reads from its stats (it
+  // would read more for the stats of its matches, which aren't asked for).
+  const toEntryType = (entryPath: string): Omit<FastGlobDirent, 'name'> => {
+    const stats = fileSystem.stat(entryPath);
+
+    if (!stats) {
+      throw Object.assign(
+        new Error(`ENOENT: no such file or directory '${entryPath}'`),
+        { code: 'ENOENT' }
+      );
+    }
+
+    return {
+      isFile: () => stats.isFile,
+      isDirectory: () => stats.isDirectory,
+      isSymbolicLink: () => false,
+      isBlockDevice: () => false,
+      isCharacterDevice: () => false,
+      isFIFO: () => false,
+      isSocket: () => false,
+    };
+  };
+
+  const statSync = (entryPath: string): Stats =>
+    toEntryType(entryPath) as Stats;
+
+  const readdirNames = (dirPath: string): string[] => {
+    const names = fileSystem.readdir(dirPath);
+
+    if (!names) {
+      throw Object.assign(new Error(`ENOENT: no such directory '${dirPath}'`), {
+        code: 'ENOENT',
+      });
+    }
+
+    return names;
+  };
+
+  function readdirSync(
+    dirPath: string,
+    options: { withFileTypes: true }
+  ): FastGlobDirent[];
+  function readdirSync(dirPath: string): string[];
+  function readdirSync(
+    dirPath: string,
+    options?: { withFileTypes: true }
+  ): FastGlobDirent[] | string[] {
+    const names = readdirNames(dirPath);
+
+    return options?.withFileTypes
+      ? names.map((name) => ({
+          name,
+          ...toEntryType(path.join(dirPath, name)),
+        }))
+      : names;
+  }
+
+  // fast-glob calls the asynchronous methods with node's callback style.
+  const callBack = <T>(call: () => T, callback: FastGlobCallback<T>): void => {
+    let result: T;
+
+    try {
+      result = call();
+    } catch (e) {
+      // like node, with no result for an error.
+      (callback as (error: NodeJS.ErrnoException) => void)(
+        e as NodeJS.ErrnoException
+      );
+      return;
+    }
+
+    callback(null, result);
+  };
+
+  const stat = (entryPath: string, callback: FastGlobCallback<Stats>): void =>
+    callBack(() => statSync(entryPath), callback);
+
+  const readdir: fg.FileSystemAdapter['readdir'] = (
+    dirPath: string,
+    optionsOrCallback: { withFileTypes: true } | FastGlobCallback<string[]>,
+    callback?: FastGlobCallback<FastGlobDirent[]>
+  ): void => {
+    if (typeof optionsOrCallback === 'function') {
+      callBack(() => readdirSync(dirPath), optionsOrCallback);
+    } else if (callback) {
+      callBack(() => readdirSync(dirPath, optionsOrCallback), callback);
+    }
+  };
+
+  return {
+    lstat: stat,
+    stat,
+    lstatSync: statSync,
+    statSync,
+    readdir,
+    readdirSync,
+  };
+}
@@ -5,5 +5,5 @@ module.exports = {
 
   isDevelopingAddon() {
     return true;
-  }
+  },
 };
@@ -0,0 +1,49 @@
+'use strict';
+
+import fixturify from 'fixturify';
+
+// The factories for the package directories in the fixturify trees of the tests.
+
+/**
+ * A package directory. The package.json is pretty-printed, so that the fields are
+ * at predictable lines, and has a version of '1.0.0' unless the fields give
+ * another (or undefined, for none).
+ *
+ * @param name - the package's name.
+ * @param fields - the other fields of the package.json.
+ * @param files - the other files and directories of the package, e.g. node_modules.
+ */
+export function pkg(
+  name: string,
+  fields: Record<string, unknown> = {},
+  files: fixturify.DirJSON = {}
+): fixturify.DirJSON {
+  return {
+    'package.json': JSON.stringify(
+      { name, version: '1.0.0', ...fields },
+      null,
+      2
+    ),
+    ...files,
+  };
+}
+
+/**
+ * An Ember addon directory: a package with the 'ember-addon' keyword, an Octane
+ * edition and an index.js, any of which the fields and files may replace.
+ *
+ * @param name - the addon's name.
+ * @param fields - the other fields of the package.json.
+ * @param files - the other files and directories of the addon.
+ */
+export function addon(
+  name: string,
+  fields: Record<string, unknown> = {},
+  files: fixturify.DirJSON = {}
+): fixturify.DirJSON {
+  return pkg(
+    name,
+    { keywords: ['ember-addon'], ember: { edition: 'octane' }, ...fields },
+    { 'index.js': 'module.exports = {};', ...files }
+  );
+}
@@ -0,0 +1,72 @@
+'use strict';
+
+import path from 'node:path';
+import { describe, expect, test } from 'vitest';
+
+import { PackageInfo } from '../../src/objects/package-info';
+import { PackageInfoCache } from '../../src/objects/package-info-cache';
+
+const addonFixturePath = path.resolve(__dirname, '../fixtures');
+
+// A comparable summary of every entry in the cache
+function summarize(pic: PackageInfoCache): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+
+  [...pic.entries.keys()].sort().forEach((key) => {
+    const entry = pic.entries.get(key);
+
+    result[key] = {
+      type: entry?.constructor.name,
+      errors: entry?.errors.getErrors(),
+      children:
+        entry instanceof PackageInfo
+          ? undefined
+          : [...(entry?.entries.keys() ?? [])],
+      dependencies:
+        entry instanceof PackageInfo
+          ? [...(entry.dependenciesPackages?.values() ?? [])].map(
+              (pkg) => pkg.realPath
+            )
+          : undefined,
+      devDependencies:
+        entry instanceof PackageInfo
+          ? [...(entry.devDependenciesPackages?.values() ?? [])].map(
+              (pkg) => pkg.realPath
+            )
+          : undefined,
+    };
+  });
+
+  return result;
+}
+
+describe('asynchronous loading', function () {
+  ['simple', 'with-nested-addons'].forEach((fixtureName) => {
+    test(`loadProjectAsync matches loadProject for the '${fixtureName}' fixture`, async function () {
+      const projectPath = path.resolve(addonFixturePath, fixtureName);
+
+      const syncPic = new PackageInfoCache();
+      const syncRoot = syncPic.loadProject(projectPath);
+
+      const asyncPic = new PackageInfoCache({ concurrency: 2 });
+      const asyncRoot = await asyncPic.loadProjectAsync(projectPath);
+
+      expect(asyncRoot.realPath).to.equal(syncRoot.realPath);
+      expect(asyncPic.rootPackage).to.equal(asyncRoot);
+      expect(summarize(asyncPic)).to.deep.equal(summarize(syncPic));
+    });
+  });
+
+  test('loadAppAsync only reads each package once', async function () {
+    const projectPath = path.resolve(addonFixturePath, 'simple');
+
+    const pic = new PackageInfoCache({ concurrency: 1 });
+    const [first, second] = await Promise.all([
+      pic.loadAppAsync(projectPath),
+      pic.loadAppAsync(projectPath),
+    ]);
+
+    expect(first).to.equal(second);
+    expect(pic.getEntry(projectPath)).to.equal(first);
+  });
+});
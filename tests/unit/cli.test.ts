@@ -0,0 +1,290 @@
+'use strict';
+
+import fixturify from 'fixturify';
+import fs from 'fs-extra';
+import os from 'node:os';
+import path from 'node:path';
+import {
+  afterAll,
+  afterEach,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  SpyInstance,
+  test,
+  vi,
+} from 'vitest';
+
+import { CLI_USAGE, runCli } from '../../src/cli';
+import { ERRORS } from '../../src/objects/errors';
+import { addon, pkg } from '../helpers/fixtures';
+
+describe('package-info-cache command line', function () {
+  let rootDir: string;
+  let appDir: string;
+  let log: SpyInstance;
+  let error: SpyInstance;
+
+  function output(): string {
+    return log.mock.calls.map((args) => args.join(' ')).join('\n');
+  }
+
+  function jsonOutput(): unknown {
+    return JSON.parse(output()) as unknown;
+  }
+
+  beforeAll(function () {
+    rootDir = fs.realpathSync(
+      fs.mkdtempSync(path.join(os.tmpdir(), 'pic-cli-'))
+    );
+    appDir = path.join(rootDir, 'app');
+
+    fixturify.writeSync(rootDir, {
+      app: {
+        'package.json': JSON.stringify({
+          name: 'app',
+          version: '1.0.0',
+          ember: { edition: 'octane' },
+          dependencies: {
+            'ember-outer': '^1.0.0',
+            lodash: '^4.0.0',
+          },
+          devDependencies: { 'ember-cli': '*' },
+        }),
+        node_modules: {
+          'ember-cli': pkg('ember-cli', { version: '4.8.0' }),
+          'ember-outer': addon(
+            'ember-outer',
+            { version: '1.0.0', dependencies: { lodash: '^3.0.0' } },
+            { node_modules: { lodash: pkg('lodash', { version: '3.10.1' }) } }
+          ),
+          lodash: pkg('lodash', { version: '4.17.21' }),
+        },
+      },
+      broken: {
+        'package.json': JSON.stringify({
+          name: 'broken',
+          version: '1.0.0',
+          ember: { edition: 'octane' },
+          dependencies: { missing: '^1.0.0' },
+          devDependencies: { 'ember-cli': '*' },
+          preferGlobal: true,
+        }),
+        node_modules: { 'ember-cli': pkg('ember-cli', { version: '4.8.0' }) },
+      },
+    });
+  });
+
+  afterAll(function () {
+    fs.removeSync(rootDir);
+  });
+
+  beforeEach(function () {
+    log = vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    error = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(function () {
+    vi.restoreAllMocks();
+  });
+
+  test('check reports the errors and fails if there are any', function () {
+    expect(runCli(['check'], appDir)).to.equal(0);
+    expect(output()).to.equal('No errors were found in the package info cache');
+
+    log.mockClear();
+    expect(runCli(['check', '--app', 'broken', '--json'], rootDir)).to.equal(1);
+    expect(jsonOutput()).to.eql([
+      {
+        name: 'broken',
+        version: '1.0.0',
+        type: 'ember-app',
+        path: path.join(rootDir, 'broken'),
+        errors: [
+          {
+            type: ERRORS.ERROR_DEPENDENCIES_MISSING,
+            severity: 'error',
+            message: "specifies a dependency that was not loaded 'missing'",
+            data: ['missing'],
+            locations: [
+              {
+                filePath: path.join(rootDir, 'broken/package.json'),
+                line: 1,
+                column: 81,
+              },
+            ],
+          },
+        ],
+      },
+    ]);
+
+    // suppressing the only error passes the check.
+    log.mockClear();
+    expect(
+      runCli(
+        [
+          'check',
+          '--app',
+          'broken',
+          '--suppress',
+          ERRORS.ERROR_DEPENDENCIES_MISSING,
+        ],
+        rootDir
+      )
+    ).to.equal(0);
+    expect(output()).to.equal('No errors were found in the package info cache');
+
+    // warnings are only reported if asked for, and don't fail the check.
+    log.mockClear();
+    expect(
+      runCli(
+        [
+          'check',
+          '--app',
+          'broken',
+          '--suppress',
+          ERRORS.ERROR_DEPENDENCIES_MISSING,
+          '--severity',
+          'warning',
+        ],
+        rootDir
+      )
+    ).to.equal(0);
+    expect(output()).to.contain(
+      "  warning: has a deprecated 'preferGlobal' field (deprecated-fields)"
+    );
+  });
+
+  test('why shows the chains of dependencies to each copy', function () {
+    expect(runCli(['why', 'lodash', '--project', appDir])).to.equal(0);
+    expect(output()).to.equal(
+      [
+        `lodash@3.10.1 at '${path.join(
+          appDir,
+          'node_modules/ember-outer/node_modules/lodash'
+        )}':`,
+        '  app@1.0.0 > ember-outer@1.0.0 > lodash@3.10.1',
+        `lodash@4.17.21 at '${path.join(appDir, 'node_modules/lodash')}':`,
+        '  app@1.0.0 > lodash@4.17.21',
+      ].join('\n')
+    );
+
+    log.mockClear();
+    expect(runCli(['why', 'left-pad'], appDir)).to.equal(1);
+    expect(output()).to.equal(`'left-pad' is not installed`);
+  });
+
+  test('ls shows the dependency tree', function () {
+    expect(runCli(['ls'], appDir)).to.equal(0);
+    expect(output()).to.equal(
+      [
+        'app@1.0.0',
+        '  ember-cli@4.8.0',
+        '  ember-outer@1.0.0',
+        '    lodash@3.10.1',
+        '  lodash@4.17.21',
+      ].join('\n')
+    );
+
+    log.mockClear();
+    expect(runCli(['ls', '--depth', '0', '--addons-only'], appDir)).to.equal(0);
+    expect(output()).to.equal(['app@1.0.0', '  ember-outer@1.0.0'].join('\n'));
+
+    log.mockClear();
+    expect(runCli(['ls', '--json', '--depth', '0'], appDir)).to.equal(0);
+    expect(
+      (jsonOutput() as { dependencies: { name: string }[] }).dependencies.map(
+        ({ name }) => name
+      )
+    ).to.eql(['ember-cli', 'ember-outer', 'lodash']);
+  });
+
+  test('dupes lists the packages installed more than once', function () {
+    expect(runCli(['dupes', '--json'], appDir)).to.equal(0);
+    expect(jsonOutput()).to.eql([
+      {
+        name: 'lodash',
+        isEmberAddon: false,
+        copies: [
+          {
+            version: '3.10.1',
+            path: path.join(
+              appDir,
+              'node_modules/ember-outer/node_modules/lodash'
+            ),
+            dependents: [
+              {
+                name: 'ember-outer',
+                version: '1.0.0',
+                type: 'ember-addon',
+                path: path.join(appDir, 'node_modules/ember-outer'),
+              },
+            ],
+          },
+          {
+            version: '4.17.21',
+            path: path.join(appDir, 'node_modules/lodash'),
+            dependents: [
+              {
+                name: 'app',
+                version: '1.0.0',
+                type: 'ember-app',
+                path: appDir,
+              },
+            ],
+          },
+        ],
+      },
+    ]);
+  });
+
+  test('info describes the package a name resolves to', function () {
+    expect(runCli(['info', 'ember-outer'], appDir)).to.equal(0);
+    expect(output()).to.equal(
+      [
+        'ember-outer@1.0.0',
+        '  type: ember-addon',
+        `  path: ${path.join(appDir, 'node_modules/ember-outer')}`,
+        '  dependencies: lodash@3.10.1',
+        '  dependents: app@1.0.0',
+        '  errors: none',
+      ].join('\n')
+    );
+  });
+
+  test('reports usage errors', function () {
+    expect(runCli([], appDir)).to.equal(2);
+    expect(runCli(['frobnicate'], appDir)).to.equal(2);
+    expect(runCli(['why'], appDir)).to.equal(2);
+    expect(runCli(['ls', '--depth', 'deep'], appDir)).to.equal(2);
+    expect(runCli(['ls', '--depth=-1'], appDir)).to.equal(2);
+    expect(runCli(['ls', '--depth', 'Infinity'], appDir)).to.equal(2);
+    expect(runCli(['ls', '--depth', '1.5'], appDir)).to.equal(2);
+    expect(runCli(['check', '--unknown'], appDir)).to.equal(2);
+    expect(runCli(['check', '--reporter', 'xml'], appDir)).to.equal(2);
+    expect(runCli(['check', '--suppress', 'typo'], appDir)).to.equal(2);
+    expect(runCli(['check', '--severity', 'info'], appDir)).to.equal(2);
+    expect(error.mock.calls.length).to.equal(11);
+    expect(error.mock.calls[0]?.[0]).to.equal(
+      `No command given\n\n${CLI_USAGE}`
+    );
+
+    expect(runCli(['--help'], appDir)).to.equal(0);
+    expect(output()).to.equal(CLI_USAGE);
+  });
+
+  test('fails for a directory that does not exist', function () {
+    const missingDir = path.join(rootDir, 'missing');
+
+    expect(runCli(['check', '--project', missingDir], rootDir)).to.equal(2);
+    expect(runCli(['check', '--app', 'missing'], rootDir)).to.equal(2);
+    expect(
+      runCli(['ls', '--addon', 'missing', '--project', 'app'], rootDir)
+    ).to.equal(2);
+    expect(output()).to.equal('');
+    expect(error.mock.calls[0]?.[0]).to.equal(
+      `No directory at '${missingDir}'\n\n${CLI_USAGE}`
+    );
+  });
+});
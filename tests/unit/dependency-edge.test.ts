@@ -0,0 +1,173 @@
+'use strict';
+
+import fixturify from 'fixturify';
+import fs from 'fs-extra';
+import os from 'node:os';
+import path from 'node:path';
+import { afterAll, beforeAll, describe, expect, test } from 'vitest';
+
+import { ERRORS } from '../../src/objects/errors';
+import { PackageInfo } from '../../src/objects/package-info';
+import { PackageInfoCache } from '../../src/objects/package-info-cache';
+import { parseDependencySpecifier } from '../../src/utils';
+import { pkg } from '../helpers/fixtures';
+
+describe('parseDependencySpecifier', function () {
+  test('recognizes the kinds of specifier', function () {
+    expect(parseDependencySpecifier('^1.2.0')).to.eql({
+      type: 'range',
+      range: '^1.2.0',
+    });
+    expect(parseDependencySpecifier('latest')).to.eql({ type: 'tag' });
+    expect(parseDependencySpecifier('npm:@scope/real@~2.0.0')).to.eql({
+      type: 'alias',
+      name: '@scope/real',
+      range: '~2.0.0',
+    });
+    expect(parseDependencySpecifier('npm:real')).to.eql({
+      type: 'alias',
+      name: 'real',
+      range: '*',
+    });
+    expect(parseDependencySpecifier('workspace:*')).to.eql({
+      type: 'workspace',
+      range: undefined,
+    });
+    expect(parseDependencySpecifier('workspace:^1.0.0')).to.eql({
+      type: 'workspace',
+      range: '^1.0.0',
+    });
+    expect(parseDependencySpecifier('file:../foo')).to.eql({ type: 'file' });
+    expect(parseDependencySpecifier('../foo')).to.eql({ type: 'file' });
+    expect(parseDependencySpecifier('link:../foo')).to.eql({ type: 'link' });
+    expect(parseDependencySpecifier('github:user/repo')).to.eql({
+      type: 'git',
+    });
+    expect(parseDependencySpecifier('user/repo#v1.0.0')).to.eql({
+      type: 'git',
+    });
+    expect(
+      parseDependencySpecifier('https://github.com/user/repo.git#main')
+    ).to.eql({ type: 'git' });
+    expect(
+      parseDependencySpecifier('https://example.com/foo-1.0.0.tgz')
+    ).to.eql({ type: 'url' });
+  });
+});
+
+describe('dependency ranges', function () {
+  let rootDir: string;
+  let appDir: string;
+  let app: PackageInfo;
+
+  beforeAll(function () {
+    rootDir = fs.realpathSync(
+      fs.mkdtempSync(path.join(os.tmpdir(), 'pic-dependency-edge-'))
+    );
+
+    fixturify.writeSync(rootDir, {
+      app: {
+        'package.json': JSON.stringify({
+          name: 'app',
+          version: '1.0.0',
+          ember: { edition: 'octane' },
+          dependencies: {
+            'in-range': '^1.0.0',
+            'out-of-range': '^2.0.0',
+            aliased: 'npm:real-name@^3.0.0',
+            'wrong-alias': 'npm:other-name@^3.0.0',
+            local: 'file:../local',
+            linked: 'link:../linked',
+            tagged: 'latest',
+            'from-git': 'github:user/from-git',
+            'in-workspace': 'workspace:*',
+          },
+          devDependencies: {
+            'ember-cli': '~4.8.0',
+          },
+        }),
+        node_modules: {
+          'in-range': pkg('in-range', { version: '1.5.0' }),
+          'out-of-range': pkg('out-of-range', { version: '1.5.0' }),
+          aliased: pkg('real-name', { version: '3.1.0' }),
+          'wrong-alias': pkg('real-name', { version: '3.1.0' }),
+          local: pkg('local', { version: '0.0.1' }),
+          linked: pkg('linked', { version: '0.0.1' }),
+          tagged: pkg('tagged', { version: '9.9.9' }),
+          'from-git': pkg('from-git', { version: '0.0.1' }),
+          'in-workspace': pkg('in-workspace', { version: '5.0.0' }),
+          'ember-cli': pkg('ember-cli', { version: '4.9.0' }),
+        },
+      },
+    });
+
+    appDir = path.join(rootDir, 'app');
+
+    const pic = new PackageInfoCache();
+    app = pic.loadApp(appDir);
+  });
+
+  afterAll(function () {
+    fs.removeSync(rootDir);
+  });
+
+  test('records the requested range and installed version of each edge', function () {
+    const edge = app
+      .getDependencyEdges()
+      .find((dependencyEdge) => dependencyEdge.name === 'in-range');
+
+    expect(edge?.dependencyType).to.equal('dependencies');
+    expect(edge?.range).to.equal('^1.0.0');
+    expect(edge?.installedVersion).to.equal('1.5.0');
+    expect(edge?.packageInfo.realPath).to.equal(
+      path.join(appDir, 'node_modules', 'in-range')
+    );
+    expect(edge?.satisfied).to.be.true;
+  });
+
+  test('reports dependencies installed outside of the requested range', function () {
+    const errors = app.errors
+      .getErrors()
+      .filter((err) => err.type === ERRORS.ERROR_DEPENDENCIES_OUT_OF_RANGE);
+
+    expect(errors.map((err) => err.data)).to.eql([
+      [
+        {
+          dependencyType: 'dependencies',
+          name: 'out-of-range',
+          range: '^2.0.0',
+          version: '1.5.0',
+        },
+        {
+          dependencyType: 'dependencies',
+          name: 'wrong-alias',
+          range: 'npm:other-name@^3.0.0',
+          version: '3.1.0',
+        },
+      ],
+      [
+        {
+          dependencyType: 'devDependencies',
+          name: 'ember-cli',
+          range: '~4.8.0',
+          version: '4.9.0',
+        },
+      ],
+    ]);
+  });
+
+  test('does not check specifiers without a range', function () {
+    const unchecked = app
+      .getDependencyEdges()
+      .filter((edge) => edge.satisfied === undefined)
+      .map((edge) => edge.name);
+
+    expect(unchecked).to.have.members([
+      'local',
+      'linked',
+      'tagged',
+      'from-git',
+      'in-workspace',
+    ]);
+  });
+});
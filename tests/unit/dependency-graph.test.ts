@@ -0,0 +1,137 @@
+'use strict';
+
+import fixturify from 'fixturify';
+import fs from 'fs-extra';
+import os from 'node:os';
+import path from 'node:path';
+import { afterAll, beforeAll, describe, expect, test } from 'vitest';
+
+import { PackageInfo } from '../../src/objects/package-info';
+import { PackageInfoCache } from '../../src/objects/package-info-cache';
+import { pkg } from '../helpers/fixtures';
+
+describe('dependency graph', function () {
+  let rootDir: string;
+  let appDir: string;
+  let pic: PackageInfoCache;
+
+  function getPackage(...parts: string[]): PackageInfo {
+    return pic.getEntry(path.join(appDir, ...parts)) as PackageInfo;
+  }
+
+  function names(packageInfos: PackageInfo[]): string[] {
+    return packageInfos.map(
+      (packageInfo) => `${packageInfo.name}@${packageInfo.packageJson.version}`
+    );
+  }
+
+  beforeAll(function () {
+    rootDir = fs.realpathSync(
+      fs.mkdtempSync(path.join(os.tmpdir(), 'pic-dependency-graph-'))
+    );
+
+    // app -> a -> lodash
+    // app -> b -> c
+    // app -(dev)-> ember-cli -> a
+    fixturify.writeSync(rootDir, {
+      app: {
+        'package.json': JSON.stringify({
+          name: 'app',
+          version: '1.0.0',
+          ember: { edition: 'octane' },
+          dependencies: { a: '*', b: '*' },
+          devDependencies: { 'ember-cli': '*' },
+        }),
+        node_modules: {
+          a: pkg('a', { version: '1.0.0', dependencies: { lodash: '^4.0.0' } }),
+          b: pkg('b', { version: '1.0.0', dependencies: { c: '^1.0.0' } }),
+          c: pkg('c', { version: '1.0.0' }),
+          lodash: pkg('lodash', { version: '4.17.21' }),
+          'ember-cli': pkg('ember-cli', {
+            version: '4.8.0',
+            dependencies: { a: '*' },
+          }),
+        },
+      },
+    });
+
+    appDir = path.join(rootDir, 'app');
+
+    pic = new PackageInfoCache();
+    pic.loadApp(appDir);
+  });
+
+  afterAll(function () {
+    fs.removeSync(rootDir);
+  });
+
+  test('getDependents finds the packages that depend on a package', function () {
+    const a = getPackage('node_modules', 'a');
+
+    expect(names(pic.getDependents(a))).to.have.members([
+      'app@1.0.0',
+      'ember-cli@4.8.0',
+    ]);
+    expect(
+      names(pic.getDependents(getPackage('node_modules', 'ember-cli')))
+    ).to.eql(['app@1.0.0']);
+    expect(
+      names(
+        pic.getDependents(getPackage('node_modules', 'ember-cli'), {
+          includeDev: false,
+        })
+      )
+    ).to.eql([]);
+    expect(names(pic.getDependents(getPackage('node_modules', 'c')))).to.eql([
+      'b@1.0.0',
+    ]);
+  });
+
+  test('getTransitiveDependencies finds direct and indirect dependencies', function () {
+    const app = pic.rootPackage as PackageInfo;
+
+    expect(names(pic.getTransitiveDependencies(app))).to.eql([
+      'a@1.0.0',
+      'b@1.0.0',
+      'ember-cli@4.8.0',
+      'lodash@4.17.21',
+      'c@1.0.0',
+    ]);
+    expect(
+      names(pic.getTransitiveDependencies(app, { includeDev: false }))
+    ).to.not.include('ember-cli@4.8.0');
+  });
+
+  test('findPathsTo finds every chain from the root package', function () {
+    const lodash = getPackage('node_modules', 'lodash');
+
+    expect(pic.findPathsTo(lodash).map(names)).to.have.deep.members([
+      ['app@1.0.0', 'a@1.0.0', 'lodash@4.17.21'],
+      ['app@1.0.0', 'ember-cli@4.8.0', 'a@1.0.0', 'lodash@4.17.21'],
+    ]);
+    expect(
+      pic.findPathsTo(lodash, { includeDev: false }).map(names)
+    ).to.deep.equal([['app@1.0.0', 'a@1.0.0', 'lodash@4.17.21']]);
+    expect(pic.findPathsTo(pic.rootPackage as PackageInfo).map(names)).to.eql([
+      ['app@1.0.0'],
+    ]);
+  });
+
+  test('reflects changes made by invalidate', function () {
+    const packageJsonPath = path.join(
+      appDir,
+      'node_modules',
+      'b',
+      'package.json'
+    );
+    fs.writeJsonSync(packageJsonPath, {
+      name: 'b',
+      version: '1.0.0',
+      dependencies: {},
+    });
+
+    pic.invalidate(packageJsonPath);
+
+    expect(pic.getDependents(getPackage('node_modules', 'c'))).to.eql([]);
+  });
+});
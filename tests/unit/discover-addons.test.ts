@@ -0,0 +1,152 @@
+'use strict';
+
+import fixturify from 'fixturify';
+import fs from 'fs-extra';
+import os from 'node:os';
+import path from 'node:path';
+import { afterAll, beforeAll, describe, expect, test } from 'vitest';
+
+import { EmberAddonPackageInfo } from '../../src/objects/ember-addon-package-info';
+import { EmberAppPackageInfo } from '../../src/objects/ember-app-package-info';
+import { ERRORS } from '../../src/objects/errors';
+import { PackageInfoCache } from '../../src/objects/package-info-cache';
+import { addon } from '../helpers/fixtures';
+
+function app(
+  dependencies: Record<string, fixturify.DirJSON>,
+  devDependencies: Record<string, fixturify.DirJSON> = {},
+  extra: Record<string, unknown> = {},
+  files: fixturify.DirJSON = {}
+): fixturify.DirJSON {
+  const versions = (deps: Record<string, unknown>): Record<string, string> =>
+    Object.fromEntries(Object.keys(deps).map((name) => [name, '*']));
+
+  return {
+    'package.json': JSON.stringify({
+      name: 'app',
+      version: '1.0.0',
+      ember: { edition: 'octane' },
+      dependencies: versions(dependencies),
+      devDependencies: versions({ 'ember-cli': true, ...devDependencies }),
+      ...extra,
+    }),
+    node_modules: {
+      'ember-cli': {
+        'package.json': JSON.stringify({ name: 'ember-cli', version: '4.8.0' }),
+      },
+      ...dependencies,
+      ...devDependencies,
+    },
+    ...files,
+  };
+}
+
+describe('discoverAddons', function () {
+  let rootDir: string;
+
+  function discover(dirName: string): {
+    packageInfo: EmberAppPackageInfo | EmberAddonPackageInfo;
+    names: Array<string | undefined>;
+  } {
+    const pic = new PackageInfoCache();
+    const packageInfo = pic.loadApp(path.join(rootDir, dirName)) as
+      | EmberAppPackageInfo
+      | EmberAddonPackageInfo;
+
+    return {
+      packageInfo,
+      names: packageInfo.discoverAddons().map((addonInfo) => addonInfo.name),
+    };
+  }
+
+  beforeAll(function () {
+    rootDir = fs.realpathSync(
+      fs.mkdtempSync(path.join(os.tmpdir(), 'pic-discover-addons-'))
+    );
+
+    fixturify.writeSync(rootDir, {
+      discovery: app(
+        {
+          c: addon('c'),
+          a: addon('a'),
+          b: addon('b'),
+          lodash: {
+            'package.json': JSON.stringify({
+              name: 'lodash',
+              version: '4.17.21',
+            }),
+          },
+        },
+        { y: addon('y'), z: addon('z'), x: addon('x') },
+        { 'ember-addon': { paths: ['lib/t', 'lib/s'] } },
+        { lib: { s: addon('s'), t: addon('t') } }
+      ),
+      ordering: app({
+        a: addon('a', { 'ember-addon': { after: 'c' } }),
+        b: addon('b', { 'ember-addon': { before: ['a'] } }),
+        c: addon('c'),
+        d: addon('d', {
+          'ember-addon': {
+            before: 'not-installed',
+            after: ['not-installed-2'],
+          },
+        }),
+      }),
+      cycle: app({
+        e: addon('e', { 'ember-addon': { after: 'f' } }),
+        f: addon('f', { 'ember-addon': { after: ['e'] } }),
+        g: addon('g'),
+      }),
+    });
+  });
+
+  afterAll(function () {
+    fs.removeSync(rootDir);
+  });
+
+  test('lock down dependency orderings', function () {
+    expect(discover('discovery').names).to.deep.equal([
+      // dev dependencies
+      'x',
+      'y',
+      'z',
+
+      // dependencies
+      'a',
+      'b',
+      'c',
+
+      // in repo addons
+      's',
+      't',
+    ]);
+  });
+
+  test('orders addons by their before and after fields', function () {
+    const { packageInfo, names } = discover('ordering');
+
+    expect(names).to.deep.equal(['c', 'b', 'a', 'd']);
+    expect(packageInfo.hasErrors()).to.be.false;
+  });
+
+  test('records an error for a cycle in the before and after fields', function () {
+    const { packageInfo, names } = discover('cycle');
+
+    expect(names).to.deep.equal(['f', 'e', 'g']);
+    expect(
+      packageInfo.errors
+        .getErrors()
+        .filter((err) => err.type === ERRORS.ERROR_EMBER_ADDON_ORDER_CYCLE)
+        .map((err) => err.data)
+    ).to.deep.equal([['f', 'e', 'f']]);
+
+    // discovering again doesn't record the error twice.
+    packageInfo.discoverAddons();
+
+    expect(
+      packageInfo.errors
+        .getErrors()
+        .filter((err) => err.type === ERRORS.ERROR_EMBER_ADDON_ORDER_CYCLE)
+    ).to.have.length(1);
+  });
+});
@@ -0,0 +1,120 @@
+'use strict';
+
+import fixturify from 'fixturify';
+import fs from 'fs-extra';
+import os from 'node:os';
+import path from 'node:path';
+import { afterAll, beforeAll, describe, expect, test } from 'vitest';
+
+import { PackageInfo } from '../../src/objects/package-info';
+import { PackageInfoCache } from '../../src/objects/package-info-cache';
+import { addon, pkg } from '../helpers/fixtures';
+
+describe('findDuplicates', function () {
+  let rootDir: string;
+  let appDir: string;
+  let pic: PackageInfoCache;
+
+  function getPackage(...parts: string[]): PackageInfo {
+    return pic.getEntry(path.join(appDir, ...parts)) as PackageInfo;
+  }
+
+  beforeAll(function () {
+    rootDir = fs.realpathSync(
+      fs.mkdtempSync(path.join(os.tmpdir(), 'pic-duplicates-'))
+    );
+
+    fixturify.writeSync(rootDir, {
+      app: {
+        'package.json': JSON.stringify({
+          name: 'app',
+          version: '1.0.0',
+          ember: { edition: 'octane' },
+          dependencies: {
+            'ember-outer': '^1.0.0',
+            'ember-shared': '^2.0.0',
+            lodash: '^4.0.0',
+          },
+          devDependencies: { 'ember-cli': '*' },
+        }),
+        node_modules: {
+          'ember-cli': pkg('ember-cli', { version: '4.8.0' }),
+          'ember-outer': addon(
+            'ember-outer',
+            {
+              version: '1.0.0',
+              dependencies: { 'ember-shared': '^1.0.0', lodash: '^3.0.0' },
+            },
+            {
+              node_modules: {
+                'ember-shared': addon('ember-shared', { version: '1.2.0' }),
+                lodash: pkg('lodash', { version: '3.10.1' }),
+              },
+            }
+          ),
+          'ember-shared': addon('ember-shared', { version: '2.0.0' }),
+          lodash: pkg('lodash', { version: '4.17.21' }),
+        },
+      },
+    });
+
+    appDir = path.join(rootDir, 'app');
+
+    pic = new PackageInfoCache();
+    pic.loadApp(appDir);
+  });
+
+  afterAll(function () {
+    fs.removeSync(rootDir);
+  });
+
+  test('groups the installed copies of each package by name', function () {
+    const duplicates = pic.findDuplicates();
+
+    expect(duplicates.map((duplicate) => duplicate.name)).to.eql([
+      'ember-shared',
+      'lodash',
+    ]);
+
+    const [emberShared, lodash] = duplicates;
+
+    expect(
+      emberShared?.copies.map((copy) => [copy.version, copy.realPath])
+    ).to.eql([
+      [
+        '1.2.0',
+        path.join(
+          appDir,
+          'node_modules',
+          'ember-outer',
+          'node_modules',
+          'ember-shared'
+        ),
+      ],
+      ['2.0.0', path.join(appDir, 'node_modules', 'ember-shared')],
+    ]);
+    expect(lodash?.copies.map((copy) => copy.version)).to.eql([
+      '3.10.1',
+      '4.17.21',
+    ]);
+  });
+
+  test('lists the packages that resolve to each copy', function () {
+    const [emberShared] = pic.findDuplicates();
+
+    expect(emberShared?.copies.map((copy) => copy.dependents)).to.eql([
+      [getPackage('node_modules', 'ember-outer')],
+      [pic.rootPackage],
+    ]);
+    expect(emberShared?.copies[0]?.packageInfo).to.equal(
+      getPackage('node_modules', 'ember-outer', 'node_modules', 'ember-shared')
+    );
+  });
+
+  test('flags duplicated Ember addons', function () {
+    const [emberShared, lodash] = pic.findDuplicates();
+
+    expect(emberShared?.isEmberAddon).to.be.true;
+    expect(lodash?.isEmberAddon).to.be.false;
+  });
+});
@@ -0,0 +1,214 @@
+'use strict';
+
+import fixturify from 'fixturify';
+import fs from 'fs-extra';
+import os from 'node:os';
+import path from 'node:path';
+import { afterAll, beforeAll, describe, expect, test } from 'vitest';
+
+import { EmberEnginePackageInfo } from '../../src/objects/ember-engine-package-info';
+import { EmberEngineTree } from '../../src/objects/ember-engine-tree';
+import { PackageInfoCache } from '../../src/objects/package-info-cache';
+import { addon } from '../helpers/fixtures';
+
+// an addon (or, with `engine`, an engine) of the engine trees, depending on
+// its `dependencies`, which are nested in its node_modules if `nested`.
+function treeAddon(
+  name: string,
+  options: {
+    engine?: boolean;
+    index?: string;
+    emberAddon?: Record<string, unknown>;
+    dependencies?: Record<string, fixturify.DirJSON>;
+    nested?: boolean;
+  } = {}
+): fixturify.DirJSON {
+  const dependencies = options.dependencies ?? {};
+
+  return addon(
+    name,
+    {
+      keywords: options.engine
+        ? ['ember-addon', 'ember-engine']
+        : ['ember-addon'],
+      'ember-addon': options.emberAddon ?? {},
+      dependencies: Object.fromEntries(
+        Object.keys(dependencies).map((dependencyName) => [dependencyName, '*'])
+      ),
+    },
+    {
+      'index.js': options.index ?? `module.exports = { name: '${name}' };`,
+      ...(options.nested ? { node_modules: dependencies } : {}),
+    }
+  );
+}
+
+// a summary of a tree: names, lazyLoading and addon names.
+type TreeSummary = {
+  name: string | undefined;
+  lazyLoading: boolean | undefined;
+  addons: Array<string | undefined>;
+  engines: TreeSummary[];
+};
+
+function summarize(tree: EmberEngineTree): TreeSummary {
+  return {
+    name: tree.packageInfo.name,
+    lazyLoading: tree.lazyLoading,
+    addons: tree.addons.map((addonInfo) => addonInfo.name),
+    engines: tree.engines.map(summarize),
+  };
+}
+
+describe('Ember engines', function () {
+  let rootDir: string;
+  let appDir: string;
+  let pic: PackageInfoCache;
+
+  function getEngine(...parts: string[]): EmberEnginePackageInfo {
+    return pic.getEntry(path.join(appDir, ...parts)) as EmberEnginePackageInfo;
+  }
+
+  beforeAll(function () {
+    rootDir = fs.realpathSync(
+      fs.mkdtempSync(path.join(os.tmpdir(), 'pic-engines-'))
+    );
+
+    const sharedAddon = treeAddon('shared-addon');
+
+    fixturify.writeSync(rootDir, {
+      app: {
+        'package.json': JSON.stringify({
+          name: 'app',
+          version: '1.0.0',
+          ember: { edition: 'octane' },
+          dependencies: {
+            'lazy-engine': '*',
+            'eager-engine': '*',
+            'helper-addon': '*',
+            'shared-addon': '*',
+          },
+          devDependencies: { 'ember-cli': '*' },
+        }),
+        node_modules: {
+          'ember-cli': {
+            'package.json': JSON.stringify({
+              name: 'ember-cli',
+              version: '4.8.0',
+            }),
+          },
+          'lazy-engine': treeAddon('lazy-engine', {
+            engine: true,
+            index: `const { buildEngine } = require('ember-engines/lib/engine-addon');\nmodule.exports = buildEngine({\n  name: 'lazy-engine',\n  lazyLoading: {\n    enabled: true,\n  },\n});\n`,
+            dependencies: {
+              'shared-addon': sharedAddon,
+              'nested-engine': treeAddon('nested-engine', {
+                engine: true,
+                index: `module.exports = { name: 'nested-engine', lazyLoading: false };`,
+              }),
+            },
+            nested: true,
+          }),
+          'eager-engine': treeAddon('eager-engine', {
+            engine: true,
+            emberAddon: { lazyLoading: { enabled: false } },
+          }),
+          'helper-addon': treeAddon('helper-addon', {
+            dependencies: {
+              'unknown-engine': treeAddon('unknown-engine', {
+                engine: true,
+                index: `module.exports = { name: 'unknown-engine', lazyLoading: isLazy() };`,
+              }),
+            },
+            nested: true,
+          }),
+          'shared-addon': sharedAddon,
+        },
+      },
+    });
+
+    appDir = path.join(rootDir, 'app');
+
+    pic = new PackageInfoCache();
+    pic.loadApp(appDir);
+  });
+
+  afterAll(function () {
+    fs.removeSync(rootDir);
+  });
+
+  test('determines lazyLoading from index.js or the ember-addon config', function () {
+    expect(getEngine('node_modules', 'lazy-engine').lazyLoading).to.be.true;
+    expect(getEngine('node_modules', 'eager-engine').lazyLoading).to.be.false;
+    expect(
+      getEngine('node_modules', 'lazy-engine', 'node_modules', 'nested-engine')
+        .lazyLoading
+    ).to.be.false;
+    expect(
+      getEngine(
+        'node_modules',
+        'helper-addon',
+        'node_modules',
+        'unknown-engine'
+      ).lazyLoading
+    ).to.be.undefined;
+  });
+
+  test('builds the host to engine to nested engine tree', function () {
+    const tree = pic.getEngineTree() as EmberEngineTree;
+
+    expect(summarize(tree)).to.deep.equal({
+      name: 'app',
+      lazyLoading: undefined,
+      addons: ['helper-addon', 'shared-addon'],
+      engines: [
+        {
+          name: 'eager-engine',
+          lazyLoading: false,
+          addons: [],
+          engines: [],
+        },
+        {
+          name: 'unknown-engine',
+          lazyLoading: undefined,
+          addons: [],
+          engines: [],
+        },
+        {
+          name: 'lazy-engine',
+          lazyLoading: true,
+          addons: ['shared-addon'],
+          engines: [
+            {
+              name: 'nested-engine',
+              lazyLoading: false,
+              addons: [],
+              engines: [],
+            },
+          ],
+        },
+      ],
+    });
+  });
+
+  test("keeps an engine's addons separate from its host's", function () {
+    const tree = pic.getEngineTree() as EmberEngineTree;
+    const lazyEngine = tree.engines.find(
+      (engine) => engine.packageInfo.name === 'lazy-engine'
+    ) as EmberEngineTree;
+
+    // the engine has its own copy of the addon.
+    expect(lazyEngine.addons[0]?.realPath).to.equal(
+      path.join(
+        appDir,
+        'node_modules',
+        'lazy-engine',
+        'node_modules',
+        'shared-addon'
+      )
+    );
+    expect(tree.addons[1]?.realPath).to.equal(
+      path.join(appDir, 'node_modules', 'shared-addon')
+    );
+  });
+});
@@ -0,0 +1,216 @@
+'use strict';
+
+import fixturify from 'fixturify';
+import fs from 'fs-extra';
+import os from 'node:os';
+import path from 'node:path';
+import { afterAll, beforeAll, describe, expect, test, vi } from 'vitest';
+
+import { ConsoleErrorReporter } from '../../src/objects/console-error-reporter';
+import { ERRORS } from '../../src/objects/errors';
+import {
+  JsonErrorReporter,
+  JsonErrorReportEntry,
+} from '../../src/objects/json-error-reporter';
+import { JUnitErrorReporter } from '../../src/objects/junit-error-reporter';
+import { PackageInfoCache } from '../../src/objects/package-info-cache';
+import { SarifErrorReporter } from '../../src/objects/sarif-error-reporter';
+
+type SarifLog = {
+  version: string;
+  runs: {
+    tool: { driver: { rules: { id: string }[] } };
+    results: {
+      ruleId: string;
+      ruleIndex: number;
+      level: string;
+      message: { text: string };
+      locations: {
+        physicalLocation: {
+          artifactLocation: { uri: string; uriBaseId?: string };
+          region?: { startLine: number; startColumn: number };
+        };
+      }[];
+    }[];
+  }[];
+};
+
+describe('error reporters', function () {
+  let appDir: string;
+  let pic: PackageInfoCache;
+
+  beforeAll(function () {
+    appDir = fs.realpathSync(
+      fs.mkdtempSync(path.join(os.tmpdir(), 'pic-reporters-'))
+    );
+
+    // the in-repo addon path doesn't exist, so it is read as a missing package.
+    fixturify.writeSync(appDir, {
+      'package.json': JSON.stringify({
+        name: 'app',
+        version: '1.0.0',
+        ember: { edition: 'octane' },
+        dependencies: { missing: '^1.0.0', 'also-missing': '^1.0.0' },
+        devDependencies: { 'ember-cli': '*' },
+        'ember-addon': { paths: ['lib/gone'] },
+      }),
+      node_modules: {
+        'ember-cli': {
+          'package.json': JSON.stringify({
+            name: 'ember-cli',
+            version: '4.8.0',
+          }),
+        },
+      },
+    });
+
+    pic = new PackageInfoCache();
+    pic.loadApp(appDir);
+  });
+
+  afterAll(function () {
+    fs.removeSync(appDir);
+  });
+
+  test('leaves out the errors of missing packages by default', function () {
+    const gonePath = path.join(appDir, 'lib/gone');
+
+    expect(
+      pic.getErrorReport().entries.map(({ entry }) => entry.realPath)
+    ).to.eql([appDir]);
+    expect(
+      pic
+        .getErrorReport({ suppress: [] })
+        .entries.map(({ entry }) => entry.realPath)
+    ).to.have.members([appDir, gonePath]);
+    expect(
+      pic
+        .getErrorReport({
+          suppress: [
+            ERRORS.ERROR_DEPENDENCIES_MISSING,
+            ERRORS.ERROR_PACKAGE_DIR_MISSING,
+          ],
+        })
+        .entries.map(({ errors }) => errors.map(({ type }) => type))
+    ).to.eql([[ERRORS.ERROR_EMBER_ADDON_PATH_NOT_ADDON]]);
+  });
+
+  test('shows the errors on the console', function () {
+    const info = vi.spyOn(console, 'info').mockImplementation(() => undefined);
+    let calls: unknown[][];
+
+    try {
+      pic.showErrors();
+      calls = [...info.mock.calls];
+    } finally {
+      vi.restoreAllMocks();
+    }
+
+    const expected = [
+      '',
+      `Errors for the 'package.json' file for the app at ${appDir}`,
+      `  has an 'ember-addon.paths' entry 'lib/gone' that is not an addon`,
+      '  specifies some dependencies that were not loaded:',
+      `    'missing'`,
+      `    'also-missing'`,
+    ].join('\n');
+
+    expect(calls).to.eql([[expected]]);
+    expect(pic.reportErrors(new ConsoleErrorReporter())).to.equal(expected);
+  });
+
+  test('reports the errors as JSON', function () {
+    const entries = JSON.parse(
+      pic.reportErrors(new JsonErrorReporter())
+    ) as JsonErrorReportEntry[];
+
+    expect(entries).to.eql([
+      {
+        name: 'app',
+        version: '1.0.0',
+        type: 'ember-app',
+        path: appDir,
+        errors: [
+          {
+            type: ERRORS.ERROR_EMBER_ADDON_PATH_NOT_ADDON,
+            severity: 'error',
+            message: `has an 'ember-addon.paths' entry 'lib/gone' that is not an addon`,
+            data: 'lib/gone',
+            locations: [],
+          },
+          {
+            type: ERRORS.ERROR_DEPENDENCIES_MISSING,
+            severity: 'error',
+            message: `specifies some dependencies that were not loaded:\n'missing'\n'also-missing'`,
+            data: ['missing', 'also-missing'],
+            locations: [
+              {
+                filePath: path.join(appDir, 'package.json'),
+                line: 1,
+                column: 78,
+              },
+              {
+                filePath: path.join(appDir, 'package.json'),
+                line: 1,
+                column: 97,
+              },
+            ],
+          },
+        ],
+      },
+    ]);
+  });
+
+  test('reports the errors as SARIF results on the package.json files', function () {
+    const log = JSON.parse(
+      pic.reportErrors(new SarifErrorReporter())
+    ) as SarifLog;
+    const run = log.runs[0] as SarifLog['runs'][0];
+
+    expect(log.version).to.equal('2.1.0');
+    expect(run.tool.driver.rules.map(({ id }) => id)).to.eql([
+      ERRORS.ERROR_EMBER_ADDON_PATH_NOT_ADDON,
+      ERRORS.ERROR_DEPENDENCIES_MISSING,
+    ]);
+    expect(
+      run.results.map(({ ruleId, ruleIndex }) => [ruleId, ruleIndex])
+    ).to.eql([
+      [ERRORS.ERROR_EMBER_ADDON_PATH_NOT_ADDON, 0],
+      [ERRORS.ERROR_DEPENDENCIES_MISSING, 1],
+    ]);
+
+    const [notAddon, missing] = run.results as SarifLog['runs'][0]['results'];
+    const artifactLocation = { uri: 'package.json', uriBaseId: '%SRCROOT%' };
+
+    expect(missing?.level).to.equal('error');
+    expect(missing?.message.text).to.equal(
+      `The package.json file specifies some dependencies that were not loaded:\n'missing'\n'also-missing'`
+    );
+
+    // the missing dependencies are located at their keys, and the other error at
+    // the whole file.
+    expect(
+      missing?.locations.map(({ physicalLocation }) => physicalLocation)
+    ).to.eql([
+      { artifactLocation, region: { startLine: 1, startColumn: 78 } },
+      { artifactLocation, region: { startLine: 1, startColumn: 97 } },
+    ]);
+    expect(
+      notAddon?.locations.map(({ physicalLocation }) => physicalLocation)
+    ).to.eql([{ artifactLocation }]);
+  });
+
+  test('reports the errors as JUnit test cases', function () {
+    const xml = pic.reportErrors(new JUnitErrorReporter());
+
+    expect(xml).to.contain(
+      '<testsuites name="package-info-cache" tests="2" failures="2" errors="0">'
+    );
+    expect(xml).to.contain(
+      `<testcase classname="app" name="dependenciesMissing" file="${appDir}">`
+    );
+    expect(xml).to.contain(
+      '<failure type="emberAddonPathNotAddon" message="has an &apos;ember-addon.paths&apos; entry &apos;lib/gone&apos; that is not an addon">'
+    );
+  });
+});
@@ -0,0 +1,112 @@
+'use strict';
+
+import fixturify from 'fixturify';
+import fs from 'fs-extra';
+import os from 'node:os';
+import path from 'node:path';
+import { afterAll, beforeAll, describe, expect, test } from 'vitest';
+
+import { ErrorEntry } from '../../src/objects/error-entry';
+import { ErrorList } from '../../src/objects/error-list';
+import { ERRORS } from '../../src/objects/errors';
+import { PackageInfoCache } from '../../src/objects/package-info-cache';
+
+describe('typed errors', function () {
+  let appDir: string;
+
+  beforeAll(function () {
+    appDir = fs.realpathSync(
+      fs.mkdtempSync(path.join(os.tmpdir(), 'pic-errors-'))
+    );
+
+    // pretty-printed, so the dependencies are at known lines.
+    fixturify.writeSync(appDir, {
+      'package.json': JSON.stringify(
+        {
+          name: 'app',
+          version: '1.0.0',
+          ember: { edition: 'octane' },
+          dependencies: { missing: '^1.0.0', broken: '^1.0.0' },
+          devDependencies: { 'ember-cli': '*' },
+          'ember-addon': { paths: ['lib/not-an-addon'] },
+        },
+        null,
+        2
+      ),
+      lib: {
+        'not-an-addon': {
+          'package.json': JSON.stringify({ name: 'not-an-addon' }),
+        },
+      },
+      node_modules: {
+        broken: {
+          'package.json':
+            '{\n  "name": "broken",\n  "version": "1.0.0"\n  "main": "index.js"\n}\n',
+        },
+        'ember-cli': {
+          'package.json': JSON.stringify({
+            name: 'ember-cli',
+            version: '4.8.0',
+          }),
+        },
+      },
+    });
+  });
+
+  afterAll(function () {
+    fs.removeSync(appDir);
+  });
+
+  test('records the data, severity and owner of each error', function () {
+    const pic = new PackageInfoCache();
+    const app = pic.loadApp(appDir);
+
+    expect(app.errors.getErrors()).to.deep.equal([
+      new ErrorEntry(
+        ERRORS.ERROR_EMBER_ADDON_PATH_NOT_ADDON,
+        'lib/not-an-addon',
+        appDir
+      ),
+      new ErrorEntry(ERRORS.ERROR_DEPENDENCIES_MISSING, ['missing'], appDir, [
+        { filePath: path.join(appDir, 'package.json'), line: 8, column: 5 },
+      ]),
+    ]);
+
+    app.errors.getErrors().forEach((errorEntry) => {
+      expect(errorEntry.severity).to.equal('error');
+      expect(errorEntry.entryPath).to.equal(appDir);
+    });
+  });
+
+  test('can be listed without an entry path', function () {
+    const errors = new ErrorList();
+
+    errors.addError(ERRORS.ERROR_DEPENDENCIES_MISSING, ['missing']);
+
+    expect(errors.getErrors()).to.deep.equal([
+      new ErrorEntry(ERRORS.ERROR_DEPENDENCIES_MISSING, ['missing'], ''),
+    ]);
+  });
+
+  test('locates the syntax errors in package.json files', async function () {
+    const brokenDir = path.join(appDir, 'node_modules/broken');
+    const expected = [
+      new ErrorEntry(
+        ERRORS.ERROR_PACKAGE_JSON_PARSE,
+        path.join(brokenDir, 'package.json'),
+        brokenDir,
+        [{ filePath: path.join(brokenDir, 'package.json'), line: 4, column: 3 }]
+      ),
+    ];
+
+    const pic = new PackageInfoCache();
+    pic.loadApp(appDir);
+    expect(pic.getEntry(brokenDir)?.errors.getErrors()).to.deep.equal(expected);
+
+    const asyncPic = new PackageInfoCache();
+    await asyncPic.loadAppAsync(appDir);
+    expect(asyncPic.getEntry(brokenDir)?.errors.getErrors()).to.deep.equal(
+      expected
+    );
+  });
+});
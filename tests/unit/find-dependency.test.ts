@@ -0,0 +1,152 @@
+'use strict';
+
+import fixturify from 'fixturify';
+import fs from 'fs-extra';
+import os from 'node:os';
+import path from 'node:path';
+import { afterAll, beforeAll, describe, expect, test } from 'vitest';
+
+import { PackageInfoCache } from '../../src/objects/package-info-cache';
+import {
+  RESOLUTION_REASONS,
+  ResolutionTrace,
+} from '../../src/objects/resolution-trace';
+
+describe('findDependency', function () {
+  let rootDir: string;
+  let appDir: string;
+  let pic: PackageInfoCache;
+
+  beforeAll(function () {
+    rootDir = fs.realpathSync(
+      fs.mkdtempSync(path.join(os.tmpdir(), 'pic-find-dependency-'))
+    );
+
+    fixturify.writeSync(rootDir, {
+      'package.json': JSON.stringify({ name: 'project', version: '1.0.0' }),
+      node_modules: {
+        lodash: {
+          'package.json': JSON.stringify({ name: 'lodash', version: '4.0.0' }),
+        },
+        '@scope': {
+          thing: {
+            'package.json': JSON.stringify({
+              name: '@scope/thing',
+              version: '1.0.0',
+              exports: {
+                '.': './index.js',
+                './feature': './feature.js',
+                './lib/*': './lib/*.js',
+                './internal/*': null,
+                './feature/*.js': './feature/*.js',
+                './feature/p/*': null,
+                './browser': { browser: './browser.js' },
+              },
+            }),
+          },
+        },
+      },
+      app: {
+        'package.json': JSON.stringify({
+          name: 'app',
+          version: '1.0.0',
+          ember: { edition: 'octane' },
+          devDependencies: { 'ember-cli': '*' },
+        }),
+        node_modules: {
+          lodash: {
+            'package.json': JSON.stringify({
+              name: 'lodash',
+              version: '3.0.0',
+            }),
+          },
+        },
+      },
+    });
+
+    appDir = path.join(rootDir, 'app');
+    fs.symlinkSync(appDir, path.join(rootDir, 'app-link'));
+
+    pic = new PackageInfoCache();
+    pic.loadApp(appDir);
+  });
+
+  afterAll(function () {
+    fs.removeSync(rootDir);
+  });
+
+  test('finds the nearest copy of a package', function () {
+    const pkg = pic.findDependency(appDir, 'lodash');
+    expect(pkg?.realPath).to.equal(path.join(appDir, 'node_modules', 'lodash'));
+    expect(pkg?.packageJson.version).to.equal('3.0.0');
+  });
+
+  test('finds a package further up the tree', function () {
+    const trace = new ResolutionTrace();
+    const pkg = pic.findDependency(appDir, '@scope/thing', trace);
+
+    expect(pkg?.realPath).to.equal(
+      path.join(rootDir, 'node_modules', '@scope', 'thing')
+    );
+
+    const entries = trace.getEntries();
+    expect(entries[0]?.path).to.equal(path.join(appDir, 'node_modules'));
+    expect(entries[0]?.reason).to.equal(RESOLUTION_REASONS.PACKAGE_MISSING);
+    expect(entries[1]?.path).to.equal(path.join(rootDir, 'node_modules'));
+    expect(entries[1]?.reason).to.equal(RESOLUTION_REASONS.FOUND);
+    expect(entries.length).to.equal(2);
+  });
+
+  test('resolves the start path through symlinks', function () {
+    const pkg = pic.findDependency(path.join(rootDir, 'app-link'), 'lodash');
+    expect(pkg?.packageJson.version).to.equal('3.0.0');
+  });
+
+  test('honors the exports field for subpath requests', function () {
+    expect(pic.findDependency(appDir, '@scope/thing/feature')).to.exist;
+    expect(pic.findDependency(appDir, '@scope/thing/lib/util')).to.exist;
+
+    const trace = new ResolutionTrace();
+    expect(pic.findDependency(appDir, '@scope/thing/internal/x', trace)).to.be
+      .undefined;
+    expect(trace.getEntries().pop()?.reason).to.equal(
+      RESOLUTION_REASONS.SUBPATH_NOT_EXPORTED
+    );
+
+    expect(pic.findDependency(appDir, '@scope/thing/other')).to.be.undefined;
+
+    // keys are matched as node does: the longest part before the '*' wins, and
+    // only the default conditions match.
+    expect(pic.findDependency(appDir, '@scope/thing/feature/a.js')).to.exist;
+    expect(pic.findDependency(appDir, '@scope/thing/feature/p/a.js')).to.be
+      .undefined;
+    expect(pic.findDependency(appDir, '@scope/thing/browser')).to.be.undefined;
+    expect(pic.findDependency(appDir, 'lodash/get')).to.exist;
+  });
+
+  test('records every directory probed for a missing package', function () {
+    const trace = new ResolutionTrace();
+    expect(pic.findDependency(appDir, 'no-such-package-here', trace)).to.be
+      .undefined;
+
+    const entries = trace.getEntries();
+    expect(entries.length).to.equal(appDir.split(path.sep).length);
+    expect(
+      entries.every(
+        (entry) =>
+          entry.reason === RESOLUTION_REASONS.PACKAGE_MISSING ||
+          entry.reason === RESOLUTION_REASONS.NODE_MODULES_MISSING
+      )
+    ).to.be.true;
+  });
+
+  test('does not resolve builtins or relative requests', function () {
+    const trace = new ResolutionTrace();
+    expect(pic.findDependency(appDir, 'node:fs', trace)).to.be.undefined;
+    expect(pic.findDependency(appDir, './lodash', trace)).to.be.undefined;
+    expect(trace.getEntries().map((entry) => entry.reason)).to.eql([
+      RESOLUTION_REASONS.BUILTIN_MODULE,
+      RESOLUTION_REASONS.INVALID_REQUEST,
+    ]);
+  });
+});
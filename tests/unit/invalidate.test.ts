@@ -0,0 +1,130 @@
+'use strict';
+
+import fs from 'fs-extra';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, test } from 'vitest';
+
+import { EmberAppPackageInfo } from '../../src/objects/ember-app-package-info';
+import { ErrorEntry } from '../../src/objects/error-entry';
+import { NodeModulesList } from '../../src/objects/node-modules-list';
+import { PackageInfo } from '../../src/objects/package-info';
+import { PackageInfoCache } from '../../src/objects/package-info-cache';
+
+const addonFixturePath = path.resolve(__dirname, '../fixtures');
+
+function missingDevDependencies(pkgInfo: PackageInfo): string[] {
+  const error = pkgInfo.errors
+    .getErrors()
+    .find((err) => err.type === 'devDependenciesMissing') as ErrorEntry;
+
+  return error ? (error.data as string[]) : [];
+}
+
+describe('PackageInfoCache.invalidate', function () {
+  let rootDir: string;
+  let projectPath: string;
+  let pic: PackageInfoCache;
+
+  beforeEach(function () {
+    rootDir = fs.realpathSync(
+      fs.mkdtempSync(path.join(os.tmpdir(), 'pic-invalidate-'))
+    );
+    projectPath = path.join(rootDir, 'simple');
+    fs.copySync(path.join(addonFixturePath, 'simple'), projectPath);
+
+    pic = new PackageInfoCache();
+    pic.loadProject(projectPath);
+  });
+
+  afterEach(function () {
+    fs.removeSync(rootDir);
+  });
+
+  test('picks up a package added to node_modules', function () {
+    const root = pic.rootPackage as PackageInfo;
+    const nodeModules = root.nodeModules as NodeModulesList;
+    expect(missingDevDependencies(root)).to.include('loader.js');
+
+    fs.outputJsonSync(
+      path.join(projectPath, 'node_modules', 'loader.js', 'package.json'),
+      { name: 'loader.js', version: '4.7.0' }
+    );
+
+    const newNodeModules = pic.invalidate(
+      path.join(projectPath, 'node_modules', 'loader.js')
+    );
+
+    expect(newNodeModules).to.be.instanceOf(NodeModulesList);
+    expect(newNodeModules).to.not.equal(nodeModules);
+    expect(pic.rootPackage).to.equal(root);
+    expect(root.nodeModules).to.equal(newNodeModules);
+    expect(root.devDependenciesPackages?.get('loader.js')?.realPath).to.equal(
+      path.join(projectPath, 'node_modules', 'loader.js')
+    );
+    expect(missingDevDependencies(root)).to.not.include('loader.js');
+    expect(
+      root.errors
+        .getErrors()
+        .filter((err) => err.type === 'devDependenciesMissing').length
+    ).to.equal(1);
+  });
+
+  test('re-reads a changed package.json and relinks its dependents', function () {
+    const addonPath = path.join(
+      projectPath,
+      'node_modules',
+      'ember-random-addon'
+    );
+    const root = pic.rootPackage as PackageInfo;
+    const oldAddon = pic.getEntry(addonPath) as PackageInfo;
+    expect(root.devDependenciesPackages?.get('ember-random-addon')).to.equal(
+      oldAddon
+    );
+
+    const packageJsonPath = path.join(addonPath, 'package.json');
+    fs.writeJsonSync(packageJsonPath, {
+      ...fs.readJsonSync(packageJsonPath),
+      version: '9.9.9',
+    });
+
+    const newAddon = pic.invalidate(packageJsonPath) as PackageInfo;
+
+    expect(newAddon).to.not.equal(oldAddon);
+    expect(newAddon.packageJson.version).to.equal('9.9.9');
+    expect(newAddon.processed).to.be.true;
+    expect(pic.getEntry(addonPath)).to.equal(newAddon);
+    expect(root.nodeModules?.findPackage('ember-random-addon')).to.equal(
+      newAddon
+    );
+    expect(root.devDependenciesPackages?.get('ember-random-addon')).to.equal(
+      newAddon
+    );
+  });
+
+  test('replaces the root package when its package.json changes', function () {
+    const oldRoot = pic.rootPackage as PackageInfo;
+    const packageJsonPath = path.join(projectPath, 'package.json');
+    const packageJson = fs.readJsonSync(packageJsonPath);
+    delete packageJson.devDependencies['loader.js'];
+    fs.writeJsonSync(packageJsonPath, packageJson);
+
+    const newRoot = pic.invalidate(packageJsonPath);
+
+    expect(newRoot).to.be.instanceOf(EmberAppPackageInfo);
+    expect(newRoot).to.not.equal(oldRoot);
+    expect(pic.rootPackage).to.equal(newRoot);
+    expect((newRoot as PackageInfo).isRoot).to.be.true;
+    expect(missingDevDependencies(newRoot as PackageInfo)).to.not.include(
+      'loader.js'
+    );
+    expect(
+      (newRoot as EmberAppPackageInfo).inRepoAddons?.map((addon) => addon.name)
+    ).to.eql(['ember-super-button', 'ember-with-addon-main']);
+  });
+
+  test('ignores paths that are not part of the cache', function () {
+    expect(pic.invalidate(path.join(projectPath, 'app', 'foo.js'))).to.be
+      .undefined;
+  });
+});
@@ -0,0 +1,285 @@
+'use strict';
+
+import fixturify from 'fixturify';
+import fs from 'fs-extra';
+import os from 'node:os';
+import path from 'node:path';
+import { afterAll, beforeAll, describe, expect, test } from 'vitest';
+
+import { ErrorEntry } from '../../src/objects/error-entry';
+import { ERRORS } from '../../src/objects/errors';
+import { LockfileVerification } from '../../src/objects/lockfile-verification';
+import { PackageInfoCache } from '../../src/objects/package-info-cache';
+import { pkg } from '../helpers/fixtures';
+
+// the same installed packages for each lockfile: 'b' is not at its locked version,
+// 'c' is not locked at all, and 'e' is locked but not installed (as is the dev
+// package 'prettier' in package-lock.json).
+function project(lockfile: fixturify.DirJSON): fixturify.DirJSON {
+  return {
+    'package.json': JSON.stringify({
+      name: 'app',
+      version: '1.0.0',
+      ember: { edition: 'octane' },
+      dependencies: { a: '^1.0.0', b: '^2.0.0', c: '*' },
+      devDependencies: { 'ember-cli': '*' },
+    }),
+    ...lockfile,
+    node_modules: {
+      a: pkg('a', {}, { node_modules: { d: pkg('d') } }),
+      b: pkg('b', { version: '2.0.0' }),
+      c: pkg('c'),
+      'ember-cli': pkg('ember-cli', { version: '4.8.0' }),
+    },
+  };
+}
+
+const PACKAGE_LOCK = JSON.stringify({
+  name: 'app',
+  version: '1.0.0',
+  lockfileVersion: 3,
+  packages: {
+    '': { name: 'app', version: '1.0.0' },
+    'node_modules/a': { version: '1.0.0' },
+    'node_modules/a/node_modules/d': { version: '1.0.0' },
+    'node_modules/b': { version: '2.1.0' },
+    'node_modules/e': { version: '1.0.0' },
+    'node_modules/ember-cli': { version: '4.8.0', dev: true },
+    'node_modules/fsevents': { version: '2.3.2', optional: true },
+    'node_modules/prettier': { version: '2.8.1', dev: true },
+    'node_modules/member': { resolved: 'packages/member', link: true },
+    'packages/member': { name: 'member', version: '0.0.1' },
+  },
+});
+
+const YARN_LOCK_V1 = `# THIS IS AN AUTOGENERATED FILE. DO NOT EDIT THIS FILE DIRECTLY.
+# yarn lockfile v1
+
+
+a@^1.0.0:
+  version "1.0.0"
+  resolved "https://registry.yarnpkg.com/a/-/a-1.0.0.tgz#abc"
+  dependencies:
+    d "^1.0.0"
+  optionalDependencies:
+    fsevents "~2.3.2"
+
+b@^2.0.0:
+  version "2.1.0"
+
+d@^1.0.0:
+  version "1.0.0"
+
+e@^1.0.0:
+  version "1.0.0"
+
+"ember-cli@*":
+  version "4.8.0"
+
+fsevents@~2.3.2:
+  version "2.3.2"
+`;
+
+const YARN_LOCK_BERRY = `# This file is generated by running "yarn install" inside your project.
+
+__metadata:
+  version: 6
+  cacheKey: 8
+
+"a@npm:^1.0.0":
+  version: 1.0.0
+  resolution: "a@npm:1.0.0"
+  dependencies:
+    d: ^1.0.0
+  languageName: node
+  linkType: hard
+
+"app@workspace:.":
+  version: 0.0.0-use.local
+  resolution: "app@workspace:."
+  languageName: unknown
+  linkType: soft
+
+"b@npm:^2.0.0":
+  version: 2.1.0
+  resolution: "b@npm:2.1.0"
+  languageName: node
+  linkType: hard
+
+"d@npm:^1.0.0":
+  version: 1.0.0
+  resolution: "d@npm:1.0.0"
+  languageName: node
+  linkType: hard
+
+"e@npm:^1.0.0":
+  version: 1.0.0
+  resolution: "e@npm:1.0.0"
+  languageName: node
+  linkType: hard
+
+"ember-cli@npm:*":
+  version: 4.8.0
+  resolution: "ember-cli@npm:4.8.0"
+  languageName: node
+  linkType: hard
+
+"fsevents@npm:~2.3.2":
+  version: 2.3.2
+  resolution: "fsevents@npm:2.3.2"
+  conditions: os=darwin
+  languageName: node
+  linkType: hard
+`;
+
+describe('verifyLockfile', function () {
+  let rootDir: string;
+
+  function verify(projectName: string): {
+    pic: PackageInfoCache;
+    verification: LockfileVerification;
+  } {
+    const pic = new PackageInfoCache();
+    pic.loadApp(path.join(rootDir, projectName));
+
+    return {
+      pic,
+      verification: pic.verifyLockfile() as LockfileVerification,
+    };
+  }
+
+  function installedPath(projectName: string, ...names: string[]): string {
+    return path.join(
+      rootDir,
+      projectName,
+      ...names.flatMap((name) => ['node_modules', name])
+    );
+  }
+
+  beforeAll(function () {
+    rootDir = fs.realpathSync(
+      fs.mkdtempSync(path.join(os.tmpdir(), 'pic-lockfile-'))
+    );
+
+    fixturify.writeSync(rootDir, {
+      npm: project({ 'package-lock.json': PACKAGE_LOCK }),
+      'yarn-v1': project({ 'yarn.lock': YARN_LOCK_V1 }),
+      'yarn-berry': project({ 'yarn.lock': YARN_LOCK_BERRY }),
+      invalid: project({ 'package-lock.json': '{ "packages": ' }),
+      none: project({}),
+    });
+  });
+
+  afterAll(function () {
+    fs.removeSync(rootDir);
+  });
+
+  test('compares each install location with package-lock.json', function () {
+    const { verification } = verify('npm');
+
+    expect(verification.lockfile.format).to.equal('npm');
+    expect(verification.missing).to.eql([
+      { name: 'e', version: '1.0.0', path: 'node_modules/e' },
+    ]);
+    expect(verification.mismatched).to.eql([
+      {
+        name: 'b',
+        path: installedPath('npm', 'b'),
+        version: '2.0.0',
+        lockedVersions: ['2.1.0'],
+      },
+    ]);
+    expect(verification.extraneous).to.eql([
+      { name: 'c', path: installedPath('npm', 'c'), version: '1.0.0' },
+    ]);
+  });
+
+  test('skips the missing dev packages of package-lock.json', function () {
+    const { verification } = verify('npm');
+
+    // e.g. after 'npm ci --omit=dev'.
+    expect(
+      verification.lockfile.packages?.find(({ name }) => name === 'prettier')
+    ).to.eql({
+      name: 'prettier',
+      version: '2.8.1',
+      path: 'node_modules/prettier',
+      optional: true,
+    });
+    expect(verification.missing.map(({ name }) => name)).to.eql(['e']);
+  });
+
+  test('compares the installed versions with a v1 yarn.lock', function () {
+    const { verification } = verify('yarn-v1');
+
+    expect(verification.lockfile.format).to.equal('yarn-v1');
+    expect(verification.missing).to.eql([
+      { name: 'e', version: '1.0.0', path: undefined },
+    ]);
+    expect(verification.mismatched).to.eql([
+      {
+        name: 'b',
+        path: installedPath('yarn-v1', 'b'),
+        version: '2.0.0',
+        lockedVersions: ['2.1.0'],
+      },
+    ]);
+    expect(verification.extraneous).to.eql([
+      { name: 'c', path: installedPath('yarn-v1', 'c'), version: '1.0.0' },
+    ]);
+  });
+
+  test('compares the installed versions with a yarn 2+ yarn.lock', function () {
+    const { verification } = verify('yarn-berry');
+
+    expect(verification.lockfile.format).to.equal('yarn-berry');
+    expect(verification.lockfile.packages?.map(({ name }) => name)).to.eql([
+      'a',
+      'b',
+      'd',
+      'e',
+      'ember-cli',
+      'fsevents',
+    ]);
+    expect(verification.missing.map(({ name }) => name)).to.eql(['e']);
+    expect(verification.mismatched.map(({ name }) => name)).to.eql(['b']);
+    expect(verification.extraneous.map(({ name }) => name)).to.eql(['c']);
+  });
+
+  test('records the differences as errors on the root package', function () {
+    const { pic } = verify('npm');
+
+    expect(pic.findErrors()).to.eql([pic.rootPackage]);
+    expect(
+      pic.rootPackage?.errors.getErrors().map((errorEntry) => errorEntry.type)
+    ).to.eql([
+      ERRORS.ERROR_LOCKFILE_PACKAGES_MISSING,
+      ERRORS.ERROR_LOCKFILE_VERSIONS_MISMATCH,
+      ERRORS.ERROR_LOCKFILE_PACKAGES_EXTRANEOUS,
+    ]);
+
+    // verifying again replaces the errors.
+    pic.verifyLockfile();
+    expect(pic.rootPackage?.errors.getErrors().length).to.equal(3);
+  });
+
+  test('records an error for a lockfile that cannot be parsed', function () {
+    const { pic, verification } = verify('invalid');
+
+    expect(verification).to.be.undefined;
+    expect(pic.rootPackage?.errors.getErrors()).to.eql([
+      new ErrorEntry(
+        ERRORS.ERROR_LOCKFILE_PARSE,
+        path.join(rootDir, 'invalid', 'package-lock.json'),
+        path.join(rootDir, 'invalid')
+      ),
+    ]);
+  });
+
+  test('does nothing without a lockfile', function () {
+    const { pic, verification } = verify('none');
+
+    expect(verification).to.be.undefined;
+    expect(pic.hasErrors()).to.be.false;
+  });
+});
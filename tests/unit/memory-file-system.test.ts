@@ -0,0 +1,189 @@
+'use strict';
+
+import fixturify from 'fixturify';
+import fs from 'fs-extra';
+import path from 'node:path';
+import { describe, expect, test } from 'vitest';
+
+import { EmberAddonPackageInfo } from '../../src/objects/ember-addon-package-info';
+import { ERRORS } from '../../src/objects/errors';
+import { MemoryFileSystem } from '../../src/objects/memory-file-system';
+import { PackageInfo } from '../../src/objects/package-info';
+import { PackageInfoCache } from '../../src/objects/package-info-cache';
+import { pkg } from '../helpers/fixtures';
+
+// nothing is written here - the whole tree is in memory.
+const ROOT_DIR = path.resolve('/pic-memory-file-system/project');
+
+function app(): fixturify.DirJSON {
+  return {
+    ...pkg('app', {
+      ember: { edition: 'octane' },
+      dependencies: { 'my-addon': '^1.0.0', lodash: '^4.0.0', missing: '*' },
+      devDependencies: { 'ember-cli': '*' },
+    }),
+    node_modules: {
+      'ember-cli': pkg('ember-cli'),
+      lodash: { 'package.json': '{"name":"lodash","version":"4.17.21"}' },
+      'my-addon': {
+        ...pkg('my-addon', {
+          keywords: ['ember-addon'],
+          ember: { edition: 'octane' },
+        }),
+        'index.js': 'module.exports = {};',
+      },
+      '.bin': { lodash: 'not a package' },
+    },
+  };
+}
+
+describe('MemoryFileSystem', function () {
+  test('loads an app without touching the disk', function () {
+    const fileSystem = new MemoryFileSystem(ROOT_DIR, app());
+    const pic = new PackageInfoCache({ fileSystem });
+    const appInfo = pic.loadApp(ROOT_DIR);
+
+    expect(fs.existsSync(ROOT_DIR)).to.equal(false);
+    expect([...(appInfo.dependenciesPackages?.keys() ?? [])]).to.eql([
+      'my-addon',
+      'lodash',
+    ]);
+    expect(appInfo.dependenciesPackages?.get('my-addon')).to.be.instanceOf(
+      EmberAddonPackageInfo
+    );
+    expect(
+      appInfo.dependenciesPackages?.get('lodash')?.packageJson.version
+    ).to.equal('4.17.21');
+
+    const [missing] = appInfo.errors.getErrors();
+
+    expect(missing?.type).to.equal(ERRORS.ERROR_DEPENDENCIES_MISSING);
+    expect(missing?.locations[0]?.filePath).to.equal(
+      path.join(ROOT_DIR, 'package.json')
+    );
+  });
+
+  test('loads a snapshot from memory', function () {
+    const pic = new PackageInfoCache({
+      fileSystem: new MemoryFileSystem(ROOT_DIR, app()),
+    });
+    pic.loadApp(ROOT_DIR);
+
+    const fileSystem = new MemoryFileSystem(ROOT_DIR, {
+      ...app(),
+      '.pic-snapshot.json': JSON.stringify(pic.toSnapshot()),
+    });
+    const restoredPic = new PackageInfoCache({ fileSystem });
+    const root = restoredPic.loadFromSnapshot(
+      path.join(ROOT_DIR, '.pic-snapshot.json')
+    );
+
+    expect(fs.existsSync(ROOT_DIR)).to.equal(false);
+    expect(root?.realPath).to.equal(ROOT_DIR);
+    expect([...restoredPic.entries.keys()]).to.eql([...pic.entries.keys()]);
+  });
+
+  test('loads the same entries asynchronously', async function () {
+    const fileSystem = new MemoryFileSystem(ROOT_DIR, app());
+    const pic = new PackageInfoCache({ fileSystem });
+    const asyncPic = new PackageInfoCache({ fileSystem });
+
+    pic.loadApp(ROOT_DIR);
+    await asyncPic.loadAppAsync(ROOT_DIR);
+
+    expect([...asyncPic.entries.keys()].sort()).to.eql(
+      [...pic.entries.keys()].sort()
+    );
+  });
+
+  test('expands workspace globs', async function () {
+    const fileSystem = new MemoryFileSystem(ROOT_DIR, {
+      'package.json': JSON.stringify({
+        name: 'monorepo',
+        private: true,
+        workspaces: ['packages/*', '!packages/ignored'],
+      }),
+      packages: {
+        app: pkg('app'),
+        util: pkg('util'),
+        ignored: pkg('ignored'),
+        'not-a-package': { 'README.md': '' },
+      },
+    });
+
+    const memberNames = (pic: PackageInfoCache): string[] =>
+      [...pic.workspacePackages.values()]
+        .map((packageInfo: PackageInfo) => packageInfo.name ?? '')
+        .sort();
+
+    const pic = new PackageInfoCache({ fileSystem });
+    pic.loadWorkspace(ROOT_DIR);
+    expect(memberNames(pic)).to.eql(['app', 'util']);
+
+    const asyncPic = new PackageInfoCache({ fileSystem });
+    await asyncPic.loadWorkspaceAsync(ROOT_DIR);
+    expect(memberNames(asyncPic)).to.eql(['app', 'util']);
+  });
+
+  test('verifies the lockfile', function () {
+    const fileSystem = new MemoryFileSystem(ROOT_DIR, {
+      ...app(),
+      'package-lock.json': JSON.stringify({
+        lockfileVersion: 3,
+        packages: {
+          '': { name: 'app' },
+          'node_modules/ember-cli': { version: '1.0.0' },
+          'node_modules/lodash': { version: '4.17.20' },
+          'node_modules/my-addon': { version: '1.0.0' },
+        },
+      }),
+    });
+
+    const pic = new PackageInfoCache({ fileSystem });
+    pic.loadApp(ROOT_DIR);
+
+    expect(pic.verifyLockfile()?.mismatched).to.eql([
+      {
+        name: 'lodash',
+        path: path.join(ROOT_DIR, 'node_modules/lodash'),
+        version: '4.17.21',
+        lockedVersions: ['4.17.20'],
+      },
+    ]);
+  });
+
+  test('has the directories that contain its root directory', function () {
+    const fileSystem = new MemoryFileSystem(ROOT_DIR, app());
+    const parentDir = path.dirname(ROOT_DIR);
+
+    expect(fileSystem.readdir(parentDir)).to.eql(['project']);
+    expect(fileSystem.stat(parentDir)?.isDirectory).to.equal(true);
+    expect(fileSystem.readdir(path.dirname(parentDir))).to.eql([
+      path.basename(parentDir),
+    ]);
+    expect(fileSystem.stat(path.join(parentDir, 'other'))).to.equal(undefined);
+    expect(fileSystem.readFile(path.join(ROOT_DIR, 'node_modules'))).to.equal(
+      undefined
+    );
+    expect(fileSystem.readdir(path.join(ROOT_DIR, 'package.json'))).to.equal(
+      undefined
+    );
+  });
+
+  test('has entries whose names start with two dots', function () {
+    const fileSystem = new MemoryFileSystem(ROOT_DIR, {
+      ...app(),
+      '..cache': { 'data.json': '{}' },
+    });
+
+    expect(fileSystem.readdir(path.join(ROOT_DIR, '..cache'))).to.eql([
+      'data.json',
+    ]);
+    expect(
+      fileSystem.readFile(path.join(ROOT_DIR, '..cache/data.json'))
+    ).to.equal('{}');
+    expect(fileSystem.stat(path.join(ROOT_DIR, '..'))?.isDirectory).to.equal(
+      true
+    );
+  });
+});
@@ -0,0 +1,90 @@
+'use strict';
+
+import fixturify from 'fixturify';
+import fs from 'fs-extra';
+import os from 'node:os';
+import path from 'node:path';
+import { afterAll, beforeAll, describe, expect, test } from 'vitest';
+
+import { PackageInfo } from '../../src/objects/package-info';
+import { PackageInfoCache } from '../../src/objects/package-info-cache';
+
+describe('optionalDependencies', function () {
+  let rootDir: string;
+  let appDir: string;
+  let pic: PackageInfoCache;
+
+  beforeAll(function () {
+    rootDir = fs.realpathSync(
+      fs.mkdtempSync(path.join(os.tmpdir(), 'pic-optional-dependencies-'))
+    );
+
+    fixturify.writeSync(rootDir, {
+      app: {
+        'package.json': JSON.stringify({
+          name: 'app',
+          version: '1.0.0',
+          ember: { edition: 'octane' },
+          dependencies: { chokidar: '^3.0.0', fsevents: '^2.0.0' },
+          optionalDependencies: { fsevents: '^2.0.0', 'is-present': '^1.0.0' },
+          devDependencies: { 'ember-cli': '*' },
+        }),
+        node_modules: {
+          'ember-cli': {
+            'package.json': JSON.stringify({
+              name: 'ember-cli',
+              version: '4.8.0',
+            }),
+          },
+          'is-present': {
+            'package.json': JSON.stringify({
+              name: 'is-present',
+              version: '1.0.0',
+            }),
+          },
+          chokidar: {
+            'package.json': JSON.stringify({
+              name: 'chokidar',
+              version: '3.5.3',
+              optionalDependencies: { fsevents: '~2.3.2' },
+            }),
+          },
+        },
+      },
+    });
+
+    appDir = path.join(rootDir, 'app');
+
+    pic = new PackageInfoCache();
+    pic.loadApp(appDir);
+  });
+
+  afterAll(function () {
+    fs.removeSync(rootDir);
+  });
+
+  test('resolves the installed optional dependencies', function () {
+    const app = pic.rootPackage as PackageInfo;
+
+    expect([...(app.optionalDependenciesPackages?.keys() ?? [])]).to.eql([
+      'is-present',
+    ]);
+    expect(app.optionalDependenciesPackages?.get('is-present')).to.equal(
+      pic.getEntry(path.join(appDir, 'node_modules', 'is-present'))
+    );
+  });
+
+  test('records the skipped optional dependencies without errors', function () {
+    const app = pic.rootPackage as PackageInfo;
+    const chokidar = pic.getEntry(
+      path.join(appDir, 'node_modules', 'chokidar')
+    ) as PackageInfo;
+
+    expect(app.optionalDependenciesSkipped).to.eql(['fsevents']);
+    expect(chokidar.optionalDependenciesSkipped).to.eql(['fsevents']);
+
+    // 'fsevents' is also a regular dependency of the app, but it's optional.
+    expect(app.hasErrors()).to.be.false;
+    expect(chokidar.hasErrors()).to.be.false;
+  });
+});
@@ -0,0 +1,213 @@
+'use strict';
+
+import path from 'node:path';
+import { describe, expect, test } from 'vitest';
+
+import { getErrorMessageLines } from '../../src/objects/error-reporter';
+import { ERRORS } from '../../src/objects/errors';
+import { MemoryFileSystem } from '../../src/objects/memory-file-system';
+import {
+  resolvePackageExports,
+  resolvePackageImports,
+} from '../../src/objects/package-exports';
+import { PackageInfo } from '../../src/objects/package-info';
+import { PackageInfoCache } from '../../src/objects/package-info-cache';
+
+const ROOT_DIR = path.resolve('/pic-package-exports/project');
+
+const EXPORTS = {
+  '.': {
+    types: './index.d.ts',
+    node: { import: './dist/node.mjs', require: './dist/node.cjs' },
+    default: './dist/browser.js',
+  },
+  './feature/*': './dist/feature/*.js',
+  './feature/*.css': './styles/*.css',
+  './feature/internal/*': null,
+  './fallback': ['../outside.js', './dist/fallback.js'],
+  './broken': '../outside.js',
+  './package.json': './package.json',
+};
+
+describe('package exports', function () {
+  test('resolves subpaths with Node conditions', function () {
+    const resolve = (subpath: string, conditions?: string[]) =>
+      resolvePackageExports(EXPORTS, subpath, conditions);
+
+    expect(resolve('.')).to.eql({ key: '.', target: './dist/node.mjs' });
+    expect(resolve('.', ['node', 'require'])?.target).to.equal(
+      './dist/node.cjs'
+    );
+    expect(resolve('.', ['browser'])?.target).to.equal('./dist/browser.js');
+    expect(resolve('.', ['types'])?.target).to.equal('./index.d.ts');
+
+    // the most specific pattern wins.
+    expect(resolve('./feature/a/b')).to.eql({
+      key: './feature/*',
+      target: './dist/feature/a/b.js',
+    });
+    expect(resolve('./feature/a.css')).to.eql({
+      key: './feature/*.css',
+      target: './styles/a.css',
+    });
+    expect(resolve('./feature/internal/a')).to.eql({
+      key: './feature/internal/*',
+      target: null,
+    });
+    expect(resolve('./feature/../secret')?.target).to.equal(null);
+
+    // the first valid fallback is used.
+    expect(resolve('./fallback')?.target).to.equal('./dist/fallback.js');
+    expect(resolve('./broken')).to.eql({
+      key: './broken',
+      target: null,
+      invalidTarget: '../outside.js',
+    });
+    expect(resolve('./missing')).to.equal(undefined);
+
+    // sugar for '.', and a mix of subpaths and conditions, which is invalid.
+    expect(resolvePackageExports('./index.js', '.')?.target).to.equal(
+      './index.js'
+    );
+    expect(resolvePackageExports('./index.js', './a')).to.equal(undefined);
+    expect(
+      resolvePackageExports({ '.': './a.js', import: './b.js' }, '.')
+    ).to.equal(undefined);
+  });
+
+  test('resolves imports', function () {
+    const imports = {
+      '#internal/*': { node: './src/internal/*.js', default: null },
+      '#dep': 'dep/sub',
+      '#bad': '/absolute.js',
+    };
+
+    expect(resolvePackageImports(imports, '#internal/a')).to.eql({
+      key: '#internal/*',
+      target: './src/internal/a.js',
+    });
+    expect(
+      resolvePackageImports(imports, '#internal/a', ['browser'])?.target
+    ).to.equal(null);
+    expect(resolvePackageImports(imports, '#dep')?.target).to.equal('dep/sub');
+    expect(resolvePackageImports(imports, '#bad')?.invalidTarget).to.equal(
+      '/absolute.js'
+    );
+    expect(resolvePackageImports(imports, '#/a')).to.equal(undefined);
+    expect(resolvePackageImports(imports, 'internal/a')).to.equal(undefined);
+  });
+
+  test('resolves the files of a package', function () {
+    const fileSystem = new MemoryFileSystem(ROOT_DIR, {
+      'package.json': JSON.stringify({
+        name: 'app',
+        ember: { edition: 'octane' },
+        dependencies: { lib: '*', legacy: '*', dep: '*' },
+        devDependencies: { 'ember-cli': '*' },
+      }),
+      node_modules: {
+        'ember-cli': { 'package.json': '{"name":"ember-cli"}' },
+        lib: {
+          'package.json': JSON.stringify({
+            name: 'lib',
+            exports: EXPORTS,
+            imports: { '#dep': 'dep/sub', '#util': './src/util.js' },
+          }),
+          dist: {
+            'node.mjs': '',
+            feature: { 'a.js': '' },
+            'fallback.js': '',
+          },
+          src: { 'util.js': '' },
+        },
+        legacy: {
+          'package.json': JSON.stringify({ name: 'legacy', main: 'lib/main' }),
+          lib: { 'main.js': '', utils: { 'index.js': '' } },
+        },
+        dep: {
+          'package.json': JSON.stringify({
+            name: 'dep',
+            exports: { './sub': './sub.js' },
+          }),
+          'sub.js': '',
+        },
+      },
+    });
+    const pic = new PackageInfoCache({ fileSystem });
+    const app = pic.loadApp(ROOT_DIR);
+    const lib = app.dependenciesPackages?.get('lib') as PackageInfo;
+    const legacy = app.dependenciesPackages?.get('legacy') as PackageInfo;
+    const inLib = (filePath: string) =>
+      path.join(ROOT_DIR, 'node_modules/lib', filePath);
+
+    expect(lib.resolveExport()).to.equal(inLib('dist/node.mjs'));
+    expect(lib.resolveExport('.', ['node', 'require'])).to.equal(undefined);
+    expect(lib.resolveExport('./feature/a')).to.equal(
+      inLib('dist/feature/a.js')
+    );
+    expect(lib.resolveExport('./feature/b')).to.equal(undefined);
+    expect(lib.resolveExport('./fallback')).to.equal(inLib('dist/fallback.js'));
+    expect(lib.resolveExport('./package.json')).to.equal(inLib('package.json'));
+    expect(lib.resolveImport('#util')).to.equal(inLib('src/util.js'));
+    expect(lib.resolveImport('#dep')).to.equal(
+      path.join(ROOT_DIR, 'node_modules/dep/sub.js')
+    );
+    expect(lib.resolveImport('#missing')).to.equal(undefined);
+
+    expect(legacy.resolveExport()).to.equal(
+      path.join(ROOT_DIR, 'node_modules/legacy/lib/main.js')
+    );
+    expect(legacy.resolveExport('./lib/utils')).to.equal(
+      path.join(ROOT_DIR, 'node_modules/legacy/lib/utils/index.js')
+    );
+  });
+
+  test('checks the targets of a package', function () {
+    const packageJson = {
+      name: 'lib',
+      exports: EXPORTS,
+      imports: { '#dep': 'dep', '#missing': './src/missing.js' },
+    };
+    const fileSystem = new MemoryFileSystem(ROOT_DIR, {
+      'package.json': JSON.stringify(packageJson, null, 2),
+      'index.d.ts': '',
+      dist: { 'node.mjs': '', 'node.cjs': '', 'fallback.js': '' },
+    });
+    const pic = new PackageInfoCache({ fileSystem, packageJsonRules: [] });
+    const lib = pic.loadProject(ROOT_DIR);
+
+    lib.checkExports();
+    lib.checkExports();
+
+    const errors = lib.errors.getErrors();
+
+    expect(errors.map((error) => [error.type, error.data])).to.eql([
+      [
+        ERRORS.ERROR_EXPORTS_TARGET_INVALID,
+        [
+          { field: 'exports', key: './fallback', target: '../outside.js' },
+          { field: 'exports', key: './broken', target: '../outside.js' },
+        ],
+      ],
+      [
+        ERRORS.ERROR_EXPORTS_TARGET_MISSING,
+        [
+          { field: 'exports', key: '.', target: './dist/browser.js' },
+          { field: 'imports', key: '#missing', target: './src/missing.js' },
+        ],
+      ],
+    ]);
+    expect(
+      errors[1]?.locations.map(({ line, column }) => [line, column])
+    ).to.eql([
+      [4, 5],
+      [24, 5],
+    ]);
+    expect(errors[1] && getErrorMessageLines(errors[1])).to.eql([
+      "has some 'exports' or 'imports' targets that do not exist:",
+      "'./dist/browser.js' for '.' in exports",
+      "'./src/missing.js' for '#missing' in imports",
+    ]);
+    expect(lib.valid).to.equal(true);
+  });
+});
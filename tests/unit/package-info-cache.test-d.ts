@@ -5,11 +5,24 @@ import { EmberAddonPackageInfo } from '../../src/objects/ember-addon-package-inf
 import { EmberAppPackageInfo } from '../../src/objects/ember-app-package-info';
 import { EmberEnginePackageInfo } from '../../src/objects/ember-engine-package-info';
 import { EmberPackageInfo } from '../../src/objects/ember-package-info';
+import { AnyErrorEntry } from '../../src/objects/error-entry';
+import { ERRORS } from '../../src/objects/errors';
+import { DependencyRangeMismatch } from '../../src/objects/dependency-edge';
 import { PackageInfo } from '../../src/objects/package-info';
-import { EmberAddonPackageJson } from '../../src/types/ember-addon-package-json';
+import {
+  PackageInfoFactory,
+  PackageType,
+} from '../../src/objects/package-info-factory';
+import {
+  EmberAddonPackageJson,
+  isEmberAddonPackageJson,
+} from '../../src/types/ember-addon-package-json';
 import { EmberAppPackageJson } from '../../src/types/ember-app-package-json';
 import { EmberEnginePackageJson } from '../../src/types/ember-engine-package-json';
-import { EmberPackageJson } from '../../src/types/ember-package-json';
+import {
+  EmberPackageJson,
+  isEmberPackageJson,
+} from '../../src/types/ember-package-json';
 
 describe('package-info-cache-type-test.js', function () {
   // I have to declare the following as 'let', because otherwise TS complains that
@@ -32,4 +45,28 @@ describe('package-info-cache-type-test.js', function () {
     expectTypeOf(emberAppPackageJson).toMatchTypeOf(emberPackageJson);
     expectTypeOf(emberPackageJson).toMatchTypeOf(packageJson);
   });
+
+  test('error data is narrowed by the error type', () => {
+    let errorEntry: AnyErrorEntry;
+
+    if (errorEntry.type === ERRORS.ERROR_DEPENDENCIES_MISSING) {
+      expectTypeOf(errorEntry.data).toEqualTypeOf<string[]>();
+    } else if (errorEntry.type === ERRORS.ERROR_DEPENDENCIES_OUT_OF_RANGE) {
+      expectTypeOf(errorEntry.data).toEqualTypeOf<DependencyRangeMismatch[]>();
+    }
+  });
+
+  test('a package type tests for the package.json its class takes', () => {
+    const packageInfoFactory = new PackageInfoFactory();
+    const addonType: PackageType<EmberAddonPackageJson> = {
+      name: 'ember-addon',
+      priority: 300,
+      test: isEmberAddonPackageJson,
+      PackageInfoClass: EmberAddonPackageInfo,
+    };
+
+    packageInfoFactory.register(addonType);
+    // @ts-expect-error not every Ember package.json is an EmberAddonPackageJson.
+    packageInfoFactory.register({ ...addonType, test: isEmberPackageJson });
+  });
 });
@@ -0,0 +1,174 @@
+'use strict';
+
+import fixturify from 'fixturify';
+import path from 'node:path';
+import { describe, expect, test } from 'vitest';
+
+import { ConsoleErrorReporter } from '../../src/objects/console-error-reporter';
+import { EmberAddonPackageInfo } from '../../src/objects/ember-addon-package-info';
+import { ERRORS } from '../../src/objects/errors';
+import { MemoryFileSystem } from '../../src/objects/memory-file-system';
+import { PackageInfo } from '../../src/objects/package-info';
+import { PackageInfoCache } from '../../src/objects/package-info-cache';
+import {
+  DEFAULT_PACKAGE_JSON_RULES,
+  PackageJsonRule,
+} from '../../src/objects/package-json-rules';
+import { addon, pkg } from '../helpers/fixtures';
+
+const ROOT_DIR = path.resolve('/pic-package-json-rules/project');
+
+function project(node_modules: fixturify.DirJSON): MemoryFileSystem {
+  return new MemoryFileSystem(ROOT_DIR, {
+    'package.json': JSON.stringify({
+      name: 'app',
+      private: true,
+      ember: { edition: 'octane' },
+      dependencies: Object.fromEntries(
+        Object.keys(node_modules).map((name) => [name, '*'])
+      ),
+      devDependencies: { 'ember-cli': '*' },
+    }),
+    node_modules: {
+      ...node_modules,
+      'ember-cli': pkg('ember-cli'),
+    },
+  });
+}
+
+function findings(packageInfo: PackageInfo | undefined): string[] {
+  return (packageInfo?.errors.getWarnings() ?? []).map((warning) =>
+    warning.type === ERRORS.ERROR_PACKAGE_JSON_RULE
+      ? `${warning.data.rule}: ${warning.data.message}`
+      : warning.type
+  );
+}
+
+describe('package.json rules', function () {
+  test('record the problems found as warnings', function () {
+    const pic = new PackageInfoCache({
+      fileSystem: project({
+        misspelled: pkg('misspelled', {
+          keywords: ['ember-addon'],
+          ember: { edition: 'octan' },
+        }),
+        'bad-addon': addon('bad-addon', {
+          version: undefined,
+          'ember-addon': { paths: 'lib/a', before: ['a', 1] },
+          licenses: [{ type: 'MIT' }],
+        }),
+        'lone-engine': pkg('lone-engine', {
+          keywords: ['ember-engine'],
+          'ember-addon': { main: 'index.js' },
+        }),
+        fine: pkg('fine'),
+      }),
+    });
+    const app = pic.loadApp(ROOT_DIR);
+    const dependency = (name: string) => app.dependenciesPackages?.get(name);
+
+    expect(findings(app)).to.eql([]);
+    expect(findings(dependency('fine'))).to.eql([]);
+
+    // not an addon, but it is still valid.
+    expect(dependency('misspelled')).not.to.be.instanceOf(
+      EmberAddonPackageInfo
+    );
+    expect(dependency('misspelled')?.valid).to.equal(true);
+    expect(dependency('misspelled')?.hasErrors()).to.equal(false);
+    expect(findings(dependency('misspelled'))).to.eql([
+      `ember-edition: has an 'ember.edition' of "octan", not 'classic' or 'octane'`,
+      `ember-addon-keywords: has the 'ember-addon' keyword but no valid 'ember.edition', so it is not loaded as an addon`,
+    ]);
+
+    expect(findings(dependency('bad-addon'))).to.eql([
+      `required-fields: has no 'version' field`,
+      `ember-addon-shape: has an 'ember-addon.paths' field that is not an array of strings`,
+      `ember-addon-shape: has an 'ember-addon.before' field that is not a string or array of strings`,
+      `deprecated-fields: has a deprecated 'licenses' field (use 'license' instead)`,
+    ]);
+    expect(findings(dependency('lone-engine'))).to.eql([
+      `ember-addon-keywords: has the 'ember-engine' keyword but not the 'ember-addon' keyword, so it is not loaded as an engine`,
+      `ember-addon-keywords: has addon fields in 'ember-addon' ('main') but not the 'ember-addon' keyword`,
+    ]);
+
+    const [editionWarning] =
+      dependency('misspelled')?.errors.getWarnings() ?? [];
+
+    expect(editionWarning?.locations).to.eql([
+      {
+        filePath: path.join(ROOT_DIR, 'node_modules/misspelled/package.json'),
+        line: 8,
+        column: 5,
+      },
+    ]);
+
+    // warnings are not errors, and are only reported if asked for.
+    expect(pic.hasErrors()).to.equal(false);
+    expect(pic.findErrors()).to.eql([]);
+    expect(
+      pic
+        .getErrorReport({ severity: 'warning' })
+        .entries.map(({ entry }) => entry.realPath)
+    ).to.eql(
+      ['misspelled', 'bad-addon', 'lone-engine'].map((name) =>
+        path.join(ROOT_DIR, 'node_modules', name)
+      )
+    );
+    expect(pic.getErrorReport().entries).to.eql([]);
+    expect(
+      pic
+        .reportErrors(new ConsoleErrorReporter(), { severity: 'warning' })
+        .split('\n')
+        .slice(1, 3)
+    ).to.eql([
+      `Errors for the 'package.json' file for the addon at ${path.join(
+        ROOT_DIR,
+        'node_modules/misspelled'
+      )}`,
+      `  warning: has an 'ember.edition' of "octan", not 'classic' or 'octane' (ember-edition)`,
+    ]);
+  });
+
+  test('can be replaced or extended', function () {
+    const noLodash: PackageJsonRule = {
+      name: 'no-lodash',
+      check(packageJson, packageInfo) {
+        return packageInfo.isRoot && packageJson.dependencies
+          ? Object.keys(packageJson.dependencies)
+              .filter((name) => name === 'lodash')
+              .map((name) => ({
+                message: `depends on '${name}'`,
+                field: ['dependencies', name],
+              }))
+          : [];
+      },
+    };
+    const fileSystem = project({
+      lodash: pkg('lodash', { version: undefined, preferGlobal: true }),
+    });
+
+    const pic = new PackageInfoCache({
+      fileSystem,
+      packageJsonRules: [...DEFAULT_PACKAGE_JSON_RULES, noLodash],
+    });
+    const app = pic.loadApp(ROOT_DIR);
+
+    expect(findings(app)).to.eql([`no-lodash: depends on 'lodash'`]);
+    expect(app.errors.getWarnings()[0]?.locations[0]?.line).to.equal(1);
+    expect(findings(app.dependenciesPackages?.get('lodash'))).to.eql([
+      `required-fields: has no 'version' field`,
+      `deprecated-fields: has a deprecated 'preferGlobal' field`,
+    ]);
+
+    const uncheckedPic = new PackageInfoCache({
+      fileSystem,
+      packageJsonRules: [],
+    });
+    uncheckedPic.loadApp(ROOT_DIR);
+
+    expect(uncheckedPic.getErrorReport({ severity: 'warning' }).entries).to.eql(
+      []
+    );
+  });
+});
@@ -0,0 +1,149 @@
+'use strict';
+
+import path from 'node:path';
+import type { PackageJson } from 'type-fest';
+import { describe, expect, test } from 'vitest';
+
+import { EmberAddonPackageInfo } from '../../src/objects/ember-addon-package-info';
+import { EmberPackageInfo } from '../../src/objects/ember-package-info';
+import { MemoryFileSystem } from '../../src/objects/memory-file-system';
+import { PackageInfo } from '../../src/objects/package-info';
+import { PackageInfoCache } from '../../src/objects/package-info-cache';
+import {
+  AnyPackageType,
+  DEFAULT_PACKAGE_TYPES,
+  PackageInfoFactory,
+  PackageType,
+} from '../../src/objects/package-info-factory';
+import {
+  EmberAddonPackageJson,
+  isEmberAddonPackageJson,
+} from '../../src/types/ember-addon-package-json';
+import { addon, pkg } from '../helpers/fixtures';
+
+const ROOT_DIR = path.resolve('/pic-package-types/project');
+
+class DesignSystemPackageInfo extends PackageInfo {
+  typeName(): string {
+    return 'design-system';
+  }
+}
+
+class V2AddonPackageInfo extends EmberAddonPackageInfo {
+  typeName(): string {
+    return 'v2-addon';
+  }
+}
+
+const DESIGN_SYSTEM: PackageType = {
+  name: 'design-system',
+  priority: 50,
+  test: (packageJson): packageJson is PackageJson =>
+    typeof packageJson.name === 'string' &&
+    packageJson.name.startsWith('@design-system/'),
+  PackageInfoClass: DesignSystemPackageInfo,
+};
+
+const V2_ADDON: PackageType<EmberAddonPackageJson> = {
+  name: 'v2-addon',
+  priority: 350,
+  test: (packageJson): packageJson is EmberAddonPackageJson =>
+    isEmberAddonPackageJson(packageJson) &&
+    packageJson['ember-addon']?.version === 2,
+  PackageInfoClass: V2AddonPackageInfo,
+};
+
+function project(): MemoryFileSystem {
+  return new MemoryFileSystem(ROOT_DIR, {
+    ...pkg('app', {
+      ember: { edition: 'octane' },
+      devDependencies: { 'ember-cli': '*' },
+      dependencies: {
+        '@design-system/button': '*',
+        'classic-addon': '*',
+        'v2-addon': '*',
+      },
+    }),
+    node_modules: {
+      '@design-system': { button: pkg('@design-system/button') },
+      'ember-cli': pkg('ember-cli'),
+      'classic-addon': addon('classic-addon'),
+      'v2-addon': addon('v2-addon', {
+        'ember-addon': { version: 2, type: 'addon', main: 'index.js' },
+      }),
+    },
+  });
+}
+
+function typeNames(pic: PackageInfoCache): Record<string, string> {
+  return Object.fromEntries(
+    [...(pic.rootPackage?.dependenciesPackages ?? [])].map(
+      ([name, packageInfo]) => [name, packageInfo.typeName()]
+    )
+  );
+}
+
+describe('package types', function () {
+  test('creates the classes of registered types', function () {
+    const pic = new PackageInfoCache({
+      fileSystem: project(),
+      packageTypes: [DESIGN_SYSTEM, V2_ADDON],
+    });
+    pic.loadApp(ROOT_DIR);
+
+    expect(typeNames(pic)).to.eql({
+      '@design-system/button': 'design-system',
+      'classic-addon': 'ember-addon',
+      'v2-addon': 'v2-addon',
+    });
+    expect(pic.rootPackage?.typeName()).to.equal('ember-app');
+  });
+
+  test('tries the types from the highest priority down', function () {
+    const factory = new PackageInfoFactory();
+
+    factory.register(V2_ADDON);
+    factory.register({ ...DESIGN_SYSTEM, name: 'ember', priority: 100 });
+
+    expect(factory.getPackageTypes().map(({ name }) => name)).to.eql([
+      'ember-engine',
+      'v2-addon',
+      'ember-addon',
+      'ember-app',
+      'ember',
+      'ember-package',
+    ]);
+
+    // a lower priority than 'ember-addon' is never tried for an addon.
+    const pic = new PackageInfoCache({
+      fileSystem: project(),
+      packageTypes: [{ ...V2_ADDON, priority: 250 }],
+    });
+    pic.loadApp(ROOT_DIR);
+
+    expect(typeNames(pic)['v2-addon']).to.equal('ember-addon');
+  });
+
+  test('replaces and unregisters types', function () {
+    const pic = new PackageInfoCache({ fileSystem: project() });
+
+    // a plain Ember package instead of an addon.
+    pic.packageInfoFactory.register({
+      ...(DEFAULT_PACKAGE_TYPES[1] as AnyPackageType),
+      PackageInfoClass: EmberPackageInfo,
+    });
+    expect(pic.packageInfoFactory.unregister('ember-engine')).to.equal(true);
+    expect(pic.packageInfoFactory.unregister('ember-engine')).to.equal(false);
+
+    pic.loadApp(ROOT_DIR);
+
+    expect(typeNames(pic)).to.eql({
+      '@design-system/button': 'package',
+      'classic-addon': 'ember-package',
+      'v2-addon': 'ember-package',
+    });
+    expect(
+      pic.packageInfoFactory.getPackageTypes().map(({ name }) => name)
+    ).to.eql(['ember-addon', 'ember-app', 'ember-package']);
+  });
+});
@@ -0,0 +1,149 @@
+'use strict';
+
+import fixturify from 'fixturify';
+import fs from 'fs-extra';
+import os from 'node:os';
+import path from 'node:path';
+import { afterAll, beforeAll, describe, expect, test } from 'vitest';
+
+import { ErrorEntry } from '../../src/objects/error-entry';
+import { ERRORS } from '../../src/objects/errors';
+import { PackageInfo } from '../../src/objects/package-info';
+import { PackageInfoCache } from '../../src/objects/package-info-cache';
+import { addon } from '../helpers/fixtures';
+
+function findError(
+  pkgInfo: PackageInfo,
+  errorType: string
+): ErrorEntry | undefined {
+  return pkgInfo.errors.getErrors().find((err) => err.type === errorType);
+}
+
+describe('peerDependencies', function () {
+  let rootDir: string;
+  let appDir: string;
+  let pic: PackageInfoCache;
+
+  function getPackage(...parts: string[]): PackageInfo {
+    return pic.getEntry(path.join(appDir, ...parts)) as PackageInfo;
+  }
+
+  beforeAll(function () {
+    rootDir = fs.realpathSync(
+      fs.mkdtempSync(path.join(os.tmpdir(), 'pic-peer-dependencies-'))
+    );
+
+    fixturify.writeSync(rootDir, {
+      app: {
+        'package.json': JSON.stringify({
+          name: 'app',
+          version: '1.0.0',
+          ember: { edition: 'octane' },
+          devDependencies: {
+            'addon-a': '*',
+            'addon-b': '*',
+            'addon-c': '*',
+            'ember-cli': '*',
+            'ember-source': '^4.8.0',
+          },
+        }),
+        node_modules: {
+          'ember-cli': {
+            'package.json': JSON.stringify({
+              name: 'ember-cli',
+              version: '4.8.0',
+            }),
+          },
+          'ember-source': {
+            'package.json': JSON.stringify({
+              name: 'ember-source',
+              version: '4.8.0',
+            }),
+          },
+          'addon-a': addon('addon-a', {
+            peerDependencies: { 'ember-source': '^4.0.0' },
+          }),
+          'addon-b': addon('addon-b', {
+            peerDependencies: {
+              'ember-source': '^3.28.0',
+              'missing-peer': '*',
+              'optional-peer': '*',
+            },
+            peerDependenciesMeta: { 'optional-peer': { optional: true } },
+          }),
+          'addon-c': {
+            ...addon('addon-c', { dependencies: { 'addon-d': '*' } }),
+            node_modules: {
+              'ember-source': {
+                'package.json': JSON.stringify({
+                  name: 'ember-source',
+                  version: '3.28.0',
+                }),
+              },
+              'addon-d': addon('addon-d', {
+                peerDependencies: { 'ember-source': '^3.28.0' },
+              }),
+            },
+          },
+        },
+      },
+    });
+
+    appDir = path.join(rootDir, 'app');
+
+    pic = new PackageInfoCache();
+    pic.loadApp(appDir);
+  });
+
+  afterAll(function () {
+    fs.removeSync(rootDir);
+  });
+
+  test('resolves peers that satisfy the declared range', function () {
+    const addonA = getPackage('node_modules', 'addon-a');
+
+    expect(addonA.peerDependenciesPackages?.get('ember-source')).to.equal(
+      getPackage('node_modules', 'ember-source')
+    );
+    expect(addonA.hasErrors()).to.be.false;
+  });
+
+  test('resolves peers from the point of view of the parent package', function () {
+    const addonD = getPackage(
+      'node_modules',
+      'addon-c',
+      'node_modules',
+      'addon-d'
+    );
+
+    expect(addonD.peerDependenciesPackages?.get('ember-source')).to.equal(
+      getPackage('node_modules', 'addon-c', 'node_modules', 'ember-source')
+    );
+    expect(addonD.hasErrors()).to.be.false;
+  });
+
+  test('reports missing and mismatched peers, except optional ones', function () {
+    const addonB = getPackage('node_modules', 'addon-b');
+
+    expect(
+      findError(addonB, ERRORS.ERROR_PEERDEPENDENCIES_MISSING)?.data
+    ).to.eql(['missing-peer']);
+    expect(
+      findError(addonB, ERRORS.ERROR_PEERDEPENDENCIES_MISMATCH)?.data
+    ).to.eql([{ name: 'ember-source', range: '^3.28.0', version: '4.8.0' }]);
+    expect([...(addonB.peerDependenciesPackages?.keys() ?? [])]).to.eql([
+      'ember-source',
+    ]);
+  });
+
+  test('clears peer errors when dependencies are reset', function () {
+    const addonB = getPackage('node_modules', 'addon-b');
+    addonB.resetDependencies();
+
+    expect(addonB.peerDependenciesPackages).to.be.undefined;
+    expect(findError(addonB, ERRORS.ERROR_PEERDEPENDENCIES_MISSING)).to.be
+      .undefined;
+    expect(findError(addonB, ERRORS.ERROR_PEERDEPENDENCIES_MISMATCH)).to.be
+      .undefined;
+  });
+});
@@ -0,0 +1,383 @@
+'use strict';
+
+import AdmZip from 'adm-zip';
+import fs from 'fs-extra';
+import os from 'node:os';
+import path from 'node:path';
+import { afterAll, beforeAll, describe, expect, test } from 'vitest';
+
+import { EmberAddonPackageInfo } from '../../src/objects/ember-addon-package-info';
+import { MemoryFileSystem } from '../../src/objects/memory-file-system';
+import { PackageInfo } from '../../src/objects/package-info';
+import { PackageInfoCache } from '../../src/objects/package-info-cache';
+import {
+  PnpPackageInformation,
+  PnpResolutionBackend,
+  PnpRuntimeState,
+} from '../../src/objects/pnp-resolution-backend';
+import {
+  RESOLUTION_REASONS,
+  ResolutionTrace,
+} from '../../src/objects/resolution-trace';
+
+const CACHE = './.yarn/cache';
+const PEER_USER_VIRTUAL =
+  './.yarn/__virtual__/peer-user-virtual-0123456789/0/cache/peer-user-npm-1.0.0-abc.zip/node_modules/peer-user/';
+
+function cacheLocation(name: string, version: string): string {
+  return `${CACHE}/${name}-npm-${version}-abc.zip/node_modules/${name}/`;
+}
+
+// the runtime state yarn would write for the project.
+function runtimeState(): PnpRuntimeState {
+  const rootDependencies: [string, string][] = [
+    ['app', 'workspace:.'],
+    ['bar', 'npm:2.0.0'],
+    ['ember-cli', 'npm:4.8.0'],
+    ['ember-x', 'npm:1.0.0'],
+    ['foo', 'npm:1.0.0'],
+    ['peer-user', 'virtual:0123456789#npm:1.0.0'],
+  ];
+
+  const cached = (
+    name: string,
+    version: string,
+    dependencies: [string, string | [string, string] | null][] = []
+  ): [string, [string, PnpPackageInformation][]] => [
+    name,
+    [
+      [
+        `npm:${version}`,
+        {
+          packageLocation: cacheLocation(name, version),
+          packageDependencies: [[name, `npm:${version}`], ...dependencies],
+          linkType: 'HARD',
+        },
+      ],
+    ],
+  ];
+
+  return {
+    packageRegistryData: [
+      [
+        null,
+        [
+          [
+            null,
+            {
+              packageLocation: './',
+              packageDependencies: rootDependencies,
+              linkType: 'SOFT',
+            },
+          ],
+        ],
+      ],
+      [
+        'app',
+        [
+          [
+            'workspace:.',
+            {
+              packageLocation: './',
+              packageDependencies: rootDependencies,
+              linkType: 'SOFT',
+            },
+          ],
+        ],
+      ],
+      cached('bar', '2.0.0'),
+      cached('ember-cli', '4.8.0'),
+      cached('ember-x', '1.0.0', [['bar', 'npm:2.0.0']]),
+      cached('foo', '1.0.0', [
+        ['bar', 'npm:2.0.0'],
+        ['old-bar', ['bar', 'npm:2.0.0']],
+      ]),
+      [
+        'peer-user',
+        [
+          [
+            'npm:1.0.0',
+            {
+              packageLocation: cacheLocation('peer-user', '1.0.0'),
+              packageDependencies: [
+                ['peer-user', 'npm:1.0.0'],
+                ['bar', null],
+              ],
+              linkType: 'HARD',
+            },
+          ],
+          [
+            'virtual:0123456789#npm:1.0.0',
+            {
+              packageLocation: PEER_USER_VIRTUAL,
+              packageDependencies: [
+                ['peer-user', 'virtual:0123456789#npm:1.0.0'],
+                ['bar', 'npm:2.0.0'],
+              ],
+              linkType: 'HARD',
+            },
+          ],
+        ],
+      ],
+    ],
+    enableTopLevelFallback: true,
+    fallbackPool: [['ember-cli', 'npm:4.8.0']],
+    fallbackExclusionList: [['app', ['workspace:.']]],
+  };
+}
+
+// write the runtime state into a .pnp.cjs file, escaped as yarn does.
+function runtimeScript(state: PnpRuntimeState): string {
+  const literal = JSON.stringify(state, null, 2)
+    .replace(/\\/g, '\\\\')
+    .replace(/'/g, "\\'")
+    .replace(/\n/g, '\\\n');
+
+  return `#!/usr/bin/env node\n/* eslint-disable */\n"use strict";\n\nconst RAW_RUNTIME_STATE =\n'${literal}';\n\nfunction $$SETUP_STATE(hydrateRuntimeState, basePath) {}\n`;
+}
+
+function writeArchive(
+  projectDir: string,
+  name: string,
+  version: string,
+  packageJson: Record<string, unknown>,
+  files: Record<string, string> = {}
+): void {
+  const zip = new AdmZip();
+  const packagePath = `node_modules/${name}`;
+
+  zip.addFile(
+    `${packagePath}/package.json`,
+    Buffer.from(JSON.stringify({ name, version, ...packageJson }))
+  );
+
+  Object.entries(files).forEach(([fileName, contents]) =>
+    zip.addFile(`${packagePath}/${fileName}`, Buffer.from(contents))
+  );
+
+  fs.ensureDirSync(path.join(projectDir, CACHE));
+  zip.writeZip(path.join(projectDir, CACHE, `${name}-npm-${version}-abc.zip`));
+}
+
+describe('Yarn Plug-n-Play', function () {
+  let projectDir: string;
+
+  function location(relativeLocation: string): string {
+    return path.resolve(projectDir, relativeLocation);
+  }
+
+  function createCache(): PackageInfoCache {
+    return new PackageInfoCache({
+      resolutionBackend: PnpResolutionBackend.load(projectDir),
+    });
+  }
+
+  beforeAll(function () {
+    projectDir = fs.realpathSync(
+      fs.mkdtempSync(path.join(os.tmpdir(), 'pic-pnp-'))
+    );
+
+    fs.outputJsonSync(path.join(projectDir, 'package.json'), {
+      name: 'app',
+      version: '1.0.0',
+      ember: { edition: 'octane' },
+      dependencies: {
+        bar: '^2.0.0',
+        'ember-x': '^1.0.0',
+        foo: '^1.0.0',
+        'peer-user': '^1.0.0',
+      },
+      devDependencies: { 'ember-cli': '*' },
+    });
+    fs.outputFileSync(
+      path.join(projectDir, '.pnp.cjs'),
+      runtimeScript(runtimeState())
+    );
+
+    writeArchive(projectDir, 'bar', '2.0.0', {
+      description: "bar's package, with a \\ in it",
+    });
+    writeArchive(projectDir, 'ember-cli', '4.8.0', {});
+    writeArchive(
+      projectDir,
+      'ember-x',
+      '1.0.0',
+      {
+        keywords: ['ember-addon'],
+        ember: { edition: 'octane' },
+        dependencies: { bar: '^2.0.0' },
+      },
+      { 'index.js': `module.exports = { name: 'ember-x' };` }
+    );
+    writeArchive(projectDir, 'foo', '1.0.0', {
+      dependencies: { bar: '^2.0.0' },
+    });
+    writeArchive(projectDir, 'peer-user', '1.0.0', {
+      peerDependencies: { bar: '^2.0.0' },
+    });
+  });
+
+  afterAll(function () {
+    fs.removeSync(projectDir);
+  });
+
+  test('reads the runtime state inlined into .pnp.cjs', function () {
+    expect(PnpResolutionBackend.readRuntimeState(projectDir)).to.eql(
+      runtimeState()
+    );
+  });
+
+  test('resolves dependencies from the package registry', function () {
+    const backend = PnpResolutionBackend.load(
+      projectDir
+    ) as PnpResolutionBackend;
+    const fooDir = location(cacheLocation('foo', '1.0.0'));
+    const barDir = location(cacheLocation('bar', '2.0.0'));
+
+    expect([...backend.getDependencyDirs(fooDir)]).to.eql([
+      ['foo', fooDir],
+      ['bar', barDir],
+      ['old-bar', barDir],
+    ]);
+    expect(backend.resolvePackageDir('bar', path.join(fooDir, 'lib'))).to.equal(
+      barDir
+    );
+
+    // packages may use the fallback pool, but the excluded workspace may not.
+    expect(backend.resolvePackageDir('ember-cli', barDir)).to.equal(
+      location(cacheLocation('ember-cli', '4.8.0'))
+    );
+    expect(backend.resolvePackageDir('foo', barDir)).to.be.null;
+    expect(backend.resolvePackageDir('lodash', projectDir)).to.be.null;
+    expect(backend.resolvePackageDir('foo', os.tmpdir())).to.be.undefined;
+  });
+
+  test('builds the package graph from packages in zip archives', function () {
+    const pic = createCache();
+    const app = pic.loadApp(projectDir);
+
+    const foo = app.dependenciesPackages?.get('foo') as PackageInfo;
+    const bar = app.dependenciesPackages?.get('bar') as PackageInfo;
+    const emberX = app.dependenciesPackages?.get('ember-x') as PackageInfo;
+
+    expect(foo.realPath).to.equal(location(cacheLocation('foo', '1.0.0')));
+    expect(foo.dependenciesPackages?.get('bar')).to.equal(bar);
+    expect(bar.packageJson.description).to.equal(
+      "bar's package, with a \\ in it"
+    );
+    expect(app.devDependenciesPackages?.get('ember-cli')?.realPath).to.equal(
+      location(cacheLocation('ember-cli', '4.8.0'))
+    );
+
+    expect(emberX).to.be.instanceOf(EmberAddonPackageInfo);
+    expect((emberX as EmberAddonPackageInfo).addonMainPath).to.equal(
+      path.join(emberX.realPath, 'index.js')
+    );
+    expect(emberX.dependenciesPackages?.get('bar')).to.equal(bar);
+
+    expect(pic.findErrors()).to.eql([]);
+  });
+
+  test('keeps each virtual instance of a package with peers', function () {
+    const pic = createCache();
+    const app = pic.loadApp(projectDir);
+    const peerUser = app.dependenciesPackages?.get('peer-user') as PackageInfo;
+
+    expect(peerUser.realPath).to.equal(location(PEER_USER_VIRTUAL));
+    expect(peerUser.peerDependenciesPackages?.get('bar')).to.equal(
+      app.dependenciesPackages?.get('bar')
+    );
+    expect(peerUser.hasErrors()).to.be.false;
+  });
+
+  test('resolves findDependency() through the backend', function () {
+    const pic = createCache();
+    pic.loadApp(projectDir);
+
+    const fooDir = location(cacheLocation('foo', '1.0.0'));
+    const trace = new ResolutionTrace();
+
+    expect(pic.findDependency(fooDir, 'old-bar')?.realPath).to.equal(
+      location(cacheLocation('bar', '2.0.0'))
+    );
+    expect(pic.findDependency(fooDir, 'lodash', trace)).to.be.undefined;
+
+    const entries = trace.getEntries();
+    expect(entries.length).to.equal(1);
+    expect(entries[0]?.path).to.equal(fooDir);
+    expect(entries[0]?.reason).to.equal(RESOLUTION_REASONS.PACKAGE_MISSING);
+  });
+
+  test('reads the project through the file system of the cache', function () {
+    const unpacked = (
+      name: string,
+      version: string,
+      packageJson: Record<string, unknown> = {},
+      files: Record<string, string> = {}
+    ) => ({
+      [`${name}-npm-${version}-abc.zip`]: {
+        node_modules: {
+          [name]: {
+            'package.json': JSON.stringify({ name, version, ...packageJson }),
+            ...files,
+          },
+        },
+      },
+    });
+
+    // the archives are directories here, so their files are read from memory.
+    const fileSystem = new MemoryFileSystem(projectDir, {
+      'package.json': fs.readFileSync(
+        path.join(projectDir, 'package.json'),
+        'utf8'
+      ),
+      '.pnp.data.json': JSON.stringify(runtimeState()),
+      '.yarn': {
+        cache: {
+          ...unpacked('bar', '2.0.0'),
+          ...unpacked('ember-cli', '4.8.0'),
+          ...unpacked(
+            'ember-x',
+            '1.0.0',
+            {
+              keywords: ['ember-addon'],
+              ember: { edition: 'octane' },
+              dependencies: { bar: '^2.0.0' },
+            },
+            { 'index.js': '' }
+          ),
+          ...unpacked('foo', '1.0.0', { dependencies: { bar: '^2.0.0' } }),
+          ...unpacked('peer-user', '1.0.0', {
+            peerDependencies: { bar: '^2.0.0' },
+          }),
+        },
+      },
+    });
+    const pic = new PackageInfoCache({
+      fileSystem,
+      resolutionBackend: PnpResolutionBackend.load(projectDir, fileSystem),
+    });
+    const expected = createCache();
+
+    pic.loadApp(projectDir);
+    expected.loadApp(projectDir);
+
+    expect([...pic.entries.keys()].sort()).to.eql(
+      [...expected.entries.keys()].sort()
+    );
+    expect(pic.findErrors()).to.eql([]);
+  });
+
+  test('loads the same packages asynchronously', async function () {
+    const pic = createCache();
+    const expected = createCache();
+
+    await pic.loadAppAsync(projectDir);
+    expected.loadApp(projectDir);
+
+    expect([...pic.entries.keys()].sort()).to.eql(
+      [...expected.entries.keys()].sort()
+    );
+    expect(pic.findErrors()).to.eql([]);
+  });
+});
@@ -0,0 +1,214 @@
+'use strict';
+
+import fs from 'fs-extra';
+import os from 'node:os';
+import path from 'node:path';
+import { afterAll, beforeAll, describe, expect, test } from 'vitest';
+
+import { NodeModulesList } from '../../src/objects/node-modules-list';
+import { PackageInfo } from '../../src/objects/package-info';
+import { PackageInfoCache } from '../../src/objects/package-info-cache';
+import { parsePnpmStorePath } from '../../src/utils';
+
+describe('parsePnpmStorePath', function () {
+  const store = path.join(path.sep, 'repo', 'node_modules', '.pnpm');
+
+  test('decodes the store entry of a package', function () {
+    expect(
+      parsePnpmStorePath(
+        path.join(store, 'lodash@4.17.21', 'node_modules', 'lodash')
+      )
+    ).to.eql({
+      storeDir: store,
+      entryName: 'lodash@4.17.21',
+      nodeModulesDir: path.join(store, 'lodash@4.17.21', 'node_modules'),
+      name: 'lodash',
+      version: '4.17.21',
+      peers: undefined,
+    });
+
+    const scoped = parsePnpmStorePath(
+      path.join(
+        store,
+        '@glimmer+component@1.1.2_@babel+core@7.20.2',
+        'node_modules',
+        '@glimmer',
+        'component'
+      )
+    );
+
+    expect(scoped?.name).to.equal('@glimmer/component');
+    expect(scoped?.version).to.equal('1.1.2');
+    expect(scoped?.peers).to.equal('@babel+core@7.20.2');
+
+    expect(
+      parsePnpmStorePath(
+        path.join(
+          store,
+          'ember-source@4.8.0(@babel+core@7.20.2)',
+          'node_modules',
+          'ember-source'
+        )
+      )?.peers
+    ).to.equal('(@babel+core@7.20.2)');
+  });
+
+  test('ignores paths outside of a pnpm store', function () {
+    expect(
+      parsePnpmStorePath(path.join(path.sep, 'repo', 'node_modules', 'lodash'))
+    ).to.be.undefined;
+    expect(
+      parsePnpmStorePath(
+        path.join(store, 'lodash@4.17.21', 'node_modules', 'lodash', 'fp')
+      )
+    ).to.be.undefined;
+  });
+});
+
+describe('pnpm node_modules layout', function () {
+  let rootDir: string;
+  let storeDir: string;
+  let pic: PackageInfoCache;
+
+  function storePath(entryName: string, name: string): string {
+    return path.join(storeDir, entryName, 'node_modules', name);
+  }
+
+  // write a package into the store, and link it where it is used.
+  function addPackage(
+    entryName: string,
+    packageJson: Record<string, unknown>,
+    linkDirs: string[]
+  ): void {
+    const name = packageJson.name as string;
+    const packageDir = storePath(entryName, name);
+
+    fs.outputJsonSync(path.join(packageDir, 'package.json'), packageJson);
+
+    if (Array.isArray(packageJson.keywords)) {
+      fs.outputFileSync(path.join(packageDir, 'index.js'), '');
+    }
+
+    linkDirs.forEach((linkDir) =>
+      fs.ensureSymlinkSync(packageDir, path.join(linkDir, name))
+    );
+  }
+
+  beforeAll(function () {
+    rootDir = fs.realpathSync(
+      fs.mkdtempSync(path.join(os.tmpdir(), 'pic-pnpm-'))
+    );
+    storeDir = path.join(rootDir, 'node_modules', '.pnpm');
+
+    const rootModules = path.join(rootDir, 'node_modules');
+    const addonModules = path.join(storeDir, 'ember-x@1.0.0', 'node_modules');
+    const fooModules = path.join(storeDir, 'foo@1.0.0', 'node_modules');
+
+    fs.outputJsonSync(path.join(rootDir, 'package.json'), {
+      name: 'app',
+      version: '1.0.0',
+      ember: { edition: 'octane' },
+      dependencies: { 'ember-x': '^1.0.0', foo: '^1.0.0' },
+      devDependencies: { 'ember-cli': '*' },
+    });
+
+    addPackage('ember-cli@4.8.0', { name: 'ember-cli', version: '4.8.0' }, [
+      rootModules,
+    ]);
+    addPackage(
+      'ember-x@1.0.0',
+      {
+        name: 'ember-x',
+        version: '1.0.0',
+        keywords: ['ember-addon'],
+        ember: { edition: 'octane' },
+        dependencies: { bar: '^2.0.0' },
+      },
+      [rootModules]
+    );
+    addPackage('foo@1.0.0', { name: 'foo', dependencies: { bar: '^2.0.0' } }, [
+      rootModules,
+    ]);
+
+    // bar is only linked next to the packages that depend on it, and in the
+    // store's hidden hoisting directory.
+    addPackage('bar@2.0.0', { name: 'bar', version: '2.0.0' }, [
+      addonModules,
+      fooModules,
+      path.join(storeDir, 'node_modules'),
+    ]);
+
+    pic = new PackageInfoCache();
+    pic.loadApp(rootDir);
+  });
+
+  afterAll(function () {
+    fs.removeSync(rootDir);
+  });
+
+  test('resolves dependencies from the real location in the store', function () {
+    const foo = pic.getEntry(storePath('foo@1.0.0', 'foo')) as PackageInfo;
+    const bar = pic.getEntry(storePath('bar@2.0.0', 'bar')) as PackageInfo;
+
+    expect(pic.rootPackage?.dependenciesPackages?.get('foo')).to.equal(foo);
+    expect(foo.dependenciesPackages?.get('bar')).to.equal(bar);
+    expect(foo.hasErrors()).to.be.false;
+  });
+
+  test("reads an addon's store entry as its node_modules", function () {
+    const addon = pic.getEntry(
+      storePath('ember-x@1.0.0', 'ember-x')
+    ) as PackageInfo;
+
+    expect(addon.nodeModules?.realPath).to.equal(
+      path.join(storeDir, 'ember-x@1.0.0', 'node_modules')
+    );
+    expect(addon.nodeModules?.findPackage('bar')).to.equal(
+      pic.getEntry(storePath('bar@2.0.0', 'bar'))
+    );
+    expect(addon.hasErrors()).to.be.false;
+  });
+
+  test('takes the version from the store entry name when the package.json has none', function () {
+    const foo = pic.getEntry(storePath('foo@1.0.0', 'foo')) as PackageInfo;
+    const edge = pic.rootPackage
+      ?.getDependencyEdges()
+      .find((dependencyEdge) => dependencyEdge.name === 'foo');
+
+    expect(foo.pnpmStoreEntry?.version).to.equal('1.0.0');
+    expect(edge?.installedVersion).to.equal('1.0.0');
+    expect(edge?.satisfied).to.be.true;
+  });
+
+  test('loads each package in the store only once', function () {
+    const packagePaths = [...pic.entries.values()]
+      .filter((entry) => entry instanceof PackageInfo)
+      .map((entry) => path.relative(rootDir, entry.realPath))
+      .sort();
+
+    expect(packagePaths).to.eql([
+      '',
+      path.join('node_modules', '.pnpm', 'bar@2.0.0', 'node_modules', 'bar'),
+      path.join(
+        'node_modules',
+        '.pnpm',
+        'ember-cli@4.8.0',
+        'node_modules',
+        'ember-cli'
+      ),
+      path.join(
+        'node_modules',
+        '.pnpm',
+        'ember-x@1.0.0',
+        'node_modules',
+        'ember-x'
+      ),
+      path.join('node_modules', '.pnpm', 'foo@1.0.0', 'node_modules', 'foo'),
+    ]);
+    expect(pic.getEntry(storeDir)).to.be.undefined;
+    expect(
+      (pic.getEntry(path.join(rootDir, 'node_modules')) as NodeModulesList)
+        .entries.size
+    ).to.equal(3);
+  });
+});
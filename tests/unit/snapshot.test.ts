@@ -0,0 +1,117 @@
+'use strict';
+
+import fs from 'fs-extra';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, test } from 'vitest';
+
+import { EmberAppPackageInfo } from '../../src/objects/ember-app-package-info';
+import { NodeModulesList } from '../../src/objects/node-modules-list';
+import { PackageInfo } from '../../src/objects/package-info';
+import { PackageInfoCache } from '../../src/objects/package-info-cache';
+import { SNAPSHOT_VERSION } from '../../src/objects/package-info-cache-snapshot';
+
+const addonFixturePath = path.resolve(__dirname, '../fixtures');
+
+describe('PackageInfoCache snapshots', function () {
+  let rootDir: string;
+  let projectPath: string;
+  let snapshotPath: string;
+  let pic: PackageInfoCache;
+
+  beforeEach(function () {
+    rootDir = fs.realpathSync(
+      fs.mkdtempSync(path.join(os.tmpdir(), 'pic-snapshot-'))
+    );
+    projectPath = path.join(rootDir, 'simple');
+    snapshotPath = path.join(rootDir, 'snapshot.json');
+    fs.copySync(path.join(addonFixturePath, 'simple'), projectPath);
+
+    pic = new PackageInfoCache();
+    pic.loadProject(projectPath);
+  });
+
+  afterEach(function () {
+    fs.removeSync(rootDir);
+  });
+
+  test('restores the entries and the links between them', function () {
+    pic.saveSnapshot(snapshotPath);
+
+    const restoredPic = new PackageInfoCache();
+    const root = restoredPic.loadFromSnapshot(snapshotPath) as PackageInfo;
+
+    expect(root).to.be.instanceOf(EmberAppPackageInfo);
+    expect(restoredPic.rootPackage).to.equal(root);
+    expect(restoredPic.projectRootDir).to.equal(projectPath);
+    expect([...restoredPic.entries.keys()]).to.eql([...pic.entries.keys()]);
+    expect(restoredPic.toSnapshot()).to.deep.equal(pic.toSnapshot());
+
+    const addonPath = path.join(
+      projectPath,
+      'node_modules',
+      'ember-random-addon'
+    );
+    const addon = restoredPic.getEntry(addonPath);
+    expect(root.nodeModules).to.be.instanceOf(NodeModulesList);
+    expect(root.nodeModules?.findPackage('ember-random-addon')).to.equal(addon);
+    expect(root.devDependenciesPackages?.get('ember-random-addon')).to.equal(
+      addon
+    );
+    expect(
+      (root as EmberAppPackageInfo).inRepoAddons?.map((inRepoAddon) =>
+        restoredPic.getEntry(inRepoAddon.realPath)
+      )
+    ).to.eql((root as EmberAppPackageInfo).inRepoAddons);
+    expect(root.errors.getErrors()).to.deep.equal(
+      (pic.rootPackage as PackageInfo).errors.getErrors()
+    );
+  });
+
+  test('re-reads only the parts that changed', function () {
+    pic.saveSnapshot(snapshotPath);
+
+    fs.outputJsonSync(
+      path.join(projectPath, 'node_modules', 'loader.js', 'package.json'),
+      { name: 'loader.js', version: '4.7.0' }
+    );
+
+    const restoredPic = new PackageInfoCache();
+    const root = restoredPic.loadFromSnapshot(snapshotPath) as PackageInfo;
+
+    expect(root.devDependenciesPackages?.get('loader.js')?.realPath).to.equal(
+      path.join(projectPath, 'node_modules', 'loader.js')
+    );
+
+    // the app itself was not re-read, only its node_modules.
+    expect(root.nodeModules).to.equal(
+      restoredPic.getEntry(path.join(projectPath, 'node_modules'))
+    );
+    expect(restoredPic.toSnapshot().entries.length).to.equal(
+      pic.toSnapshot().entries.length + 1
+    );
+  });
+
+  test('loads from scratch when the snapshot version differs', function () {
+    fs.writeJsonSync(snapshotPath, {
+      ...pic.toSnapshot(),
+      version: SNAPSHOT_VERSION + 1,
+      entries: [],
+    });
+
+    const restoredPic = new PackageInfoCache();
+    const root = restoredPic.loadFromSnapshot(snapshotPath) as PackageInfo;
+
+    expect(root.realPath).to.equal(projectPath);
+    expect([...restoredPic.entries.keys()]).to.have.members([
+      ...pic.entries.keys(),
+    ]);
+  });
+
+  test('returns undefined when there is no snapshot', function () {
+    const restoredPic = new PackageInfoCache();
+
+    expect(restoredPic.loadFromSnapshot(snapshotPath)).to.be.undefined;
+    expect(restoredPic.entries.size).to.equal(0);
+  });
+});
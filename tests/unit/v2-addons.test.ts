@@ -0,0 +1,201 @@
+'use strict';
+
+import fixturify from 'fixturify';
+import path from 'node:path';
+import { describe, expect, test } from 'vitest';
+
+import { EmberAddonPackageInfo } from '../../src/objects/ember-addon-package-info';
+import { getErrorMessageLines } from '../../src/objects/error-reporter';
+import { ERRORS } from '../../src/objects/errors';
+import { MemoryFileSystem } from '../../src/objects/memory-file-system';
+import { PackageInfoCache } from '../../src/objects/package-info-cache';
+import { pkg } from '../helpers/fixtures';
+
+const ROOT_DIR = path.resolve('/pic-v2-addons/project');
+
+// a v2 addon, exporting its dist directory, with no index.js unless the files
+// have one.
+function v2AddonDir(
+  name: string,
+  emberAddon: Record<string, unknown>,
+  files: fixturify.DirJSON = {}
+): fixturify.DirJSON {
+  return pkg(
+    name,
+    {
+      keywords: ['ember-addon'],
+      ember: { edition: 'octane' },
+      exports: { '.': './dist/index.js', './*': './dist/*.js' },
+      'ember-addon': emberAddon,
+    },
+    files
+  );
+}
+
+function loadAddons(
+  node_modules: fixturify.DirJSON
+): Map<string, EmberAddonPackageInfo> {
+  const fileSystem = new MemoryFileSystem(ROOT_DIR, {
+    'package.json': JSON.stringify({
+      name: 'app',
+      ember: { edition: 'octane' },
+      dependencies: Object.fromEntries(
+        Object.keys(node_modules).map((name) => [name, '*'])
+      ),
+      devDependencies: { 'ember-cli': '*' },
+    }),
+    node_modules: {
+      ...node_modules,
+      'ember-cli': { 'package.json': '{"name":"ember-cli"}' },
+    },
+  });
+  const pic = new PackageInfoCache({ fileSystem });
+  const app = pic.loadApp(ROOT_DIR);
+
+  return app.dependenciesPackages as Map<string, EmberAddonPackageInfo>;
+}
+
+describe('v2 addons', function () {
+  test('reads the metadata of a v2 addon', function () {
+    const addons = loadAddons({
+      'v2-addon': v2AddonDir(
+        'v2-addon',
+        {
+          version: 2,
+          type: 'addon',
+          main: 'addon-main.cjs',
+          'app-js': { './components/button.js': './dist/_app_/button.js' },
+          'public-assets': { './public/logo.svg': '/v2-addon/logo.svg' },
+          'renamed-modules': { 'v2-addon/button.js': 'v2-addon/index.js' },
+        },
+        {
+          'addon-main.cjs': '',
+          dist: { 'index.js': '', _app_: { 'button.js': '' } },
+          public: { 'logo.svg': '' },
+        }
+      ),
+      'v1-addon': v2AddonDir(
+        'v1-addon',
+        { 'app-js': { './a.js': './b.js' } },
+        { 'index.js': '' }
+      ),
+    });
+
+    const v2Addon = addons.get('v2-addon') as EmberAddonPackageInfo;
+
+    expect(v2Addon).to.be.instanceOf(EmberAddonPackageInfo);
+    expect(v2Addon.valid).to.equal(true);
+    expect(v2Addon.errors.getErrors()).to.eql([]);
+    expect(v2Addon.addonVersion).to.equal(2);
+    expect(v2Addon.addonMainPath).to.equal(
+      path.join(ROOT_DIR, 'node_modules/v2-addon/addon-main.cjs')
+    );
+    expect(v2Addon.packageJson.main).to.equal(undefined);
+    expect(v2Addon.appJs).to.eql({
+      './components/button.js': './dist/_app_/button.js',
+    });
+    expect(v2Addon.publicAssets).to.eql({
+      './public/logo.svg': '/v2-addon/logo.svg',
+    });
+    expect(v2Addon.renamedModules).to.eql({
+      'v2-addon/button.js': 'v2-addon/index.js',
+    });
+
+    const v1Addon = addons.get('v1-addon') as EmberAddonPackageInfo;
+
+    expect(v1Addon.valid).to.equal(true);
+    expect(v1Addon.addonVersion).to.equal(1);
+    expect(v1Addon.appJs).to.equal(undefined);
+  });
+
+  test('does not need an index.js or an ember-addon.main', function () {
+    const addons = loadAddons({
+      'v2-addon': v2AddonDir(
+        'v2-addon',
+        { version: 2, type: 'addon' },
+        { dist: { 'index.js': '' } }
+      ),
+    });
+
+    const v2Addon = addons.get('v2-addon') as EmberAddonPackageInfo;
+
+    expect(v2Addon.valid).to.equal(true);
+    expect(v2Addon.errors.getErrors()).to.eql([]);
+    expect(v2Addon.addonMainPath).to.equal(undefined);
+  });
+
+  test('checks the metadata and files of a v2 addon', function () {
+    const addons = loadAddons({
+      'missing-files': v2AddonDir('missing-files', {
+        version: 2,
+        main: 'addon-main.cjs',
+        'app-js': { './components/button.js': './dist/_app_/button.js' },
+        'public-assets': { './public/logo.svg': '/logo.svg' },
+      }),
+      'bad-metadata': v2AddonDir(
+        'bad-metadata',
+        { version: 2, 'renamed-modules': ['bad-metadata/index.js'] },
+        { 'index.js': '' }
+      ),
+      'bad-version': v2AddonDir(
+        'bad-version',
+        { version: 3 },
+        { 'index.js': '' }
+      ),
+    });
+
+    const missingFiles = addons.get('missing-files') as EmberAddonPackageInfo;
+
+    expect(missingFiles.valid).to.equal(false);
+    expect(
+      missingFiles.errors
+        .getErrors()
+        .map((error) => [error.type, error.data, getErrorMessageLines(error)])
+    ).to.eql([
+      [
+        ERRORS.ERROR_EMBER_ADDON_MAIN_MISSING,
+        path.join(ROOT_DIR, 'node_modules/missing-files/addon-main.cjs'),
+        [
+          "specifies a missing ember-addon 'main' file at relative path 'addon-main.cjs'",
+        ],
+      ],
+      [
+        ERRORS.ERROR_EMBER_ADDON_FILES_MISSING,
+        ['./dist/_app_/button.js', './public/logo.svg'],
+        [
+          'specifies some missing v2 addon files:',
+          "'./dist/_app_/button.js'",
+          "'./public/logo.svg'",
+        ],
+      ],
+    ]);
+
+    const badMetadata = addons.get('bad-metadata') as EmberAddonPackageInfo;
+    const [invalid] = badMetadata.errors.getErrors();
+
+    expect(badMetadata.valid).to.equal(false);
+    expect(badMetadata.renamedModules).to.equal(undefined);
+    expect(invalid?.type).to.equal(ERRORS.ERROR_EMBER_ADDON_METADATA_INVALID);
+    expect(invalid?.data).to.equal('renamed-modules');
+    expect(invalid?.locations).to.eql([
+      {
+        filePath: path.join(ROOT_DIR, 'node_modules/bad-metadata/package.json'),
+        line: 16,
+        column: 5,
+      },
+    ]);
+    expect(invalid && getErrorMessageLines(invalid)).to.eql([
+      "has an 'ember-addon.renamed-modules' field that is not an object of strings",
+    ]);
+
+    const badVersion = addons.get('bad-version') as EmberAddonPackageInfo;
+
+    expect(badVersion.addonVersion).to.equal(1);
+    expect(badVersion.addonMainPath).to.equal(
+      path.join(ROOT_DIR, 'node_modules/bad-version/index.js')
+    );
+    expect(
+      badVersion.errors.getErrors().map((error) => getErrorMessageLines(error))
+    ).to.eql([["has an 'ember-addon.version' field that is not 1 or 2"]]);
+  });
+});
@@ -0,0 +1,237 @@
+'use strict';
+
+import fs from 'fs-extra';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest';
+
+import { MemoryFileSystem } from '../../src/objects/memory-file-system';
+import { PackageInfo } from '../../src/objects/package-info';
+import { PackageInfoCache } from '../../src/objects/package-info-cache';
+import { PackageInfoCacheWatcher } from '../../src/objects/package-info-cache-watcher';
+
+const addonFixturePath = path.resolve(__dirname, '../fixtures');
+
+describe('PackageInfoCache.watch', function () {
+  let rootDir: string;
+  let projectPath: string;
+  let nodeModulesPath: string;
+  let pic: PackageInfoCache;
+  let watcher: PackageInfoCacheWatcher;
+
+  beforeEach(function () {
+    rootDir = fs.realpathSync(
+      fs.mkdtempSync(path.join(os.tmpdir(), 'pic-watch-'))
+    );
+    projectPath = path.join(rootDir, 'simple');
+    nodeModulesPath = path.join(projectPath, 'node_modules');
+    fs.copySync(path.join(addonFixturePath, 'simple'), projectPath);
+
+    pic = new PackageInfoCache();
+    pic.loadProject(projectPath);
+    watcher = pic.watch({ debounce: 10, persistent: false });
+  });
+
+  afterEach(function () {
+    watcher.close();
+    vi.restoreAllMocks();
+    fs.removeSync(rootDir);
+  });
+
+  test('watches the root package and node_modules directories', function () {
+    expect(watcher.watchedPaths).to.include(projectPath);
+    expect(watcher.watchedPaths).to.include(nodeModulesPath);
+    expect(watcher.watchedPaths).to.not.include(
+      path.join(nodeModulesPath, 'ember-random-addon')
+    );
+
+    const dependenciesWatcher = pic.watch({
+      persistent: false,
+      watchDependencies: true,
+    });
+
+    expect(dependenciesWatcher.watchedPaths).to.include(
+      path.join(nodeModulesPath, 'ember-random-addon')
+    );
+    dependenciesWatcher.close();
+  });
+
+  test('watches through the file system of the cache', function () {
+    const memoryPic = new PackageInfoCache({
+      fileSystem: new MemoryFileSystem(projectPath, {
+        'package.json': JSON.stringify({ name: 'memory', version: '1.0.0' }),
+        node_modules: {},
+      }),
+    });
+    memoryPic.loadProject(projectPath);
+
+    const memoryWatcher = memoryPic.watch({ persistent: false });
+
+    // a MemoryFileSystem can't be watched.
+    expect(memoryWatcher.watchedPaths).to.eql([]);
+    memoryWatcher.close();
+  });
+
+  test('emits package-added and dependency-rewired when a package appears', function () {
+    const added: string[] = [];
+    const rewired: Array<[string, string, unknown, string | undefined]> = [];
+
+    watcher.on('package-added', (pkg) => added.push(pkg.name));
+    watcher.on('dependency-rewired', (pkg, name, previous, current) =>
+      rewired.push([pkg.name, name, previous, current?.realPath])
+    );
+
+    fs.outputJsonSync(path.join(nodeModulesPath, 'loader.js', 'package.json'), {
+      name: 'loader.js',
+      version: '4.7.0',
+    });
+
+    watcher.refresh(nodeModulesPath);
+
+    expect(added).to.eql(['loader.js']);
+    expect(rewired).to.deep.include([
+      'test-project',
+      'loader.js',
+      undefined,
+      path.join(nodeModulesPath, 'loader.js'),
+    ]);
+    // found through its node_modules directory, which is enough.
+    expect(watcher.watchedPaths).to.not.include(
+      path.join(nodeModulesPath, 'loader.js')
+    );
+  });
+
+  test('emits package-changed only when the package.json content changes', function () {
+    const addonPath = path.join(nodeModulesPath, 'ember-random-addon');
+    const changed: Array<[PackageInfo, PackageInfo]> = [];
+
+    watcher.on('package-changed', (pkg, previous) =>
+      changed.push([pkg, previous])
+    );
+
+    watcher.refresh(addonPath);
+    expect(changed).to.eql([]);
+
+    const oldAddon = pic.getEntry(addonPath) as PackageInfo;
+    const packageJsonPath = path.join(addonPath, 'package.json');
+    fs.writeJsonSync(packageJsonPath, {
+      ...fs.readJsonSync(packageJsonPath),
+      version: '9.9.9',
+    });
+
+    watcher.refresh(packageJsonPath);
+
+    expect(changed.length).to.equal(1);
+    expect(changed[0][0].packageJson.version).to.equal('9.9.9');
+    expect(changed[0][1]).to.equal(oldAddon);
+  });
+
+  test('emits package-removed when a package disappears', function () {
+    const removed: string[] = [];
+    const rewired: Array<[string, string | undefined]> = [];
+
+    watcher.on('package-removed', (pkg) => removed.push(pkg.name));
+    watcher.on('dependency-rewired', (_pkg, name, previous, current) =>
+      rewired.push([name, current?.realPath])
+    );
+
+    fs.removeSync(path.join(nodeModulesPath, 'ember-random-addon'));
+    watcher.refresh(nodeModulesPath);
+
+    expect(removed).to.eql(['ember-random-addon']);
+    expect(rewired).to.deep.include(['ember-random-addon', undefined]);
+    expect(watcher.watchedPaths).to.not.include(
+      path.join(nodeModulesPath, 'ember-random-addon')
+    );
+  });
+
+  test('picks up changes from the file system', async function () {
+    const added = new Promise<PackageInfo>((resolve) =>
+      watcher.once('package-added', resolve)
+    );
+
+    fs.outputJsonSync(path.join(nodeModulesPath, 'loader.js', 'package.json'), {
+      name: 'loader.js',
+      version: '4.7.0',
+    });
+
+    const pkg = await added;
+
+    expect(pkg.name).to.equal('loader.js');
+    expect(
+      (pic.rootPackage as PackageInfo).devDependenciesPackages?.get('loader.js')
+    ).to.equal(pkg);
+  });
+
+  test('re-reads the other paths when one fails', async function () {
+    const addonPath = path.join(nodeModulesPath, 'ember-random-addon');
+    const failure = new Error('unreadable');
+    const invalidate = pic.invalidate.bind(pic);
+    const changed: string[] = [];
+
+    vi.spyOn(pic, 'invalidate').mockImplementation((changedPath) => {
+      if (changedPath === nodeModulesPath) {
+        throw failure;
+      }
+
+      invalidate(changedPath);
+    });
+    watcher.on('package-changed', (pkg) => changed.push(pkg.name));
+
+    const packageJsonPath = path.join(addonPath, 'package.json');
+    fs.writeJsonSync(packageJsonPath, {
+      ...fs.readJsonSync(packageJsonPath),
+      version: '9.9.9',
+    });
+
+    expect(() => watcher.refresh(nodeModulesPath, packageJsonPath)).to.throw(
+      failure
+    );
+    expect(changed).to.eql(['ember-random-addon']);
+
+    // a change found by watching is emitted as an 'error' event instead.
+    const error = new Promise<Error>((resolve) =>
+      watcher.once('error', resolve)
+    );
+
+    fs.outputJsonSync(path.join(nodeModulesPath, 'loader.js', 'package.json'), {
+      name: 'loader.js',
+      version: '4.7.0',
+    });
+
+    expect(await error).to.equal(failure);
+  });
+
+  test('does not throw a failure to re-read with no error listener', async function () {
+    const invalidate = vi.spyOn(pic, 'invalidate').mockImplementation(() => {
+      throw new Error('unreadable');
+    });
+
+    fs.outputJsonSync(path.join(nodeModulesPath, 'loader.js', 'package.json'), {
+      name: 'loader.js',
+      version: '4.7.0',
+    });
+
+    // an uncaught error would fail the test run.
+    for (let i = 0; i < 100 && invalidate.mock.calls.length === 0; i++) {
+      await new Promise((resolve) => setTimeout(resolve, 20));
+    }
+
+    expect(invalidate).toHaveBeenCalled();
+  });
+
+  test('stops emitting events once closed', function () {
+    const added: string[] = [];
+    watcher.on('package-added', (pkg) => added.push(pkg.name));
+    watcher.close();
+
+    fs.outputJsonSync(path.join(nodeModulesPath, 'loader.js', 'package.json'), {
+      name: 'loader.js',
+      version: '4.7.0',
+    });
+    watcher.refresh(nodeModulesPath);
+
+    expect(added).to.eql([]);
+    expect(watcher.watchedPaths).to.eql([]);
+  });
+});
@@ -0,0 +1,180 @@
+'use strict';
+
+import fixturify from 'fixturify';
+import fs from 'fs-extra';
+import os from 'node:os';
+import path from 'node:path';
+import { afterAll, beforeAll, describe, expect, test } from 'vitest';
+
+import { EmberAddonPackageInfo } from '../../src/objects/ember-addon-package-info';
+import { EmberAppPackageInfo } from '../../src/objects/ember-app-package-info';
+import { PackageInfo } from '../../src/objects/package-info';
+import { PackageInfoCache } from '../../src/objects/package-info-cache';
+import { pkg } from '../helpers/fixtures';
+
+function members(): fixturify.DirJSON {
+  return {
+    app: pkg('app', {
+      ember: { edition: 'octane' },
+      dependencies: { 'my-addon': '^1.0.0', util: 'workspace:*' },
+      devDependencies: { 'ember-cli': '*' },
+    }),
+    'my-addon': {
+      ...pkg('my-addon', {
+        keywords: ['ember-addon'],
+        ember: { edition: 'octane' },
+      }),
+      'index.js': 'module.exports = {};',
+    },
+    util: pkg('util', {
+      dependencies: { lodash: '^4.0.0' },
+      devDependencies: { typescript: '*' },
+    }),
+    ignored: pkg('ignored'),
+  };
+}
+
+function installed(): fixturify.DirJSON {
+  return {
+    'ember-cli': pkg('ember-cli'),
+    lodash: { 'package.json': '{ "name": "lodash", "version": "4.17.21" }' },
+    typescript: pkg('typescript'),
+  };
+}
+
+describe('workspaces', function () {
+  let rootDir: string;
+
+  function memberNames(pic: PackageInfoCache): string[] {
+    return [...pic.workspacePackages.keys()];
+  }
+
+  beforeAll(function () {
+    rootDir = fs.realpathSync(
+      fs.mkdtempSync(path.join(os.tmpdir(), 'pic-workspaces-'))
+    );
+
+    fixturify.writeSync(rootDir, {
+      yarn: {
+        'package.json': JSON.stringify({
+          name: 'monorepo',
+          private: true,
+          workspaces: ['packages/*', '!packages/ignored'],
+        }),
+        packages: members(),
+        node_modules: installed(),
+      },
+      'yarn-object': {
+        'package.json': JSON.stringify({
+          name: 'monorepo',
+          private: true,
+          workspaces: { packages: ['packages/util', 'packages/app'] },
+        }),
+        packages: members(),
+        node_modules: installed(),
+      },
+      pnpm: {
+        'package.json': JSON.stringify({
+          name: 'monorepo',
+          private: true,
+          workspaces: ['not-used/*'],
+        }),
+        'pnpm-workspace.yaml': `packages:\n  - 'packages/**'\n  - "!**/ignored"\n`,
+        packages: members(),
+        node_modules: installed(),
+      },
+    });
+  });
+
+  afterAll(function () {
+    fs.removeSync(rootDir);
+  });
+
+  test('reads every member matched by the workspace globs', function () {
+    const workspaceDir = path.join(rootDir, 'yarn');
+    const pic = new PackageInfoCache();
+    const root = pic.loadWorkspace(workspaceDir);
+
+    expect(pic.rootPackage).to.equal(root);
+    expect(root.isWorkspaceMember).to.be.false;
+    expect(memberNames(pic)).to.eql(['app', 'my-addon', 'util']);
+
+    const app = pic.workspacePackages.get('app') as PackageInfo;
+
+    expect(app).to.be.instanceOf(EmberAppPackageInfo);
+    expect(app.isWorkspaceMember).to.be.true;
+    expect(app.realPath).to.equal(path.join(workspaceDir, 'packages', 'app'));
+    expect(pic.workspacePackages.get('my-addon')).to.be.instanceOf(
+      EmberAddonPackageInfo
+    );
+    expect(pic.contains(path.join(workspaceDir, 'packages', 'ignored'))).to.be
+      .false;
+  });
+
+  test('resolves links between members and their devDependencies', function () {
+    const workspaceDir = path.join(rootDir, 'yarn');
+    const pic = new PackageInfoCache();
+    pic.loadWorkspace(workspaceDir);
+
+    const app = pic.workspacePackages.get('app') as PackageInfo;
+    const util = pic.workspacePackages.get('util') as PackageInfo;
+
+    expect(app.dependenciesPackages?.get('my-addon')).to.equal(
+      pic.workspacePackages.get('my-addon')
+    );
+    expect(app.dependenciesPackages?.get('util')).to.equal(util);
+    expect(app.devDependenciesPackages?.get('ember-cli')?.realPath).to.equal(
+      path.join(workspaceDir, 'node_modules', 'ember-cli')
+    );
+    expect(util.dependenciesPackages?.get('lodash')?.realPath).to.equal(
+      path.join(workspaceDir, 'node_modules', 'lodash')
+    );
+    expect([...(util.devDependenciesPackages?.keys() ?? [])]).to.eql([
+      'typescript',
+    ]);
+    expect(app.hasErrors()).to.be.false;
+    expect(util.hasErrors()).to.be.false;
+  });
+
+  test("supports the '{ packages }' form of workspaces", function () {
+    const pic = new PackageInfoCache();
+    pic.loadWorkspace(path.join(rootDir, 'yarn-object'));
+
+    expect(memberNames(pic)).to.eql(['app', 'util']);
+  });
+
+  test('prefers pnpm-workspace.yaml to the workspaces field', function () {
+    const pic = new PackageInfoCache();
+    pic.loadWorkspace(path.join(rootDir, 'pnpm'));
+
+    expect(memberNames(pic)).to.eql(['app', 'my-addon', 'util']);
+  });
+
+  test('loads the same members asynchronously', async function () {
+    const pic = new PackageInfoCache();
+    const root = await pic.loadWorkspaceAsync(path.join(rootDir, 'pnpm'));
+
+    expect(pic.rootPackage).to.equal(root);
+    expect(memberNames(pic)).to.eql(['app', 'my-addon', 'util']);
+    expect(
+      (
+        pic.workspacePackages.get('app') as PackageInfo
+      ).dependenciesPackages?.get('util')
+    ).to.equal(pic.workspacePackages.get('util'));
+  });
+
+  test('keeps the members in a snapshot', function () {
+    const snapshotPath = path.join(rootDir, 'snapshot.json');
+    const pic = new PackageInfoCache();
+    pic.loadWorkspace(path.join(rootDir, 'yarn'));
+    pic.saveSnapshot(snapshotPath);
+
+    const restored = new PackageInfoCache();
+    restored.loadFromSnapshot(snapshotPath);
+
+    expect(memberNames(restored)).to.eql(['app', 'my-addon', 'util']);
+    expect(
+      (restored.workspacePackages.get('util') as PackageInfo).isWorkspaceMember
+    ).to.be.true;
+  });
+});